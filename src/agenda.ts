@@ -0,0 +1,176 @@
+import { EventAlert, EventOccurrence } from './types.js';
+import { getZonedParts, resolveTimeZone, zonedDateKey } from './timezone.js';
+import { categoryEmoji, statusLabel } from './events.js';
+import { escapeXml } from './xml.js';
+
+export interface AgendaLink {
+  label: string;
+  url: string;
+}
+
+export interface AgendaOptions {
+  title: string;
+  now: Date;
+  timeZone?: string;          // zone days are grouped in (default UTC)
+  subscribe?: AgendaLink[];   // webcal:// buttons, one per feed
+  links?: AgendaLink[];       // navigation, e.g. the other agents' agendas
+}
+
+// Window shown on the agenda: this many days back and ahead of today
+export const AGENDA_PAST_DAYS = 7;
+export const AGENDA_FUTURE_DAYS = 14;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const STYLE = `
+body { font: 15px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+h1 { margin-bottom: .25rem; }
+h2 { margin-top: 2rem; border-bottom: 1px solid #d0d7de; }
+h3 { margin: 1.25rem 0 .5rem; font-size: 1rem; color: #57606a; }
+nav a, .subscribe a { display: inline-block; margin: .25rem .5rem .25rem 0; }
+.subscribe a { padding: .25rem .75rem; border-radius: 1rem; background: #0969da; color: #fff; text-decoration: none; }
+ul { list-style: none; padding: 0; margin: 0; }
+li { padding: .5rem 0; border-bottom: 1px solid #eaeef2; }
+.time { display: inline-block; min-width: 7.5rem; color: #57606a; font-variant-numeric: tabular-nums; }
+.meta { display: block; margin-left: 7.5rem; font-size: .875rem; color: #57606a; }
+.status { font-size: .75rem; padding: 0 .4rem; border-radius: .5rem; background: #eaeef2; }
+.status-in_progress { background: #fff8c5; }
+.status-completed { background: #dafbe1; }
+.cancelled .title { text-decoration: line-through; color: #8c959f; }
+.empty { color: #8c959f; }
+`;
+
+/**
+ * Server-rendered HTML agenda: occurrences grouped by day in the given zone,
+ * upcoming days first (soonest first), then recent days (latest first).
+ * Plain HTML and inline CSS — nothing to load from elsewhere.
+ */
+export function renderAgenda(occurrences: EventOccurrence[], options: AgendaOptions): string {
+  const timeZone = resolveTimeZone(options.timeZone);
+  const today = zonedDateKey(options.now, timeZone);
+
+  const days: Map<string, EventOccurrence[]> = new Map();
+  for (const occurrence of [...occurrences].sort((a, b) => a.start.getTime() - b.start.getTime())) {
+    const key = zonedDateKey(occurrence.start, occurrence.allDay ? resolveTimeZone(occurrence.timezone || timeZone) : timeZone);
+    const list = days.get(key) || [];
+    list.push(occurrence);
+    days.set(key, list);
+  }
+
+  const keys = Array.from(days.keys()).sort();
+  const upcoming = keys.filter(key => key >= today);
+  const recent = keys.filter(key => key < today).reverse();
+
+  const body: string[] = [`<h1>${escapeXml(options.title)}</h1>`];
+  if (options.links && options.links.length > 0) {
+    body.push(`<nav>${options.links.map(link => `<a href="${escapeXml(link.url)}">${escapeXml(link.label)}</a>`).join('')}</nav>`);
+  }
+  if (options.subscribe && options.subscribe.length > 0) {
+    body.push(`<p class="subscribe">${options.subscribe.map(link => `<a href="${escapeXml(link.url)}">Subscribe: ${escapeXml(link.label)}</a>`).join('')}</p>`);
+  }
+
+  body.push('<h2>Upcoming</h2>');
+  body.push(...daySections(upcoming, days, today, timeZone));
+  body.push('<h2>Recent</h2>');
+  body.push(...daySections(recent, days, today, timeZone));
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeXml(options.title)}</title>`,
+    `<style>${STYLE}</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * `webcal://` URL for a feed path, so calendar apps subscribe instead of
+ * downloading a one-off copy.
+ */
+export function webcalUrl(host: string, path: string): string {
+  return `webcal://${host}${path}`;
+}
+
+function daySections(keys: string[], days: Map<string, EventOccurrence[]>, today: string, timeZone: string): string[] {
+  if (keys.length === 0) return ['<p class="empty">Nothing scheduled.</p>'];
+
+  const lines: string[] = [];
+  for (const key of keys) {
+    lines.push(`<h3>${escapeXml(dayHeading(key, today))}</h3>`);
+    lines.push('<ul>');
+    for (const occurrence of days.get(key)!) {
+      lines.push(occurrenceItem(occurrence, timeZone));
+    }
+    lines.push('</ul>');
+  }
+  return lines;
+}
+
+function occurrenceItem(occurrence: EventOccurrence, timeZone: string): string {
+  const status = occurrence.status ?? 'PLANNED';
+  const emoji = categoryEmoji(occurrence.category);
+  // Only web links — a javascript: URL in an event must not become clickable
+  const title = occurrence.url && /^https?:\/\//i.test(occurrence.url)
+    ? `<a href="${escapeXml(occurrence.url)}">${escapeXml(occurrence.title)}</a>`
+    : escapeXml(occurrence.title);
+
+  const meta: string[] = [];
+  if (occurrence.category) meta.push(escapeXml(emoji ? `${emoji} ${occurrence.category}` : occurrence.category));
+  if (occurrence.agent) meta.push(`agent: ${escapeXml(occurrence.agent)}`);
+  if (occurrence.project) meta.push(`project: ${escapeXml(occurrence.project)}`);
+  if (occurrence.alerts && occurrence.alerts.length > 0) meta.push(`🔔 ${escapeXml(formatAlerts(occurrence.alerts))}`);
+  if (occurrence.rrule || occurrence.recurrenceId) meta.push('🔁 repeats');
+
+  return [
+    status === 'CANCELLED' ? '<li class="cancelled">' : '<li>',
+    `<span class="time">${escapeXml(formatTimeRange(occurrence, timeZone))}</span>`,
+    `<span class="title">${title}</span> `,
+    `<span class="status status-${status.toLowerCase()}">${escapeXml(statusLabel(status))}</span>`,
+    meta.length > 0 ? `<span class="meta">${meta.join(' · ')}</span>` : '',
+    '</li>',
+  ].join('');
+}
+
+/** `Today`, `Tomorrow`, `Yesterday`, otherwise e.g. `Mon 3 Mar 2025`. */
+function dayHeading(key: string, today: string): string {
+  const [year, month, day] = key.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const label = `${WEEKDAYS[date.getUTCDay()]} ${day} ${MONTHS[month - 1]} ${year}`;
+
+  const [ty, tm, td] = today.split('-').map(Number);
+  const offset = Math.round((date.getTime() - Date.UTC(ty, tm - 1, td)) / 86400000);
+  if (offset === 0) return `Today — ${label}`;
+  if (offset === 1) return `Tomorrow — ${label}`;
+  if (offset === -1) return `Yesterday — ${label}`;
+  return label;
+}
+
+function formatTimeRange(occurrence: EventOccurrence, timeZone: string): string {
+  if (occurrence.allDay) return 'All day';
+  const start = getZonedParts(occurrence.start, timeZone);
+  const end = getZonedParts(occurrence.end, timeZone);
+  return `${pad(start.hour)}:${pad(start.minute)}–${pad(end.hour)}:${pad(end.minute)}`;
+}
+
+/** `15 min, 1 h before` */
+function formatAlerts(alerts: EventAlert[]): string {
+  const parts = alerts.map(({ minutes }) => {
+    if (minutes >= 1440 && minutes % 1440 === 0) return `${minutes / 1440} d`;
+    if (minutes >= 60 && minutes % 60 === 0) return `${minutes / 60} h`;
+    return `${minutes} min`;
+  });
+  return `${parts.join(', ')} before`;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
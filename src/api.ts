@@ -0,0 +1,265 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { FeedManager } from './feed-manager.js';
+import { fromToolCall } from './events.js';
+import { matchesFilter, parseFilterQuery } from './filter.js';
+import { readBody, safeDecode, sendJSON } from './http.js';
+import { CalendarEvent, DefaultsConfig, EventStatus, ScheduleToolParams } from './types.js';
+
+export interface EventsApiOptions {
+  defaults?: DefaultsConfig;
+  timeZone?: string;
+}
+
+// Source recorded in the journal for changes made through the API
+const API_SOURCE = 'clawcal:api';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+const STATUSES: EventStatus[] = ['PLANNED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'];
+
+/**
+ * JSON REST API over FeedManager. The caller handles auth; this only
+ * routes paths under /clawcal/api/events:
+ *
+ *   GET    /clawcal/api/events               list (feed query filters + limit/offset)
+ *   POST   /clawcal/api/events               create (clawcal_schedule parameters)
+ *   GET    /clawcal/api/events/<uid>         get one
+ *   PATCH  /clawcal/api/events/<uid>         update fields
+ *   POST   /clawcal/api/events/<uid>/cancel  mark cancelled
+ *   DELETE /clawcal/api/events/<uid>         remove
+ */
+export function createEventsApi(feeds: FeedManager, options: EventsApiOptions = {}) {
+  return async function handleEventsApi(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname, searchParams } = new URL(req.url || '', 'http://localhost');
+    const method = req.method || 'GET';
+    const match = pathname.match(/^\/clawcal\/api\/events(?:\/([^/]+)(\/cancel)?)?\/?$/);
+
+    if (!match) {
+      sendJSON(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const cancel = !!match[2];
+
+    try {
+      const uid = match[1] ? safeDecode(match[1]) : undefined;
+      if (uid === null) {
+        sendJSON(res, 400, { error: 'Malformed event ID' });
+        return;
+      }
+      if (!uid) {
+        if (method === 'GET') return listEvents(feeds, searchParams, options, res);
+        if (method === 'POST') return await createEvent(feeds, req, options, res);
+        return methodNotAllowed(res, 'GET, POST');
+      }
+
+      const existing = feeds.getEvent(uid);
+      if (!existing) {
+        sendJSON(res, 404, { error: `No event "${uid}"` });
+        return;
+      }
+
+      if (cancel) {
+        if (method !== 'POST') return methodNotAllowed(res, 'POST');
+        feeds.cancelEvent(uid, API_SOURCE);
+        sendJSON(res, 200, { event: feeds.getEvent(uid) });
+        return;
+      }
+
+      if (method === 'GET') {
+        sendJSON(res, 200, { event: existing });
+        return;
+      }
+      if (method === 'PATCH') return await patchEvent(feeds, uid, req, res);
+      if (method === 'DELETE') {
+        feeds.removeEvent(uid, API_SOURCE);
+        res.statusCode = 204;
+        res.end();
+        return;
+      }
+      return methodNotAllowed(res, 'GET, PATCH, DELETE');
+    } catch (err) {
+      sendJSON(res, 400, { error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+}
+
+function listEvents(feeds: FeedManager, query: URLSearchParams, options: EventsApiOptions, res: ServerResponse): void {
+  const parsed = parseFilterQuery(query);
+  if ('error' in parsed) {
+    sendJSON(res, 400, { error: parsed.error });
+    return;
+  }
+
+  const limit = query.has('limit') ? Number(query.get('limit')) : DEFAULT_LIMIT;
+  const offset = query.has('offset') ? Number(query.get('offset')) : 0;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    sendJSON(res, 400, { error: `limit must be an integer from 1 to ${MAX_LIMIT}` });
+    return;
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    sendJSON(res, 400, { error: 'offset must be a non-negative integer' });
+    return;
+  }
+
+  const now = new Date();
+  const matching = feeds.getAllEvents()
+    .filter(event => matchesFilter(event, parsed.filter, { now, timeZone: options.timeZone }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime() || a.uid.localeCompare(b.uid));
+
+  sendJSON(res, 200, {
+    events: matching.slice(offset, offset + limit),
+    total: matching.length,
+    limit,
+    offset,
+  });
+}
+
+async function createEvent(feeds: FeedManager, req: IncomingMessage, options: EventsApiOptions, res: ServerResponse): Promise<void> {
+  const params = toScheduleParams(await readJSONObject(req));
+  const event = fromToolCall(params, options.defaults);
+  feeds.addEvent(event, API_SOURCE);
+  sendJSON(res, 201, { event: feeds.getEvent(event.uid) ?? event });
+}
+
+async function patchEvent(feeds: FeedManager, uid: string, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const body = await readJSONObject(req);
+  const updates = toEventUpdates(body);
+  const existing = feeds.getEvent(uid)!;
+
+  // Moving the start alone moves the whole event, keeping its length
+  if (updates.start && !('end' in updates) && existing.end) {
+    updates.end = new Date(existing.end.getTime() + updates.start.getTime() - existing.start.getTime());
+  }
+  const start = updates.start ?? existing.start;
+  const end = 'end' in updates ? updates.end : existing.end;
+  if (end && end.getTime() < start.getTime()) throw new Error('end must not be before start');
+
+  feeds.updateEvent(uid, updates, API_SOURCE);
+  sendJSON(res, 200, { event: feeds.getEvent(uid) });
+}
+
+/**
+ * Validate a POST body into clawcal_schedule parameters. Everything is
+ * checked before the event is built, so a bad field never reaches the
+ * journal or the feeds.
+ */
+export function toScheduleParams(body: Record<string, unknown>): ScheduleToolParams {
+  const { title, date } = body;
+  if (typeof title !== 'string' || !title.trim()) throw new Error('title is required');
+  if (typeof date !== 'string' || isNaN(new Date(date).getTime())) throw new Error('date must be an ISO 8601 date/time');
+  const params: ScheduleToolParams = { title, date };
+
+  for (const [key, value] of Object.entries(body)) {
+    if (value === undefined || value === null) continue;
+    switch (key) {
+      case 'title':
+      case 'date':
+        break;
+      case 'description':
+      case 'category':
+      case 'agent':
+      case 'project':
+      case 'url':
+      case 'timezone':
+        if (typeof value !== 'string') throw new Error(`${key} must be a string`);
+        params[key] = value;
+        break;
+      case 'duration':
+        if (typeof value !== 'number' || value <= 0) throw new Error('duration must be a positive number of minutes');
+        params.duration = value;
+        break;
+      case 'alertMinutes':
+        if (typeof value !== 'number' || value < 0) throw new Error('alertMinutes must be a non-negative number');
+        params.alertMinutes = value;
+        break;
+      case 'allDay':
+        if (typeof value !== 'boolean') throw new Error('allDay must be a boolean');
+        params.allDay = value;
+        break;
+      default:
+        throw new Error(`Unknown field "${key}"`);
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Validate a PATCH body into CalendarEvent updates. `null` clears an
+ * optional field. Agent and project pick the feeds an event lives in, so
+ * they're fixed at creation.
+ */
+export function toEventUpdates(body: Record<string, unknown>): Partial<CalendarEvent> {
+  const updates: Partial<CalendarEvent> = {};
+
+  for (const [key, value] of Object.entries(body)) {
+    switch (key) {
+      case 'title':
+        if (typeof value !== 'string' || !value.trim()) throw new Error('title must be a non-empty string');
+        updates.title = value;
+        break;
+      case 'description':
+      case 'category':
+      case 'url':
+      case 'timezone':
+        if (value !== null && typeof value !== 'string') throw new Error(`${key} must be a string or null`);
+        updates[key] = value ?? undefined;
+        break;
+      case 'start':
+      case 'end': {
+        if (value === null && key === 'end') {
+          updates.end = undefined;
+          break;
+        }
+        const date = typeof value === 'string' ? new Date(value) : null;
+        if (!date || isNaN(date.getTime())) throw new Error(`${key} must be an ISO 8601 date/time`);
+        updates[key] = date;
+        break;
+      }
+      case 'duration':
+        if (value !== null && (typeof value !== 'number' || value <= 0)) throw new Error('duration must be a positive number of minutes or null');
+        updates.duration = value ?? undefined;
+        break;
+      case 'allDay':
+        if (typeof value !== 'boolean') throw new Error('allDay must be a boolean');
+        updates.allDay = value;
+        break;
+      case 'transparency':
+        if (value !== null && value !== 'OPAQUE' && value !== 'TRANSPARENT') throw new Error('transparency must be OPAQUE, TRANSPARENT or null');
+        updates.transparency = value ?? undefined;
+        break;
+      case 'status':
+        if (!STATUSES.includes(value as EventStatus)) throw new Error(`status must be one of ${STATUSES.join(', ')}`);
+        updates.status = value as EventStatus;
+        break;
+      case 'agent':
+      case 'project':
+        throw new Error(`${key} can't be changed — delete the event and create it again`);
+      default:
+        throw new Error(`Unknown field "${key}"`);
+    }
+  }
+
+  return updates;
+}
+
+async function readJSONObject(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const text = await readBody(req);
+  let body: unknown;
+  try {
+    body = JSON.parse(text || '{}');
+  } catch {
+    throw new Error('Body must be JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new Error('Body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+function methodNotAllowed(res: ServerResponse, allow: string): void {
+  res.statusCode = 405;
+  res.setHeader('Allow', allow);
+  res.end('Method not allowed');
+}
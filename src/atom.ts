@@ -0,0 +1,104 @@
+import { CalendarEvent } from './types.js';
+import { getZonedParts, resolveTimeZone } from './timezone.js';
+import { statusLabel } from './events.js';
+import { escapeXml } from './xml.js';
+
+export interface AtomFeedOptions {
+  title: string;
+  id: string;          // feed IRI, e.g. 'urn:clawcal:feed:/clawcal/feed.atom'
+  selfUrl?: string;    // the feed's own URL, sent as rel="self"
+  updated?: Date;      // feed <updated> when there are no entries
+  timeZone?: string;   // zone for times of events without their own
+  maxEntries?: number; // most recently modified events kept (default 100)
+}
+
+const DEFAULT_MAX_ENTRIES = 100;
+
+/**
+ * Render events as an Atom (RFC 4287) activity stream, most recently
+ * modified first. The entry id carries the event's SEQUENCE, so each
+ * revision shows up in feed readers as a new "Updated:" entry instead of
+ * silently replacing the old one.
+ */
+export function toAtom(events: CalendarEvent[], options: AtomFeedOptions): string {
+  const entries = [...events]
+    .sort((a, b) => modifiedAt(b).getTime() - modifiedAt(a).getTime() || a.uid.localeCompare(b.uid))
+    .slice(0, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+  const updated = entries.length > 0 ? modifiedAt(entries[0]) : (options.updated ?? new Date(0));
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(options.id)}</id>`,
+    `  <title>${escapeXml(options.title)}</title>`,
+    `  <updated>${updated.toISOString()}</updated>`,
+    '  <author><name>ClawCal</name></author>',
+    '  <generator>ClawCal</generator>',
+  ];
+  if (options.selfUrl) {
+    lines.push(`  <link rel="self" type="application/atom+xml" href="${escapeXml(options.selfUrl)}"/>`);
+  }
+
+  for (const event of entries) {
+    lines.push(...entryLines(event, resolveTimeZone(event.timezone || options.timeZone)));
+  }
+
+  lines.push('</feed>');
+  return lines.join('\n') + '\n';
+}
+
+function entryLines(event: CalendarEvent, timeZone: string): string[] {
+  const sequence = event.sequence ?? 0;
+  const lines: string[] = [
+    '  <entry>',
+    `    <id>urn:clawcal:event:${encodeURIComponent(event.uid)}:${sequence}</id>`,
+    `    <title>${escapeXml(entryTitle(event))}</title>`,
+    `    <updated>${modifiedAt(event).toISOString()}</updated>`,
+  ];
+
+  if (event.agent) {
+    lines.push(`    <author><name>${escapeXml(event.agent)}</name></author>`);
+  }
+  if (event.category) {
+    lines.push(`    <category term="${escapeXml(event.category)}"/>`);
+  }
+  if (event.url) {
+    lines.push(`    <link rel="alternate" href="${escapeXml(event.url)}"/>`);
+  }
+
+  lines.push(`    <content type="text">${escapeXml(entryContent(event, timeZone))}</content>`);
+  lines.push('  </entry>');
+  return lines;
+}
+
+function entryTitle(event: CalendarEvent): string {
+  if (event.status === 'CANCELLED') return `Cancelled: ${event.title}`;
+  if ((event.sequence ?? 0) > 0) return `Updated: ${event.title}`;
+  return event.title;
+}
+
+function entryContent(event: CalendarEvent, timeZone: string): string {
+  const lines = [`When: ${formatWhen(event.start, event.allDay, timeZone)}`];
+  if (event.rrule) lines.push(`Repeats: ${event.rrule}`);
+  if (event.status) lines.push(`Status: ${statusLabel(event.status)}`);
+  if (event.agent) lines.push(`Agent: ${event.agent}`);
+  if (event.project) lines.push(`Project: ${event.project}`);
+  if (event.description) lines.push('', event.description);
+  return lines.join('\n');
+}
+
+/** `2025-03-03 09:00 (Europe/Berlin)`, or just the date for all-day events. */
+function formatWhen(date: Date, allDay: boolean | undefined, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  const day = `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+  return allDay ? day : `${day} ${pad(p.hour)}:${pad(p.minute)} (${timeZone})`;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+// Events from before modification times were tracked fall back to their start
+function modifiedAt(event: CalendarEvent): Date {
+  return event.lastModified ?? event.start;
+}
@@ -0,0 +1,573 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { createHash } from 'crypto';
+import { CalendarManager, parseICSDate } from './calendar.js';
+import { FeedManager } from './feed-manager.js';
+import { matchesFilter } from './filter.js';
+import { matchEtag, readBody, safeDecode, serveCacheable } from './http.js';
+import { CalendarEvent, ClawCalEventChange } from './types.js';
+import { escapeXml, findChild, findChildren, parseXml, XmlElement } from './xml.js';
+
+export interface CalDavOptions {
+  timeZone?: string;   // zone for expanding recurring events in time-range queries
+  emit?: (event: string, change: ClawCalEventChange) => void;   // tells agents about edits
+}
+
+export const DAV_ROOT = '/clawcal/dav/';
+
+const DAV = 'DAV:';
+const CALDAV = 'urn:ietf:params:xml:ns:caldav';
+const CALSERVER = 'http://calendarserver.org/ns/';
+const PREFIXES: Record<string, string> = { [DAV]: 'D', [CALDAV]: 'C', [CALSERVER]: 'CS' };
+
+const ICS_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+const ALLOW = 'OPTIONS, GET, HEAD, PROPFIND, REPORT, PUT, DELETE';
+
+// Source recorded in the journal for edits made from calendar apps
+const CALDAV_SOURCE = 'clawcal:caldav';
+
+/** A feed exposed as a calendar collection at /clawcal/dav/<id>/. */
+interface Collection {
+  id: string;
+  calendar: CalendarManager;
+}
+
+type Target =
+  | { kind: 'home' }
+  | { kind: 'collection'; collection: Collection }
+  | { kind: 'resource'; collection: Collection; event: CalendarEvent };
+
+interface DavProperty {
+  ns: string;
+  name: string;
+  value: () => string;   // inner XML
+  allprop?: false;       // left out of <allprop/> (RFC 4791: calendar-data)
+}
+
+type PropRequest = { mode: 'allprop' } | { mode: 'propname' } | { mode: 'prop'; props: XmlElement[] };
+
+/**
+ * CalDAV (RFC 4791) over FeedManager. The caller handles auth;
+ * this routes paths under /clawcal/dav/:
+ *
+ *   /clawcal/dav/                    principal and calendar home
+ *   /clawcal/dav/<collection>/       one feed: all, agent-<id>, project-<name>, custom-<slug>
+ *   /clawcal/dav/<collection>/<uid>.ics   one event
+ *
+ * PROPFIND (Depth 0/1), REPORT calendar-query / calendar-multiget /
+ * sync-collection, and GET on events. Sync tokens are the feed's version
+ * tag, so a restart invalidates them and clients resync from scratch.
+ * calendar-query evaluates VEVENT comp-filters and time-ranges only.
+ *
+ * PUT and DELETE on an event apply a human's edit through FeedManager and
+ * emit a clawcal:event:* gateway event so the agent behind it can follow.
+ * Events are only created by agents, so PUT never adds one.
+ */
+export function createCalDavHandler(feeds: FeedManager, options: CalDavOptions = {}) {
+  return async function handleCalDav(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = req.method || 'GET';
+    const target = resolveTarget(feeds, new URL(req.url || '', 'http://localhost').pathname);
+
+    if (method === 'OPTIONS') {
+      res.statusCode = 200;
+      res.setHeader('DAV', '1, calendar-access');
+      res.setHeader('Allow', ALLOW);
+      res.end();
+      return;
+    }
+
+    if (!target) {
+      res.statusCode = method === 'PUT' ? 403 : 404;
+      res.end(method === 'PUT' ? 'Events are created by agents — only existing events can be edited' : 'Not found');
+      return;
+    }
+
+    try {
+      switch (method) {
+        case 'GET':
+        case 'HEAD':
+          return getResource(req, res, target);
+        case 'PROPFIND':
+          return await propfind(feeds, req, res, target);
+        case 'REPORT':
+          return await report(feeds, req, res, target, options);
+        case 'PUT':
+          return await putResource(feeds, req, res, target, options);
+        case 'DELETE':
+          return deleteResource(feeds, req, res, target, options);
+        default:
+          res.statusCode = 405;
+          res.setHeader('Allow', ALLOW);
+          res.end('Method not allowed');
+      }
+    } catch (err) {
+      res.statusCode = 400;
+      res.end(err instanceof Error ? err.message : String(err));
+    }
+  };
+}
+
+/**
+ * Collections for every feed currently served, in the order the feeds
+ * are listed at /clawcal/feeds.
+ */
+function listCollections(feeds: FeedManager): Collection[] {
+  const collections: Collection[] = [];
+  const combined = feeds.getCombinedFeed();
+  if (combined) collections.push({ id: 'all', calendar: combined });
+  for (const agentId of feeds.getAgentIds()) {
+    collections.push({ id: `agent-${agentId}`, calendar: feeds.getAgentFeed(agentId)! });
+  }
+  for (const project of feeds.getProjectNames()) {
+    collections.push({ id: `project-${project}`, calendar: feeds.getProjectFeed(project)! });
+  }
+  for (const feed of feeds.getCustomFeeds()) {
+    const calendar = feeds.getCustomFeed(feed.slug);
+    if (calendar) collections.push({ id: `custom-${feed.slug}`, calendar });
+  }
+  return collections;
+}
+
+function findCollection(feeds: FeedManager, id: string): Collection | undefined {
+  const match = id.match(/^(agent|project|custom)-(.+)$/);
+  let calendar: CalendarManager | null | undefined;
+  if (id === 'all') calendar = feeds.getCombinedFeed();
+  else if (match?.[1] === 'agent') calendar = feeds.getAgentFeed(match[2]);
+  else if (match?.[1] === 'project') calendar = feeds.getProjectFeed(match[2]);
+  else if (match?.[1] === 'custom') calendar = feeds.getCustomFeed(match[2]);
+  return calendar ? { id, calendar } : undefined;
+}
+
+function resolveTarget(feeds: FeedManager, pathname: string): Target | null {
+  if (pathname === '/clawcal/dav' || pathname === DAV_ROOT) return { kind: 'home' };
+
+  const match = pathname.match(/^\/clawcal\/dav\/([^/]+)(?:\/?|\/([^/]+)\.ics)$/);
+  if (!match) return null;
+
+  const id = safeDecode(match[1]);
+  const collection = id === null ? undefined : findCollection(feeds, id);
+  if (!collection) return null;
+  if (match[2] === undefined) return { kind: 'collection', collection };
+
+  const uid = safeDecode(match[2]);
+  const event = uid === null ? undefined : collection.calendar.getEvent(uid);
+  return event ? { kind: 'resource', collection, event } : null;
+}
+
+function collectionHref(collection: Collection): string {
+  return `${DAV_ROOT}${encodeURIComponent(collection.id)}/`;
+}
+
+function resourceHref(collection: Collection, uid: string): string {
+  return `${collectionHref(collection)}${encodeURIComponent(uid)}.ics`;
+}
+
+function targetHref(target: Target): string {
+  if (target.kind === 'home') return DAV_ROOT;
+  if (target.kind === 'collection') return collectionHref(target.collection);
+  return resourceHref(target.collection, target.event.uid);
+}
+
+/** Entity tag of an event resource — changes whenever its .ics does. */
+function resourceEtag(ics: string): string {
+  return `"${createHash('sha1').update(ics).digest('base64url')}"`;
+}
+
+function syncToken(collection: Collection): string {
+  return `urn:clawcal:sync:${encodeURIComponent(collection.id)}:${collection.calendar.getVersionTag()}`;
+}
+
+function getResource(req: IncomingMessage, res: ServerResponse, target: Target): void {
+  if (target.kind !== 'resource') return notAResource(res);
+
+  const { collection, event } = target;
+  const ics = collection.calendar.getEventICS(event.uid)!;
+  serveCacheable(req, res, {
+    contentType: ICS_CONTENT_TYPE,
+    etag: resourceEtag(ics),
+    lastModified: event.lastModified,
+    body: () => ics,
+  });
+}
+
+// --- PROPFIND ---
+
+async function propfind(feeds: FeedManager, req: IncomingMessage, res: ServerResponse, target: Target): Promise<void> {
+  const body = await readBody(req);
+  const root = body.trim() ? parseXml(body) : null;
+  if (root && !(root.ns === DAV && root.name === 'propfind')) throw new Error('Expected a DAV:propfind body');
+
+  const prop = root && findChild(root, DAV, 'prop');
+  const request: PropRequest = prop
+    ? { mode: 'prop', props: prop.children }
+    : root && findChild(root, DAV, 'propname') ? { mode: 'propname' } : { mode: 'allprop' };
+
+  // Depth: infinity is treated as 1 — there is nothing deeper than one level below a collection
+  const depth = req.headers.depth === '0' ? 0 : 1;
+  const targets: Target[] = [target];
+  if (depth === 1 && target.kind === 'home') {
+    targets.push(...listCollections(feeds).map(collection => ({ kind: 'collection' as const, collection })));
+  } else if (depth === 1 && target.kind === 'collection') {
+    for (const event of sortedEvents(target.collection.calendar)) {
+      targets.push({ kind: 'resource', collection: target.collection, event });
+    }
+  }
+
+  sendMultistatus(res, targets.map(t => propResponse(t, request)));
+}
+
+function targetProperties(target: Target): DavProperty[] {
+  const properties: DavProperty[] = [
+    { ns: DAV, name: 'current-user-principal', value: () => href(DAV_ROOT) },
+  ];
+
+  if (target.kind === 'home') {
+    properties.push(
+      { ns: DAV, name: 'resourcetype', value: () => '<D:collection/><D:principal/>' },
+      { ns: DAV, name: 'displayname', value: () => 'ClawCal' },
+      { ns: DAV, name: 'principal-URL', value: () => href(DAV_ROOT) },
+      { ns: CALDAV, name: 'calendar-home-set', value: () => href(DAV_ROOT) },
+      { ns: DAV, name: 'current-user-privilege-set', value: () => privileges(false) },
+    );
+    return properties;
+  }
+
+  if (target.kind === 'collection') {
+    const { calendar } = target.collection;
+    properties.push(
+      { ns: DAV, name: 'resourcetype', value: () => '<D:collection/><C:calendar/>' },
+      { ns: DAV, name: 'displayname', value: () => escapeXml(calendar.getName()) },
+      { ns: DAV, name: 'getlastmodified', value: () => calendar.getLastModified().toUTCString() },
+      { ns: DAV, name: 'sync-token', value: () => escapeXml(syncToken(target.collection)) },
+      { ns: CALSERVER, name: 'getctag', value: () => escapeXml(calendar.getVersionTag()) },
+      { ns: CALDAV, name: 'supported-calendar-component-set', value: () => '<C:comp name="VEVENT"/>' },
+      { ns: DAV, name: 'supported-report-set', value: () => ['C:calendar-query', 'C:calendar-multiget', 'D:sync-collection']
+        .map(report => `<D:supported-report><D:report><${report}/></D:report></D:supported-report>`).join('') },
+      { ns: DAV, name: 'current-user-privilege-set', value: () => privileges(true) },
+    );
+    return properties;
+  }
+
+  const { collection, event } = target;
+  const ics = (): string => collection.calendar.getEventICS(event.uid)!;
+  properties.push(
+    { ns: DAV, name: 'resourcetype', value: () => '' },
+    { ns: DAV, name: 'getcontenttype', value: () => `${ICS_CONTENT_TYPE}; component=vevent` },
+    { ns: DAV, name: 'getetag', value: () => escapeXml(resourceEtag(ics())) },
+    { ns: DAV, name: 'current-user-privilege-set', value: () => privileges(true) },
+    { ns: CALDAV, name: 'calendar-data', value: () => escapeXml(ics()), allprop: false },
+  );
+  if (event.lastModified) {
+    properties.push({ ns: DAV, name: 'getlastmodified', value: () => event.lastModified!.toUTCString() });
+  }
+  return properties;
+}
+
+// Events can be edited and deleted but not created (no DAV:bind)
+function privileges(writable: boolean): string {
+  return ['read', 'read-current-user-privilege-set', ...(writable ? ['write-content', 'unbind'] : [])]
+    .map(privilege => `<D:privilege><D:${privilege}/></D:privilege>`).join('');
+}
+
+/** One <D:response> with a 200 propstat for known properties and a 404 one for the rest. */
+function propResponse(target: Target, request: PropRequest): string {
+  const properties = targetProperties(target);
+  const found: string[] = [];
+  const missing: string[] = [];
+
+  if (request.mode === 'prop') {
+    for (const requested of request.props) {
+      const property = properties.find(p => p.ns === requested.ns && p.name === requested.name);
+      if (property) found.push(propElement(property.ns, property.name, property.value()));
+      else missing.push(propElement(requested.ns, requested.name, ''));
+    }
+  } else {
+    for (const property of properties) {
+      if (request.mode === 'propname') found.push(propElement(property.ns, property.name, ''));
+      else if (property.allprop !== false) found.push(propElement(property.ns, property.name, property.value()));
+    }
+  }
+
+  const propstats: string[] = [];
+  if (found.length > 0 || missing.length === 0) propstats.push(propstat(found, '200 OK'));
+  if (missing.length > 0) propstats.push(propstat(missing, '404 Not Found'));
+  return `<D:response>${href(targetHref(target))}${propstats.join('')}</D:response>`;
+}
+
+function propElement(ns: string, name: string, value: string): string {
+  const prefix = PREFIXES[ns];
+  const tag = prefix ? `${prefix}:${name}` : name;
+  // Properties from namespaces we don't know are echoed back with their own declaration
+  const declaration = prefix ? '' : ` xmlns="${escapeXml(ns)}"`;
+  return value ? `<${tag}${declaration}>${value}</${tag}>` : `<${tag}${declaration}/>`;
+}
+
+function propstat(props: string[], status: string): string {
+  return `<D:propstat><D:prop>${props.join('')}</D:prop><D:status>HTTP/1.1 ${status}</D:status></D:propstat>`;
+}
+
+// --- REPORT ---
+
+async function report(feeds: FeedManager, req: IncomingMessage, res: ServerResponse, target: Target, options: CalDavOptions): Promise<void> {
+  const root = parseXml(await readBody(req));
+  if (target.kind !== 'collection') {
+    davError(res, 403, '<D:supported-report/>');
+    return;
+  }
+
+  const { collection } = target;
+  const prop = findChild(root, DAV, 'prop');
+  const request: PropRequest = prop ? { mode: 'prop', props: prop.children } : { mode: 'allprop' };
+  const resource = (event: CalendarEvent): string => propResponse({ kind: 'resource', collection, event }, request);
+
+  if (root.ns === CALDAV && root.name === 'calendar-query') {
+    const include = queryFilter(root, options);
+    sendMultistatus(res, sortedEvents(collection.calendar).filter(include).map(resource));
+    return;
+  }
+
+  if (root.ns === CALDAV && root.name === 'calendar-multiget') {
+    const responses = findChildren(root, DAV, 'href').map(element => {
+      const requested = resolveTarget(feeds, new URL(element.text.trim(), 'http://localhost').pathname);
+      return requested?.kind === 'resource' && requested.collection.id === collection.id
+        ? resource(requested.event)
+        : `<D:response>${href(element.text.trim())}<D:status>HTTP/1.1 404 Not Found</D:status></D:response>`;
+    });
+    sendMultistatus(res, responses);
+    return;
+  }
+
+  if (root.ns === DAV && root.name === 'sync-collection') {
+    const token = findChild(root, DAV, 'sync-token')?.text.trim() || '';
+    const changes = token ? changesSince(collection, token) : { changed: collection.calendar.getAllEvents().map(e => e.uid), removed: [] };
+    if (!changes) {
+      davError(res, 403, '<D:valid-sync-token/>');
+      return;
+    }
+
+    const responses = [
+      ...changes.changed.map(uid => collection.calendar.getEvent(uid)).filter((e): e is CalendarEvent => !!e).map(resource),
+      ...changes.removed.map(uid => `<D:response>${href(resourceHref(collection, uid))}<D:status>HTTP/1.1 404 Not Found</D:status></D:response>`),
+    ];
+    sendMultistatus(res, responses, syncToken(collection));
+    return;
+  }
+
+  davError(res, 403, '<D:supported-report/>');
+}
+
+function changesSince(collection: Collection, token: string): { changed: string[]; removed: string[] } | null {
+  const prefix = `urn:clawcal:sync:${encodeURIComponent(collection.id)}:`;
+  return token.startsWith(prefix) ? collection.calendar.getChangesSince(token.slice(prefix.length)) : null;
+}
+
+/**
+ * calendar-query filter → event predicate. Only VEVENTs exist here, so a
+ * comp-filter for any other component matches nothing; a time-range
+ * matches events with an occurrence overlapping it.
+ */
+function queryFilter(root: XmlElement, options: CalDavOptions): (event: CalendarEvent) => boolean {
+  const filter = findChild(root, CALDAV, 'filter');
+  const calendar = filter && findChild(filter, CALDAV, 'comp-filter');
+  if (!calendar) return () => true;
+  if (calendar.attrs.name !== 'VCALENDAR') return () => false;
+
+  const component = findChild(calendar, CALDAV, 'comp-filter');
+  if (!component) return () => true;
+  if (component.attrs.name !== 'VEVENT') return () => false;
+
+  const range = findChild(component, CALDAV, 'time-range');
+  if (!range) return () => true;
+
+  const from = range.attrs.start ? parseICSDate(range.attrs.start) : null;
+  const to = range.attrs.end ? parseICSDate(range.attrs.end) : null;
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) throw new Error('Invalid time-range');
+
+  const now = new Date();
+  return event => matchesFilter(event, {
+    from: from?.toISOString(),
+    to: to?.toISOString(),
+  }, { now, timeZone: options.timeZone });
+}
+
+// --- PUT / DELETE ---
+
+type Span = Partial<Pick<CalendarEvent, 'title' | 'description' | 'allDay' | 'status' | 'start' | 'end' | 'duration'>>;
+
+async function putResource(feeds: FeedManager, req: IncomingMessage, res: ServerResponse, target: Target, options: CalDavOptions): Promise<void> {
+  if (target.kind !== 'resource') return notAResource(res);
+
+  const { collection, event } = target;
+  const current = collection.calendar.getEventICS(event.uid)!;
+  if (preconditionFailed(req, current)) {
+    res.statusCode = 412;
+    res.end('Precondition failed');
+    return;
+  }
+
+  const edited = collection.calendar.parseEventICS(await readBody(req));
+  if (!edited) throw new Error('Body must be an iCalendar object with one VEVENT');
+  if (edited.uid !== event.uid) throw new Error(`UID must be "${event.uid}"`);
+
+  // Compare against the event as the client saw it, so what doesn't survive an .ics round trip doesn't count as an edit
+  const before = collection.calendar.parseEventICS(current)!;
+  const emit = (change: Omit<ClawCalEventChange, 'uid' | 'agent' | 'project' | 'sequence' | 'source'>): void => {
+    const updated = feeds.getEvent(event.uid) ?? event;
+    options.emit?.(changeEventName(change.changes), {
+      uid: event.uid,
+      agent: event.agent,
+      project: event.project,
+      sequence: updated.sequence ?? 0,
+      source: 'caldav',
+      ...change,
+    });
+  };
+
+  const updates = spanEdits(before, edited);
+  if (Object.keys(updates).length > 0) {
+    feeds.updateEvent(event.uid, updates, CALDAV_SOURCE);
+    emit(changeDetails(before, { ...before, ...updates }, Object.keys(updates)));
+  }
+
+  for (const occurrence of edited.exdate || []) {
+    if (before.exdate?.some(d => d.getTime() === occurrence.getTime())) continue;
+    feeds.cancelOccurrence(event.uid, occurrence, CALDAV_SOURCE);
+    emit({ title: before.title, occurrence, start: occurrence, changes: ['status'] });
+  }
+
+  for (const override of edited.overrides || []) {
+    const time = override.recurrenceId.getTime();
+    if (edited.exdate?.some(d => d.getTime() === time)) continue;
+    // A newly overridden occurrence starts out as a copy of the series
+    const original: Span = before.overrides?.find(o => o.recurrenceId.getTime() === time) ?? {
+      title: before.title,
+      description: before.description,
+      status: before.status,
+      start: override.recurrenceId,
+      end: new Date(time + ((spanEnd(before) ?? before.start).getTime() - before.start.getTime())),
+    };
+
+    const occurrenceUpdates = spanEdits(original, override);
+    if (Object.keys(occurrenceUpdates).length === 0) continue;
+    feeds.updateOccurrence(event.uid, override.recurrenceId, occurrenceUpdates, CALDAV_SOURCE);
+    emit({ ...changeDetails(original, { ...original, ...occurrenceUpdates }, Object.keys(occurrenceUpdates)), occurrence: override.recurrenceId });
+  }
+
+  res.statusCode = 204;
+  res.end();
+}
+
+function deleteResource(feeds: FeedManager, req: IncomingMessage, res: ServerResponse, target: Target, options: CalDavOptions): void {
+  if (target.kind !== 'resource') return notAResource(res);
+
+  const { collection, event } = target;
+  if (preconditionFailed(req, collection.calendar.getEventICS(event.uid)!)) {
+    res.statusCode = 412;
+    res.end('Precondition failed');
+    return;
+  }
+
+  feeds.removeEvent(event.uid, CALDAV_SOURCE);
+  options.emit?.('clawcal:event:deleted', {
+    uid: event.uid,
+    title: event.title,
+    agent: event.agent,
+    project: event.project,
+    start: event.start,
+    end: spanEnd(event),
+    sequence: event.sequence ?? 0,
+    changes: [],
+    source: 'caldav',
+  });
+
+  res.statusCode = 204;
+  res.end();
+}
+
+/**
+ * What a calendar app may change: the time, title and description, and
+ * cancelling. Other STATUS values don't map back to agent statuses, and
+ * the rest (recurrence, agent, project, …) belongs to the agents.
+ */
+function spanEdits(before: Span, after: Span): Partial<CalendarEvent> {
+  const updates: Partial<CalendarEvent> = {};
+
+  if (after.title && after.title !== before.title) updates.title = after.title;
+  if (after.description !== before.description) updates.description = after.description;
+  if (after.start && after.start.getTime() !== before.start?.getTime()) updates.start = after.start;
+  if (!!after.allDay !== !!before.allDay) updates.allDay = !!after.allDay;
+  if (after.status === 'CANCELLED' && before.status !== 'CANCELLED') updates.status = 'CANCELLED';
+
+  // An end the client didn't send (or a DURATION it wrote in hours) leaves the end alone
+  const end = spanEnd(after);
+  if (end && end.getTime() !== spanEnd(before)?.getTime()) {
+    updates.end = end;
+    updates.duration = undefined;
+  }
+
+  return updates;
+}
+
+function spanEnd(span: Span): Date | undefined {
+  if (span.end) return span.end;
+  return span.start && span.duration ? new Date(span.start.getTime() + span.duration * 60000) : undefined;
+}
+
+function changeDetails(before: Span, after: Span, changes: string[]): Omit<ClawCalEventChange, 'uid' | 'agent' | 'project' | 'sequence' | 'source'> {
+  const moved = changes.some(field => field === 'start' || field === 'end' || field === 'allDay');
+  return {
+    title: after.title ?? before.title ?? '',
+    start: after.start!,
+    end: spanEnd(after),
+    ...(moved ? { previousStart: before.start, previousEnd: spanEnd(before) } : {}),
+    changes: changes.filter(field => field !== 'duration'),
+  };
+}
+
+function changeEventName(changes: string[]): string {
+  if (changes.includes('status')) return 'clawcal:event:cancelled';
+  if (changes.some(field => field === 'start' || field === 'end' || field === 'allDay')) return 'clawcal:event:moved';
+  return 'clawcal:event:updated';
+}
+
+/** If-Match against the resource's current ETag; If-None-Match: * fails because it exists. */
+function preconditionFailed(req: IncomingMessage, ics: string): boolean {
+  const ifMatch = req.headers['if-match'];
+  if (ifMatch && ifMatch.trim() !== '*' && !matchEtag(ifMatch, resourceEtag(ics))) return true;
+  return req.headers['if-none-match']?.trim() === '*';
+}
+
+function notAResource(res: ServerResponse): void {
+  res.statusCode = 405;
+  res.setHeader('Allow', 'OPTIONS, PROPFIND, REPORT');
+  res.end('Method not allowed');
+}
+
+// --- Responses ---
+
+function sortedEvents(calendar: CalendarManager): CalendarEvent[] {
+  return calendar.getAllEvents().sort((a, b) => a.start.getTime() - b.start.getTime() || a.uid.localeCompare(b.uid));
+}
+
+function href(path: string): string {
+  return `<D:href>${escapeXml(path)}</D:href>`;
+}
+
+function sendMultistatus(res: ServerResponse, responses: string[], token?: string): void {
+  res.statusCode = 207;
+  res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+  res.end([
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<D:multistatus xmlns:D="${DAV}" xmlns:C="${CALDAV}" xmlns:CS="${CALSERVER}">`,
+    ...responses,
+    ...(token ? [`<D:sync-token>${escapeXml(token)}</D:sync-token>`] : []),
+    '</D:multistatus>',
+    '',
+  ].join('\n'));
+}
+
+/** Precondition failure body (RFC 4918 §16). */
+function davError(res: ServerResponse, status: number, condition: string): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+  res.end(`<?xml version="1.0" encoding="utf-8"?>\n<D:error xmlns:D="${DAV}">${condition}</D:error>\n`);
+}
@@ -1,6 +1,16 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, mkdirSync, openSync, closeSync, fsyncSync, renameSync, copyFileSync, statSync } from 'fs';
 import { dirname } from 'path';
-import { CalendarEvent, EventAlert, EventStatus } from './types.js';
+import { randomBytes } from 'crypto';
+import { CalendarEvent, EventAlert, EventStatus, EventOccurrence, FreeBusyPeriod, OccurrenceOverride } from './types.js';
+import { expandEvent } from './rrule.js';
+import { icsToJCal, JCalComponent } from './jcal.js';
+import { isUTC, resolveTimeZone, isValidTimeZone, getZonedParts, zonedTimeToUtc, formatICSLocalDate, parseICSLocalDate, buildVTimezone } from './timezone.js';
+
+export interface CalendarOptions {
+  timezone?: string; // default IANA zone for events without their own (default UTC)
+  flushIntervalMs?: number; // coalesce writes within this window; 0 writes on every change (default)
+  initialEvents?: CalendarEvent[]; // seed from a canonical store; the .ics is then rendered, never parsed
+}
 
 /**
  * Manages the .ics file. Handles iCal formatting, UID management,
@@ -10,17 +20,43 @@ export class CalendarManager {
   private events: Map<string, CalendarEvent> = new Map();
   private filePath: string;
   private calendarName: string;
-
-  constructor(filePath: string, calendarName = 'OpenClaw Agent Activity') {
+  private timezone: string;
+  // Whether the file on disk is known to parse — only then is it kept as the backup
+  private fileIsGood = false;
+  private flushIntervalMs: number;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private dirty = false;
+  // Serialized VEVENTs (master + overrides) per UID, dropped when the event changes.
+  // DTSTAMP is left as a placeholder here and filled in by render().
+  private rendered: Map<string, string> = new Map();
+  // Bumped on every change; with the instance epoch it identifies the content (ETag).
+  // The epoch is random so managers created in the same millisecond never share tags.
+  private version = 0;
+  private readonly epoch = randomBytes(6).toString('hex');
+  private modifiedAt = new Date();
+  // Version in which each UID last changed or was removed — answers "what changed since" (sync tokens)
+  private changedIn: Map<string, number> = new Map();
+
+  constructor(filePath: string, calendarName = 'OpenClaw Agent Activity', options: CalendarOptions = {}) {
     this.filePath = filePath;
     this.calendarName = calendarName;
+    this.timezone = resolveTimeZone(options.timezone);
+    this.flushIntervalMs = Math.max(0, options.flushIntervalMs ?? 0);
     this.ensureDirectory();
-    this.loadExisting();
+
+    if (options.initialEvents) {
+      for (const event of options.initialEvents) {
+        this.events.set(event.uid, sanitizeEvent(event));
+      }
+      this.persist();
+    } else {
+      this.loadExisting();
+    }
   }
 
   addEvent(event: CalendarEvent): void {
-    this.events.set(event.uid, sanitizeEvent(event));
-    this.write();
+    this.events.set(event.uid, sanitizeEvent({ ...event, lastModified: event.lastModified ?? new Date() }));
+    this.changed(event.uid);
   }
 
   updateEvent(uid: string, updates: Partial<CalendarEvent>): void {
@@ -31,16 +67,82 @@ export class CalendarManager {
       ...existing,
       ...updates,
       sequence: (existing.sequence || 0) + 1,
+      lastModified: updates.lastModified ?? new Date(),
     }));
-    this.write();
+    this.changed(uid);
   }
 
   cancelEvent(uid: string): void {
     this.updateEvent(uid, { status: 'CANCELLED' });
   }
 
+  /**
+   * Create or update the override for one occurrence of a recurring event.
+   * The series itself (and its SEQUENCE) is left untouched; `at` becomes
+   * the event's last modification.
+   */
+  updateOccurrence(uid: string, recurrenceId: Date, updates: Partial<Omit<OccurrenceOverride, 'recurrenceId'>>, at = new Date()): void {
+    const existing = this.events.get(uid);
+    if (!existing) return;
+
+    const overrides = [...(existing.overrides || [])];
+    const idx = overrides.findIndex(o => o.recurrenceId.getTime() === recurrenceId.getTime());
+
+    const end = movedEnd(existing, idx === -1 ? undefined : overrides[idx], updates);
+    if (idx === -1) {
+      overrides.push({ ...updates, ...(end ? { end } : {}), recurrenceId, sequence: existing.sequence || 0 });
+      overrides.sort((a, b) => a.recurrenceId.getTime() - b.recurrenceId.getTime());
+    } else {
+      overrides[idx] = {
+        ...overrides[idx],
+        ...updates,
+        ...(end ? { end } : {}),
+        recurrenceId,
+        sequence: (overrides[idx].sequence || 0) + 1,
+      };
+    }
+
+    this.events.set(uid, sanitizeEvent({ ...existing, overrides, lastModified: at }));
+    this.changed(uid);
+  }
+
+  /**
+   * Remove one occurrence from a recurring event (EXDATE). Any override
+   * recorded for that occurrence goes with it.
+   */
+  cancelOccurrence(uid: string, recurrenceId: Date, at = new Date()): void {
+    const existing = this.events.get(uid);
+    if (!existing) return;
+
+    const time = recurrenceId.getTime();
+    const exdate = (existing.exdate || []).filter(d => d.getTime() !== time);
+    exdate.push(recurrenceId);
+    exdate.sort((a, b) => a.getTime() - b.getTime());
+
+    this.updateEvent(uid, {
+      exdate,
+      overrides: existing.overrides?.filter(o => o.recurrenceId.getTime() !== time),
+      lastModified: at,
+    });
+  }
+
   removeEvent(uid: string): void {
     this.events.delete(uid);
+    this.changed(uid);
+  }
+
+  /**
+   * Write pending changes now (e.g. on shutdown) instead of waiting for the
+   * flush interval.
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.dirty) return;
+
+    this.dirty = false;
     this.write();
   }
 
@@ -48,21 +150,113 @@ export class CalendarManager {
     return this.events.get(uid);
   }
 
+  /** Display name (X-WR-CALNAME). */
+  getName(): string {
+    return this.calendarName;
+  }
+
+  /**
+   * Opaque tag that changes whenever the feed content does — used as the
+   * HTTP ETag. Restarting yields a new tag, costing one full download.
+   */
+  getVersionTag(): string {
+    return `${this.epoch}-${this.version}`;
+  }
+
+  /**
+   * When the feed content last changed (the file's mtime when loaded from disk).
+   */
+  getLastModified(): Date {
+    return this.modifiedAt;
+  }
+
   getAllEvents(): CalendarEvent[] {
     return Array.from(this.events.values());
   }
 
+  /**
+   * Concrete occurrences overlapping [from, to), with recurring events
+   * expanded (RRULE, RDATE, EXDATE, overridden occurrences). Sorted by start.
+   */
+  getOccurrences(from: Date, to: Date): EventOccurrence[] {
+    const occurrences: EventOccurrence[] = [];
+    for (const event of this.events.values()) {
+      occurrences.push(...expandEvent(event, from, to, this.timezone));
+    }
+    return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Busy time within [from, to): occurrences (recurrences expanded) merged
+   * into periods. Cancelled and transparent events are free; planned ones
+   * are only tentatively busy, and lose to confirmed busy time where they overlap.
+   */
+  getFreeBusy(from: Date, to: Date): FreeBusyPeriod[] {
+    const busy: Array<[number, number]> = [];
+    const tentative: Array<[number, number]> = [];
+
+    for (const occurrence of this.getOccurrences(from, to)) {
+      if (occurrence.status === 'CANCELLED' || occurrence.transparency === 'TRANSPARENT') continue;
+      const start = Math.max(occurrence.start.getTime(), from.getTime());
+      const end = Math.min(occurrence.end.getTime(), to.getTime());
+      if (end <= start) continue;
+      (mapStatus(occurrence.status || 'PLANNED') === 'TENTATIVE' ? tentative : busy).push([start, end]);
+    }
+
+    const mergedBusy = mergeIntervals(busy);
+    const periods: FreeBusyPeriod[] = [
+      ...mergedBusy.map(([start, end]) => ({ start: new Date(start), end: new Date(end), type: 'BUSY' as const })),
+      ...subtractIntervals(mergeIntervals(tentative), mergedBusy)
+        .map(([start, end]) => ({ start: new Date(start), end: new Date(end), type: 'BUSY-TENTATIVE' as const })),
+    ];
+    return periods.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * A VFREEBUSY calendar (RFC 5545 §3.6.4) for [from, to), one FREEBUSY
+   * property per period.
+   */
+  toFreeBusy(from: Date, to: Date): string {
+    const lines: string[] = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//ClawCal//OpenClaw//EN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.calendarName}`,
+      'BEGIN:VFREEBUSY',
+      `UID:freebusy-${formatICSDate(from)}-${formatICSDate(to)}@clawcal`,
+      `DTSTAMP:${formatICSDate(new Date())}`,
+      `DTSTART:${formatICSDate(from)}`,
+      `DTEND:${formatICSDate(to)}`,
+    ];
+
+    for (const period of this.getFreeBusy(from, to)) {
+      lines.push(`FREEBUSY;FBTYPE=${period.type}:${formatICSDate(period.start)}/${formatICSDate(period.end)}`);
+    }
+
+    lines.push('END:VFREEBUSY', 'END:VCALENDAR');
+    return lines.join('\r\n') + '\r\n';
+  }
+
   /**
    * Remove events older than retentionDays, keeping at most maxEvents.
+   * Occurrence overrides (e.g. cron run history) past retention are pruned too.
    */
   cleanup(retentionDays: number, maxEvents: number): number {
     const cutoff = new Date(Date.now() - retentionDays * 86400000);
     let removed = 0;
+    const touched: string[] = [];
 
     for (const [uid, event] of this.events) {
       if (event.start < cutoff && event.status === 'COMPLETED') {
         this.events.delete(uid);
+        this.rendered.delete(uid);
+        touched.push(uid);
         removed++;
+      } else if (event.overrides?.some(o => o.recurrenceId < cutoff)) {
+        event.overrides = event.overrides.filter(o => o.recurrenceId >= cutoff);
+        this.rendered.delete(uid);
+        touched.push(uid);
       }
     }
 
@@ -75,18 +269,69 @@ export class CalendarManager {
       const toRemove = this.events.size - maxEvents;
       for (let i = 0; i < Math.min(toRemove, completed.length); i++) {
         this.events.delete(completed[i][0]);
+        this.rendered.delete(completed[i][0]);
+        touched.push(completed[i][0]);
         removed++;
       }
     }
 
-    if (removed > 0) this.write();
+    if (touched.length > 0) {
+      this.persist();
+      for (const uid of touched) this.changedIn.set(uid, this.version);
+    }
     return removed;
   }
 
   /**
-   * Generate the full .ics file content.
+   * Generate the full .ics file content, or only the events passing
+   * `include` (e.g. a query-string filter).
+   */
+  toICS(include?: (event: CalendarEvent) => boolean): string {
+    const events = include
+      ? Array.from(this.events.values()).filter(include)
+      : Array.from(this.events.values());
+    return this.render(events);
+  }
+
+  /**
+   * One event (with its overridden occurrences) as a standalone calendar
+   * object, e.g. a CalDAV resource. Undefined for unknown UIDs.
+   */
+  getEventICS(uid: string): string | undefined {
+    const event = this.events.get(uid);
+    return event ? this.render([event]) : undefined;
+  }
+
+  /**
+   * Parse a calendar object holding one event and its overridden
+   * occurrences (e.g. a CalDAV PUT body), reading DATE values in this
+   * calendar's zone. Null unless it holds exactly one event.
    */
-  toICS(): string {
+  parseEventICS(ics: string): CalendarEvent | null {
+    const events = this.parseCalendar(ics.trimStart());
+    if (!events || events.size !== 1) return null;
+    return events.values().next().value!;
+  }
+
+  /**
+   * UIDs changed and removed since the version tag `since` (see
+   * getVersionTag). Null when the tag comes from another instance — e.g.
+   * before a restart — and the caller has to start over.
+   */
+  getChangesSince(since: string): { changed: string[]; removed: string[] } | null {
+    const [epoch, version] = since.split('-');
+    if (epoch !== this.epoch || !/^\d+$/.test(version ?? '') || Number(version) > this.version) return null;
+
+    const changed: string[] = [];
+    const removed: string[] = [];
+    for (const [uid, changedIn] of this.changedIn) {
+      if (changedIn <= Number(version)) continue;
+      (this.events.has(uid) ? changed : removed).push(uid);
+    }
+    return { changed, removed };
+  }
+
+  private render(events: CalendarEvent[]): string {
     const lines: string[] = [
       'BEGIN:VCALENDAR',
       'VERSION:2.0',
@@ -94,11 +339,26 @@ export class CalendarManager {
       'CALSCALE:GREGORIAN',
       'METHOD:PUBLISH',
       `X-WR-CALNAME:${this.calendarName}`,
-      'X-WR-TIMEZONE:UTC',
+      `X-WR-TIMEZONE:${this.timezone}`,
     ];
 
-    for (const event of this.events.values()) {
-      lines.push(...this.eventToVEvent(event));
+    lines.push(...this.timezoneComponents(events));
+
+    // DTSTAMP is when this version of the feed was created (RFC 5545 §3.8.7.2
+    // with METHOD:PUBLISH) — the Last-Modified time, not the time of the
+    // request, so one ETag always stands for the same bytes
+    const stamp = formatICSDate(this.modifiedAt);
+    for (const event of events) {
+      let rendered = this.rendered.get(event.uid);
+      if (rendered === undefined) {
+        const eventLines = this.eventToVEvent(event);
+        for (const override of event.overrides || []) {
+          eventLines.push(...this.overrideToVEvent(event, override));
+        }
+        rendered = eventLines.join('\r\n');
+        this.rendered.set(event.uid, rendered);
+      }
+      lines.push(rendered.replaceAll(DTSTAMP_PLACEHOLDER, stamp));
     }
 
     lines.push('END:VCALENDAR');
@@ -107,27 +367,49 @@ export class CalendarManager {
     return lines.join('\r\n') + '\r\n';
   }
 
+  /**
+   * The same calendar as jCal (RFC 7265), for web clients that want JSON.
+   */
+  toJCal(include?: (event: CalendarEvent) => boolean): JCalComponent {
+    return icsToJCal(this.toICS(include));
+  }
+
+  /**
+   * One VTIMEZONE per non-UTC zone referenced by a timed event, so every
+   * TZID parameter in the file resolves.
+   */
+  private timezoneComponents(events: CalendarEvent[]): string[] {
+    const years: Map<string, number> = new Map();
+
+    for (const event of events) {
+      const tz = this.zoneFor(event);
+      if (isUTC(tz)) continue;
+      const year = event.start.getUTCFullYear();
+      const known = years.get(tz);
+      if (known === undefined || year < known) years.set(tz, year);
+    }
+
+    const lines: string[] = [];
+    for (const [tz, year] of years) {
+      lines.push(...buildVTimezone(tz, year));
+    }
+    return lines;
+  }
+
+  private zoneFor(event: CalendarEvent): string {
+    return event.timezone || this.timezone;
+  }
+
   private eventToVEvent(event: CalendarEvent): string[] {
     const lines: string[] = ['BEGIN:VEVENT'];
+    const tz = this.zoneFor(event);
 
     lines.push(`UID:${event.uid}@clawcal`);
-    lines.push(`DTSTAMP:${formatICSDate(new Date())}`);
+    lines.push(`DTSTAMP:${DTSTAMP_PLACEHOLDER}`);
+    lines.push(...timeLines(event, tz));
 
-    if (event.allDay) {
-      lines.push(`DTSTART;VALUE=DATE:${formatICSDateOnly(event.start)}`);
-      if (event.end) {
-        lines.push(`DTEND;VALUE=DATE:${formatICSDateOnly(event.end)}`);
-      }
-    } else {
-      lines.push(`DTSTART:${formatICSDate(event.start)}`);
-      if (event.end) {
-        lines.push(`DTEND:${formatICSDate(event.end)}`);
-      } else if (event.duration) {
-        lines.push(`DURATION:PT${event.duration}M`);
-      } else {
-        // Default to 15 minutes
-        lines.push(`DTEND:${formatICSDate(new Date(event.start.getTime() + 15 * 60000))}`);
-      }
+    if (event.lastModified) {
+      lines.push(`LAST-MODIFIED:${formatICSDate(event.lastModified)}`);
     }
 
     lines.push(`SUMMARY:${foldLine('SUMMARY:',escapeICS(event.title))}`);
@@ -152,6 +434,14 @@ export class CalendarManager {
       lines.push(`RRULE:${event.rrule}`);
     }
 
+    if (event.rdate && event.rdate.length > 0) {
+      lines.push(...formatDateListProperty('RDATE', event.rdate, event.allDay ? undefined : tz, event.allDay ? tz : undefined));
+    }
+
+    if (event.exdate && event.exdate.length > 0) {
+      lines.push(...formatDateListProperty('EXDATE', event.exdate, event.allDay ? undefined : tz, event.allDay ? tz : undefined));
+    }
+
     if (event.agent) {
       lines.push(`X-OPENCLAW-AGENT:${escapeICS(event.agent)}`);
     }
@@ -164,6 +454,10 @@ export class CalendarManager {
       lines.push(`URL:${event.url}`);
     }
 
+    if (event.transparency) {
+      lines.push(`TRANSP:${event.transparency}`);
+    }
+
     // Source ID for debugging — visible in raw .ics even if calendar apps ignore it
     lines.push(`X-CLAWCAL-SOURCE-ID:${event.uid}`);
 
@@ -181,9 +475,117 @@ export class CalendarManager {
     return lines;
   }
 
+  /**
+   * Render an overridden occurrence as its own VEVENT sharing the series UID.
+   * Unset override fields fall back to the master event.
+   */
+  private overrideToVEvent(event: CalendarEvent, override: OccurrenceOverride): string[] {
+    const tz = this.zoneFor(event);
+    const lines: string[] = ['BEGIN:VEVENT'];
+
+    lines.push(`UID:${event.uid}@clawcal`);
+    lines.push(`DTSTAMP:${DTSTAMP_PLACEHOLDER}`);
+    lines.push(event.allDay
+      ? `RECURRENCE-ID;VALUE=DATE:${formatICSDateOnly(override.recurrenceId, tz)}`
+      : formatDateProperty('RECURRENCE-ID', override.recurrenceId, tz));
+    lines.push(...timeLines({
+      allDay: event.allDay,
+      start: override.start ?? override.recurrenceId,
+      end: override.end,
+      duration: override.end ? undefined : (override.duration ?? event.duration),
+    }, tz));
+
+    const title = override.title ?? event.title;
+    lines.push(`SUMMARY:${foldLine('SUMMARY:', escapeICS(title))}`);
+
+    const description = override.description ?? event.description;
+    if (description) {
+      lines.push(`DESCRIPTION:${foldLine('DESCRIPTION:', escapeICS(description))}`);
+    }
+
+    if (event.category) {
+      lines.push(`CATEGORIES:${escapeICS(event.category)}`);
+    }
+
+    const status = override.status ?? event.status;
+    if (status) {
+      lines.push(`STATUS:${mapStatus(status)}`);
+    }
+
+    if (override.sequence != null) {
+      lines.push(`SEQUENCE:${override.sequence}`);
+    }
+
+    if (event.agent) {
+      lines.push(`X-OPENCLAW-AGENT:${escapeICS(event.agent)}`);
+    }
+
+    if (event.project) {
+      lines.push(`X-OPENCLAW-PROJECT:${escapeICS(event.project)}`);
+    }
+
+    lines.push(`X-CLAWCAL-SOURCE-ID:${event.uid}`);
+    lines.push('END:VEVENT');
+    return lines;
+  }
+
+  /**
+   * Record a change to one event: drop its cached VEVENT and persist.
+   */
+  private changed(uid: string): void {
+    this.rendered.delete(uid);
+    this.persist();
+    this.changedIn.set(uid, this.version);
+  }
+
+  /**
+   * Write immediately, or — with a flush interval — mark dirty and write once
+   * when the interval elapses, so a burst of changes costs a single write.
+   */
+  private persist(): void {
+    this.version++;
+    this.modifiedAt = new Date();
+
+    if (this.flushIntervalMs === 0) {
+      this.write();
+      return;
+    }
+
+    this.dirty = true;
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.flushIntervalMs);
+      // Don't hold the process open; shutdown calls flush() explicitly
+      this.flushTimer.unref?.();
+    }
+  }
+
+  /**
+   * Write to a temp file, fsync, then rename over the live file so readers
+   * never see a partial feed. The previous good file is kept as `.bak`.
+   */
   private write(): void {
     const ics = this.toICS();
-    writeFileSync(this.filePath, ics, 'utf-8');
+    const tempPath = `${this.filePath}.tmp`;
+
+    const fd = openSync(tempPath, 'w');
+    try {
+      writeFileSync(fd, ics, 'utf-8');
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+
+    if (this.fileIsGood && existsSync(this.filePath)) {
+      copyFileSync(this.filePath, this.backupPath());
+    }
+
+    renameSync(tempPath, this.filePath);
+    fsyncDirectory(dirname(this.filePath));
+    this.fileIsGood = true;
+  }
+
+  private backupPath(): string {
+    return `${this.filePath}.bak`;
   }
 
   private ensureDirectory(): void {
@@ -194,36 +596,87 @@ export class CalendarManager {
   }
 
   /**
-   * Parse an existing .ics file to restore state across restarts.
-   * Simple line-by-line parser — no external ical library needed.
+   * Restore state across restarts. If the file doesn't parse (e.g. truncated
+   * by a crash mid-write), fall back to the `.bak` of the last good version;
+   * an unrecoverable file is moved aside rather than overwritten.
    */
   private loadExisting(): void {
     if (!existsSync(this.filePath)) return;
 
-    let content: string;
+    const events = this.readCalendarFile(this.filePath);
+    if (events) {
+      this.events = events;
+      this.fileIsGood = true;
+      this.modifiedAt = statSync(this.filePath).mtime;
+      return;
+    }
+
+    const backup = existsSync(this.backupPath()) ? this.readCalendarFile(this.backupPath()) : null;
+    if (backup) {
+      console.warn(`[clawcal] ${this.filePath} is unreadable, restored ${backup.size} events from backup`);
+      this.events = backup;
+      this.write();
+      return;
+    }
+
+    const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+    console.warn(`[clawcal] ${this.filePath} is unreadable and has no backup, moved to ${corruptPath}`);
+    renameSync(this.filePath, corruptPath);
+  }
+
+  private readCalendarFile(path: string): Map<string, CalendarEvent> | null {
     try {
-      content = readFileSync(this.filePath, 'utf-8');
+      return this.parseCalendar(readFileSync(path, 'utf-8'));
     } catch {
-      return;
+      return null;
     }
+  }
 
+  /**
+   * Parse .ics content into events. Returns null when the content isn't a
+   * complete VCALENDAR — a truncated file would otherwise silently lose
+   * every event after the cut.
+   * Simple line-by-line parser — no external ical library needed.
+   */
+  private parseCalendar(raw: string): Map<string, CalendarEvent> | null {
     // Unfold continuation lines (lines starting with space or tab)
-    content = content.replace(/\r\n[ \t]/g, '');
+    const content = raw.replace(/\r\n[ \t]/g, '');
 
     const lines = content.split(/\r?\n/);
+    if (lines[0] !== 'BEGIN:VCALENDAR' || !lines.includes('END:VCALENDAR')) return null;
+
+    const events: Map<string, CalendarEvent> = new Map();
     let current: Partial<CalendarEvent> | null = null;
+    let recurrenceId: Date | null = null;
     let inAlarm = false;
     let currentAlert: Partial<EventAlert> | null = null;
+    // Overridden occurrences may appear before their master VEVENT
+    const pendingOverrides: Map<string, OccurrenceOverride[]> = new Map();
 
     for (const line of lines) {
       if (line === 'BEGIN:VEVENT') {
+        if (current) return null; // previous VEVENT never ended
         current = {};
+        recurrenceId = null;
         continue;
       }
 
       if (line === 'END:VEVENT' && current) {
-        if (current.uid && current.start) {
-          this.events.set(current.uid, current as CalendarEvent);
+        if (current.uid && recurrenceId) {
+          const list = pendingOverrides.get(current.uid) || [];
+          list.push({
+            recurrenceId,
+            start: current.start,
+            end: current.end,
+            duration: current.duration,
+            title: current.title,
+            description: current.description,
+            status: current.status,
+            sequence: current.sequence,
+          });
+          pendingOverrides.set(current.uid, list);
+        } else if (current.uid && current.start) {
+          events.set(current.uid, current as CalendarEvent);
         }
         current = null;
         continue;
@@ -247,11 +700,10 @@ export class CalendarManager {
         continue;
       }
 
-      const colonIdx = line.indexOf(':');
-      if (colonIdx === -1) continue;
+      const parsed = splitContentLine(line);
+      if (!parsed) continue;
 
-      const key = line.substring(0, colonIdx);
-      const value = line.substring(colonIdx + 1);
+      const { key, params, value } = parsed;
 
       if (inAlarm && currentAlert) {
         switch (key) {
@@ -278,17 +730,18 @@ export class CalendarManager {
           current.description = unescapeICS(value);
           break;
         case 'DTSTART':
-          current.start = parseICSDate(value);
-          break;
-        case 'DTSTART;VALUE=DATE':
-          current.start = parseICSDateOnly(value);
-          current.allDay = true;
+          if (params.VALUE === 'DATE') {
+            current.start = parseICSDateOnly(value, this.timezone);
+            current.allDay = true;
+          } else {
+            current.start = this.parseDateValue(value, params);
+            if (params.TZID && isValidTimeZone(params.TZID)) current.timezone = params.TZID;
+          }
           break;
         case 'DTEND':
-          current.end = parseICSDate(value);
-          break;
-        case 'DTEND;VALUE=DATE':
-          current.end = parseICSDateOnly(value);
+          current.end = params.VALUE === 'DATE'
+            ? parseICSDateOnly(value, this.timezone)
+            : this.parseDateValue(value, params);
           break;
         case 'DURATION': {
           const match = value.match(/PT(\d+)M/);
@@ -304,9 +757,23 @@ export class CalendarManager {
         case 'SEQUENCE':
           current.sequence = parseInt(value, 10);
           break;
+        case 'LAST-MODIFIED':
+          current.lastModified = parseICSDate(value);
+          break;
         case 'RRULE':
           current.rrule = value;
           break;
+        case 'RDATE':
+          current.rdate = [...(current.rdate || []), ...this.parseDateList(value, params)];
+          break;
+        case 'EXDATE':
+          current.exdate = [...(current.exdate || []), ...this.parseDateList(value, params)];
+          break;
+        case 'RECURRENCE-ID':
+          recurrenceId = params.VALUE === 'DATE'
+            ? parseICSDateOnly(value, this.timezone)
+            : this.parseDateValue(value, params);
+          break;
         case 'X-OPENCLAW-AGENT':
           current.agent = unescapeICS(value);
           break;
@@ -316,11 +783,162 @@ export class CalendarManager {
         case 'URL':
           current.url = value;
           break;
+        case 'TRANSP':
+          if (value === 'OPAQUE' || value === 'TRANSPARENT') current.transparency = value;
+          break;
+      }
+    }
+
+    if (current) return null;
+
+    for (const [uid, overrides] of pendingOverrides) {
+      const master = events.get(uid);
+      if (master) {
+        master.overrides = overrides.sort((a, b) => a.recurrenceId.getTime() - b.recurrenceId.getTime());
       }
     }
+
+    return events;
+  }
+
+  private parseDateList(value: string, params: Record<string, string>): Date[] {
+    return value.split(',').map(v => params.VALUE === 'DATE'
+      ? parseICSDateOnly(v, this.timezone)
+      : this.parseDateValue(v, params));
+  }
+
+  private parseDateValue(value: string, params: Record<string, string>): Date {
+    if (params.TZID && isValidTimeZone(params.TZID)) {
+      return parseICSLocalDate(value, params.TZID);
+    }
+    return parseICSDate(value);
+  }
+}
+
+/**
+ * Split an unfolded content line into name, parameters and value.
+ * `DTSTART;TZID=America/New_York:20250225T090000` →
+ *   { key: 'DTSTART', params: { TZID: 'America/New_York' }, value: '20250225T090000' }
+ */
+export function splitContentLine(line: string): { key: string; params: Record<string, string>; value: string } | null {
+  let inQuotes = false;
+  let colonIdx = -1;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === ':' && !inQuotes) {
+      colonIdx = i;
+      break;
+    }
+  }
+  if (colonIdx === -1) return null;
+
+  const [key, ...rawParams] = line.substring(0, colonIdx).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq === -1) continue;
+    params[param.substring(0, eq).toUpperCase()] = param.substring(eq + 1).replace(/^"|"$/g, '');
+  }
+
+  return { key, params, value: line.substring(colonIdx + 1) };
+}
+
+/**
+ * Flush a rename to disk. Best effort — not every platform can open a directory.
+ */
+function fsyncDirectory(dir: string): void {
+  let fd: number | undefined;
+  try {
+    fd = openSync(dir, 'r');
+    fsyncSync(fd);
+  } catch {
+    // ignore
+  } finally {
+    if (fd !== undefined) closeSync(fd);
+  }
+}
+
+/**
+ * DTSTART plus DTEND or DURATION for a timed or all-day span.
+ * Timed events without an end or duration default to 15 minutes.
+ */
+function timeLines(span: Pick<CalendarEvent, 'allDay' | 'start' | 'end' | 'duration'>, tz: string): string[] {
+  if (span.allDay) {
+    const lines = [`DTSTART;VALUE=DATE:${formatICSDateOnly(span.start, tz)}`];
+    if (span.end) {
+      lines.push(`DTEND;VALUE=DATE:${formatICSDateOnly(span.end, tz)}`);
+    }
+    return lines;
+  }
+
+  const lines = [formatDateProperty('DTSTART', span.start, tz)];
+  if (span.end) {
+    lines.push(formatDateProperty('DTEND', span.end, tz));
+  } else if (span.duration) {
+    lines.push(`DURATION:PT${span.duration}M`);
+  } else {
+    // Default to 15 minutes
+    lines.push(formatDateProperty('DTEND', new Date(span.start.getTime() + 15 * 60000), tz));
   }
+  return lines;
 }
 
+/**
+ * End of an occurrence moved to a new start without a new length: it keeps
+ * the length it had, from an earlier override or the master's DTEND.
+ * Undefined when there's nothing to shift (a DURATION carries over as is).
+ */
+function movedEnd(
+  master: CalendarEvent,
+  previous: OccurrenceOverride | undefined,
+  updates: Partial<Omit<OccurrenceOverride, 'recurrenceId'>>,
+): Date | undefined {
+  if (!updates.start || updates.end || updates.duration) return undefined;
+
+  const current = previous && (previous.end || previous.duration)
+    ? { start: previous.start ?? previous.recurrenceId, end: previous.end }
+    : master;
+  if (!current.end) return undefined;
+  return new Date(updates.start.getTime() + current.end.getTime() - current.start.getTime());
+}
+
+/**
+ * Render a comma-separated date list (RDATE/EXDATE). DATE values when
+ * dateZone is given, otherwise DATE-TIMEs in the given zone. Long lists are
+ * split across several properties to keep lines short.
+ */
+export function formatDateListProperty(name: string, dates: Date[], timeZone?: string, dateZone?: string): string[] {
+  const lines: string[] = [];
+  const chunkSize = 4;
+
+  for (let i = 0; i < dates.length; i += chunkSize) {
+    const chunk = dates.slice(i, i + chunkSize);
+    if (dateZone !== undefined) {
+      lines.push(`${name};VALUE=DATE:${chunk.map(d => formatICSDateOnly(d, dateZone)).join(',')}`);
+    } else if (isUTC(timeZone)) {
+      lines.push(`${name}:${chunk.map(d => formatICSDate(d)).join(',')}`);
+    } else {
+      lines.push(`${name};TZID=${timeZone}:${chunk.map(d => formatICSLocalDate(d, timeZone!)).join(',')}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Render a DATE-TIME property: plain UTC for UTC, otherwise a TZID-qualified local time.
+ */
+export function formatDateProperty(name: string, date: Date, timeZone?: string): string {
+  if (isUTC(timeZone)) {
+    return `${name}:${formatICSDate(date)}`;
+  }
+  return `${name};TZID=${timeZone}:${formatICSLocalDate(date, timeZone!)}`;
+}
+
+// Stands in for the DTSTAMP value in cached VEVENTs; sanitizeEvent strips NUL from every field
+const DTSTAMP_PLACEHOLDER = '\0dtstamp\0';
+
 // --- Input sanitization ---
 
 /**
@@ -356,6 +974,12 @@ function sanitizeEvent(event: CalendarEvent): CalendarEvent {
     project: event.project ? stripControl(event.project) : undefined,
     category: event.category ? stripControl(event.category) : undefined,
     url: event.url ? stripControl(event.url) : undefined,
+    timezone: event.timezone && isValidTimeZone(stripControl(event.timezone)) ? stripControl(event.timezone) : undefined,
+    overrides: event.overrides?.map(o => ({
+      ...o,
+      title: o.title ? stripControl(o.title) : undefined,
+      description: o.description ? sanitizeContent(o.description) : undefined,
+    })),
   };
 }
 
@@ -366,8 +990,12 @@ export function formatICSDate(date: Date): string {
   // → 20250225T090000Z
 }
 
-export function formatICSDateOnly(date: Date): string {
-  return date.toISOString().slice(0, 10).replace(/-/g, '');
+export function formatICSDateOnly(date: Date, timeZone?: string): string {
+  if (isUTC(timeZone)) {
+    return date.toISOString().slice(0, 10).replace(/-/g, '');
+  }
+  const p = getZonedParts(date, timeZone!);
+  return `${p.year}${String(p.month).padStart(2, '0')}${String(p.day).padStart(2, '0')}`;
   // → 20250225
 }
 
@@ -381,10 +1009,14 @@ export function parseICSDate(str: string): Date {
   ));
 }
 
-export function parseICSDateOnly(str: string): Date {
+/**
+ * Parse a DATE value to midnight in the given zone, so it renders back
+ * as the same calendar day.
+ */
+export function parseICSDateOnly(str: string, timeZone?: string): Date {
   const match = str.match(/^(\d{4})(\d{2})(\d{2})$/);
   if (!match) return new Date(str);
-  return new Date(Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])));
+  return zonedTimeToUtc(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]), 0, 0, 0, timeZone || 'UTC');
 }
 
 export function escapeICS(text: string): string {
@@ -458,6 +1090,39 @@ function mapStatus(status: EventStatus): string {
   }
 }
 
+/**
+ * Sort and merge overlapping or touching [start, end) intervals.
+ */
+function mergeIntervals(intervals: Array<[number, number]>): Array<[number, number]> {
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of [...intervals].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * The parts of sorted, merged `intervals` not covered by sorted, merged `cover`.
+ */
+function subtractIntervals(intervals: Array<[number, number]>, cover: Array<[number, number]>): Array<[number, number]> {
+  const result: Array<[number, number]> = [];
+  for (const [start, end] of intervals) {
+    let cursor = start;
+    for (const [coverStart, coverEnd] of cover) {
+      if (coverEnd <= cursor || coverStart >= end) continue;
+      if (coverStart > cursor) result.push([cursor, coverStart]);
+      cursor = Math.max(cursor, coverEnd);
+    }
+    if (cursor < end) result.push([cursor, end]);
+  }
+  return result;
+}
+
 function reverseMapStatus(icsStatus: string): EventStatus {
   switch (icsStatus) {
     case 'CONFIRMED': return 'COMPLETED';
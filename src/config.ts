@@ -1,4 +1,10 @@
-import { CalendarConfig } from './types.js';
+import { CalendarConfig, CronAutomationsConfig, EventTypeConfig } from './types.js';
+
+const DEFAULT_CRON_AUTOMATIONS: CronAutomationsConfig = {
+  enabled: true,
+  high_frequency: 'all_day',
+  working_hours: { start: 9, end: 17 },
+};
 
 function isPlainObject(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -27,3 +33,14 @@ export function deepMerge<T>(base: T, overrides: Partial<T>): T {
 export function mergeConfig(base: CalendarConfig, overrides: Partial<CalendarConfig>): CalendarConfig {
   return deepMerge(base, overrides);
 }
+
+/**
+ * `events.cron_automations` accepts a plain on/off boolean or an object
+ * with representation options. Normalize either form to the full object.
+ */
+export function resolveCronAutomations(value: EventTypeConfig['cron_automations']): CronAutomationsConfig {
+  if (typeof value === 'boolean') {
+    return { ...DEFAULT_CRON_AUTOMATIONS, enabled: value };
+  }
+  return deepMerge(DEFAULT_CRON_AUTOMATIONS, value || {});
+}
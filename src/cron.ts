@@ -0,0 +1,330 @@
+import { getZonedParts, zonedTimeToUtc } from './timezone.js';
+
+/**
+ * Parsed five-field cron expression. Each list is sorted and deduplicated.
+ */
+export interface CronFields {
+  minutes: number[];      // 0-59
+  hours: number[];        // 0-23
+  daysOfMonth: number[];  // 1-31
+  months: number[];       // 1-12
+  daysOfWeek: number[];   // 0-6, 0 = Sunday
+  domRestricted: boolean; // day-of-month field narrows the schedule
+  dowRestricted: boolean; // day-of-week field narrows the schedule
+  matchAnyDay: boolean;   // both day fields given explicitly — cron matches either
+}
+
+/**
+ * First run plus the recurrence that produces the remaining runs.
+ * Exactly one of rrule/rdate is set for recurring schedules.
+ */
+export interface CronSchedule {
+  start: Date;
+  rrule?: string;
+  rdate?: Date[];
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6,
+  JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12,
+};
+
+const DAY_NAMES: Record<string, number> = {
+  SUN: 0, MON: 1, TUE: 2, WED: 3, THU: 4, FRI: 5, SAT: 6,
+};
+
+const BYDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// How far ahead to search for the next run (covers Feb 29 schedules)
+const SEARCH_DAYS = 366 * 8;
+
+// Default number of explicit dates emitted when RRULE can't express a schedule
+const DEFAULT_RDATE_COUNT = 60;
+
+// Sub-hourly schedules with more runs per day than this are summarized
+const MAX_INDIVIDUAL_SUBHOURLY_RUNS = 8;
+
+/**
+ * Parse a cron expression (five fields or an @macro).
+ * Returns null for anything malformed or unsupported (e.g. @reboot).
+ */
+export function parseCron(expr: string): CronFields | null {
+  let source = expr.trim();
+  if (source.startsWith('@')) {
+    source = MACROS[source.toLowerCase()];
+    if (!source) return null;
+  }
+
+  const parts = source.split(/\s+/);
+  if (parts.length !== 5) return null;
+
+  const [minute, hour, dom, month, dow] = parts;
+
+  const minutes = parseField(minute, 0, 59);
+  const hours = parseField(hour, 0, 23);
+  const daysOfMonth = parseField(dom, 1, 31);
+  const months = parseField(month, 1, 12, MONTH_NAMES);
+  const rawDays = parseField(dow, 0, 7, DAY_NAMES);
+  if (!minutes || !hours || !daysOfMonth || !months || !rawDays) return null;
+
+  // 7 is an alias for Sunday
+  const daysOfWeek = uniqueSorted(rawDays.map(d => d % 7));
+
+  let domRestricted = daysOfMonth.length < 31;
+  let dowRestricted = daysOfWeek.length < 7;
+  const matchAnyDay = isExplicit(dom) && isExplicit(dow);
+
+  // Either/or with an all-days field matches every day
+  if (matchAnyDay && (!domRestricted || !dowRestricted)) {
+    domRestricted = false;
+    dowRestricted = false;
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted,
+    dowRestricted,
+    matchAnyDay,
+  };
+}
+
+/**
+ * Runs several times an hour, many times a day — too dense to show as
+ * individual calendar entries.
+ */
+export function isHighFrequency(fields: CronFields): boolean {
+  return fields.minutes.length > 1
+    && fields.minutes.length * fields.hours.length > MAX_INDIVIDUAL_SUBHOURLY_RUNS;
+}
+
+/**
+ * Translate parsed cron fields to an RRULE (without DTSTART).
+ * Returns an empty string when RRULE cannot express the schedule:
+ * high-frequency runs, or day-of-month and day-of-week both set (cron
+ * matches either, RRULE would require both).
+ */
+export function cronFieldsToRRule(fields: CronFields): string {
+  if (isHighFrequency(fields)) return '';
+  if (fields.matchAnyDay && fields.domRestricted && fields.dowRestricted) return '';
+
+  const monthRestricted = fields.months.length < 12;
+  const parts: string[] = [];
+
+  if (fields.hours.length === 24) {
+    parts.push('FREQ=HOURLY');
+    if (monthRestricted) parts.push(`BYMONTH=${fields.months.join(',')}`);
+    if (fields.domRestricted) parts.push(`BYMONTHDAY=${fields.daysOfMonth.join(',')}`);
+    if (fields.dowRestricted) parts.push(`BYDAY=${byDay(fields.daysOfWeek)}`);
+    return parts.join(';');
+  }
+
+  if (fields.domRestricted) {
+    parts.push(monthRestricted ? 'FREQ=YEARLY' : 'FREQ=MONTHLY');
+    if (monthRestricted) parts.push(`BYMONTH=${fields.months.join(',')}`);
+    parts.push(`BYMONTHDAY=${fields.daysOfMonth.join(',')}`);
+    // BYDAY alongside BYMONTHDAY narrows the set, matching cron's `*/2 ... 1` semantics
+    if (fields.dowRestricted) parts.push(`BYDAY=${byDay(fields.daysOfWeek)}`);
+  } else if (fields.dowRestricted) {
+    parts.push('FREQ=WEEKLY');
+    if (monthRestricted) parts.push(`BYMONTH=${fields.months.join(',')}`);
+    parts.push(`BYDAY=${byDay(fields.daysOfWeek)}`);
+  } else {
+    parts.push('FREQ=DAILY');
+    if (monthRestricted) parts.push(`BYMONTH=${fields.months.join(',')}`);
+  }
+
+  // A single hour/minute is carried by DTSTART itself
+  if (fields.hours.length > 1) parts.push(`BYHOUR=${fields.hours.join(',')}`);
+  if (fields.minutes.length > 1) parts.push(`BYMINUTE=${fields.minutes.join(',')}`);
+
+  return parts.join(';');
+}
+
+/**
+ * Day-level RRULE for a schedule, ignoring the time fields — used to place
+ * one summary block on each day a high-frequency cron runs. Empty when
+ * RRULE can't express the days, as with cronFieldsToRRule().
+ */
+export function cronDayRule(fields: CronFields): string {
+  return cronFieldsToRRule({ ...fields, minutes: [0], hours: [0] });
+}
+
+/**
+ * Short human description of how often a schedule fires within its active hours.
+ * `*\/5 * * * *` → "every 5 min", `0,10,45 * * * *` → "3 times per hour"
+ */
+export function describeFrequency(fields: CronFields): string {
+  const { minutes } = fields;
+
+  if (minutes.length === 1) return 'hourly';
+
+  const step = minutes[1] - minutes[0];
+  const evenlySpaced = minutes.every((m, i) => i === 0 || m - minutes[i - 1] === step)
+    && 60 % step === 0
+    && minutes.length === 60 / step;
+  if (evenlySpaced) return step === 1 ? 'every minute' : `every ${step} min`;
+
+  return `${minutes.length} times per hour`;
+}
+
+/**
+ * Next run at or after `from`, evaluated in the given zone.
+ * Returns null if the expression never fires (e.g. Feb 30).
+ */
+export function nextCronRun(fields: CronFields, from: Date, timeZone = 'UTC'): Date | null {
+  const local = getZonedParts(from, timeZone);
+
+  for (let offset = 0; offset < SEARCH_DAYS; offset++) {
+    const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+    if (!matchesDay(fields, day)) continue;
+
+    for (const hour of fields.hours) {
+      for (const minute of fields.minutes) {
+        const run = zonedTimeToUtc(
+          day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(),
+          hour, minute, 0, timeZone,
+        );
+        if (run.getTime() >= from.getTime()) return run;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The next `count` runs starting at or after `from`.
+ */
+export function cronRuns(fields: CronFields, from: Date, timeZone = 'UTC', count = DEFAULT_RDATE_COUNT): Date[] {
+  const runs: Date[] = [];
+  let cursor = from;
+
+  while (runs.length < count) {
+    const run = nextCronRun(fields, cursor, timeZone);
+    if (!run) break;
+    runs.push(run);
+    cursor = new Date(run.getTime() + 60000);
+  }
+
+  return runs;
+}
+
+/**
+ * Translate a cron expression into a first run (DTSTART) and recurrence.
+ * Schedules RRULE can't express fall back to an explicit RDATE list.
+ * High-frequency schedules return only the first run — see isHighFrequency().
+ */
+export function translateCron(
+  expr: string,
+  options: { from?: Date; timeZone?: string; rdateCount?: number } = {},
+): CronSchedule | null {
+  const fields = parseCron(expr);
+  if (!fields) return null;
+
+  const timeZone = options.timeZone || 'UTC';
+  const start = nextCronRun(fields, options.from ?? new Date(), timeZone);
+  if (!start) return null;
+
+  const rrule = cronFieldsToRRule(fields);
+  if (rrule) return { start, rrule };
+  if (isHighFrequency(fields)) return { start };
+
+  const runs = cronRuns(fields, start, timeZone, options.rdateCount ?? DEFAULT_RDATE_COUNT);
+  return { start, rdate: runs.slice(1) };
+}
+
+// --- Helpers ---
+
+function matchesDay(fields: CronFields, day: Date): boolean {
+  if (!fields.months.includes(day.getUTCMonth() + 1)) return false;
+
+  const domMatch = fields.daysOfMonth.includes(day.getUTCDate());
+  const dowMatch = fields.daysOfWeek.includes(day.getUTCDay());
+
+  // Standard cron: when both day fields are given explicitly, either may match
+  if (fields.matchAnyDay) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
+
+/**
+ * Vixie cron treats a day field starting with `*` as unrestricted for the
+ * either/or rule, even with a step (`*\/2`).
+ */
+function isExplicit(field: string): boolean {
+  return !field.startsWith('*') && field !== '?';
+}
+
+/**
+ * Parse one cron field: lists, ranges, steps and names.
+ * `1-5`, `*\/15`, `MON-FRI`, `0,30`, `10-40/10`
+ */
+function parseField(field: string, min: number, max: number, names?: Record<string, number>): number[] | null {
+  const values: number[] = [];
+
+  for (const item of field.split(',')) {
+    const [range, stepStr] = item.split('/');
+    if (stepStr !== undefined && !/^\d+$/.test(stepStr)) return null;
+    const step = stepStr === undefined ? 1 : parseInt(stepStr, 10);
+    if (step < 1) return null;
+
+    let lo: number;
+    let hi: number;
+
+    if (range === '*' || range === '?') {
+      lo = min;
+      hi = max;
+    } else if (range.includes('-')) {
+      const [a, b] = range.split('-');
+      const start = parseValue(a, names);
+      const end = parseValue(b, names);
+      if (start === null || end === null) return null;
+      lo = start;
+      hi = end;
+    } else {
+      const value = parseValue(range, names);
+      if (value === null) return null;
+      lo = value;
+      // `5/15` means "from 5, every 15"
+      hi = stepStr === undefined ? value : max;
+    }
+
+    if (lo < min || hi > max || lo > hi) return null;
+
+    for (let v = lo; v <= hi; v += step) {
+      values.push(v);
+    }
+  }
+
+  return values.length > 0 ? uniqueSorted(values) : null;
+}
+
+function parseValue(value: string, names?: Record<string, number>): number | null {
+  const upper = value.toUpperCase();
+  if (names && names[upper] !== undefined) return names[upper];
+  if (!/^\d+$/.test(value)) return null;
+  return parseInt(value, 10);
+}
+
+function uniqueSorted(values: number[]): number[] {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+function byDay(days: number[]): string {
+  // Monday-first order reads naturally: MO,TU,WE,TH,FR
+  const ordered = [...days].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+  return ordered.map(d => BYDAY_CODES[d]).join(',');
+}
@@ -1,4 +1,7 @@
-import { CalendarEvent, EventAlert, GatewayScheduleEvent, GatewayTaskCompleteEvent, GatewayCronEvent, DefaultsConfig } from './types.js';
+import { CalendarEvent, EventAlert, EventStatus, OccurrenceOverride, GatewayScheduleEvent, GatewayTaskCompleteEvent, GatewayCronEvent, GatewayCronRunEvent, DefaultsConfig, CronAutomationsConfig } from './types.js';
+import { zonedDateKey, getZonedParts, zonedTimeToUtc, formatICSLocalDate } from './timezone.js';
+import { expandEvent } from './rrule.js';
+import { CronFields, parseCron, cronFieldsToRRule, cronDayRule, cronRuns, describeFrequency, isHighFrequency, nextCronRun, translateCron } from './cron.js';
 
 const EMOJI: Record<string, string> = {
   post: '🐦',
@@ -10,6 +13,27 @@ const EMOJI: Record<string, string> = {
   reminder: '💬',
 };
 
+const STATUS_LABELS: Record<EventStatus, string> = {
+  PLANNED: 'Planned',
+  IN_PROGRESS: 'In progress',
+  COMPLETED: 'Completed',
+  CANCELLED: 'Cancelled',
+};
+
+/**
+ * Emoji shown for a category ('' for categories without one).
+ */
+export function categoryEmoji(category?: string): string {
+  return (category && EMOJI[category]) || '';
+}
+
+/**
+ * Human-readable event status, e.g. 'In progress'.
+ */
+export function statusLabel(status: EventStatus): string {
+  return STATUS_LABELS[status] ?? status;
+}
+
 /**
  * Map a gateway schedule event to a calendar event.
  */
@@ -27,6 +51,7 @@ export function fromScheduleEvent(event: GatewayScheduleEvent, defaults: Default
     project: event.workspace,
     status: 'PLANNED',
     alerts: alertsForCategory(event.type, defaults),
+    timezone: event.timezone,
   };
 }
 
@@ -48,21 +73,274 @@ export function fromTaskCompleteEvent(event: GatewayTaskCompleteEvent, defaults?
   };
 }
 
+export interface CronEventOptions {
+  timeZone?: string; // default zone when the cron event doesn't name one
+  highFrequency?: CronAutomationsConfig['high_frequency'];
+  workingHours?: CronAutomationsConfig['working_hours'];
+}
+
 /**
  * Map a gateway cron registration to a recurring calendar event.
+ * The series starts at the cron's first run, evaluated in the event's zone
+ * (or the default zone). Crons that run more than hourly become one summary
+ * block per active day instead of individual runs.
+ * Returns null when the schedule can't be parsed — a guessed event would be wrong.
  */
-export function fromCronEvent(event: GatewayCronEvent, defaults?: DefaultsConfig): CalendarEvent {
-  return {
+export function fromCronEvent(event: GatewayCronEvent, defaults?: DefaultsConfig, options: CronEventOptions = {}): CalendarEvent | null {
+  const fields = parseCron(event.schedule);
+  if (!fields) return null;
+
+  const timeZone = event.timezone || options.timeZone;
+  const base: CalendarEvent = {
     uid: event.id,
     title: `🔄 ${event.name}`,
     description: event.description,
-    start: new Date(), // starts now
-    duration: 15,
+    start: new Date(),
     category: 'automation',
     agent: event.agentId,
-    rrule: cronToRRule(event.schedule),
     status: 'PLANNED',
     alerts: defaults ? alertsForCategory('automation', defaults) : undefined,
+    timezone: event.timezone,
+  };
+
+  if (isHighFrequency(fields)) {
+    return summarizeHighFrequencyCron(base, event, fields, timeZone, options);
+  }
+
+  const schedule = translateCron(event.schedule, { timeZone });
+  if (!schedule) return null;
+
+  return {
+    ...base,
+    start: schedule.start,
+    duration: 15,
+    rrule: schedule.rrule,
+    rdate: schedule.rdate,
+  };
+}
+
+/**
+ * One block per active day: all-day, or spanning the hours the cron runs in
+ * (falling back to configured working hours when it runs around the clock).
+ */
+function summarizeHighFrequencyCron(
+  base: CalendarEvent,
+  event: GatewayCronEvent,
+  fields: CronFields,
+  timeZone: string | undefined,
+  options: CronEventOptions,
+): CalendarEvent | null {
+  const zone = timeZone || 'UTC';
+  const firstRun = nextCronRun(fields, new Date(), zone);
+  if (!firstRun) return null;
+
+  const frequency = describeFrequency(fields);
+  const day = getZonedParts(firstRun, zone);
+  const description = [
+    event.description,
+    `Runs ${frequency}`,
+    `Schedule: ${event.schedule}`,
+  ].filter(Boolean).join('\n');
+
+  const summary: CalendarEvent = {
+    ...base,
+    title: `🔄 ${event.name} (${frequency})`,
+    description,
+    // Summary blocks are informational, not individual runs to be alerted on
+    alerts: undefined,
+  };
+
+  if (options.highFrequency === 'working_hours') {
+    const hoursRestricted = fields.hours.length < 24;
+    const startHour = hoursRestricted ? fields.hours[0] : (options.workingHours?.start ?? 9);
+    const endHour = hoursRestricted ? fields.hours[fields.hours.length - 1] + 1 : (options.workingHours?.end ?? 17);
+    const start = zonedTimeToUtc(day.year, day.month, day.day, startHour, 0, 0, zone);
+
+    return {
+      ...summary,
+      ...blockRecurrence(fields, start, startHour, zone),
+      start,
+      duration: Math.max(endHour - startHour, 1) * 60,
+    };
+  }
+
+  const start = zonedTimeToUtc(day.year, day.month, day.day, 0, 0, 0, zone);
+  return {
+    ...summary,
+    ...blockRecurrence(fields, start, 0, zone),
+    start,
+    allDay: true,
+  };
+}
+
+/**
+ * Repeat a summary block on each day the cron runs. Days RRULE can't express
+ * (day-of-month and day-of-week both set) fall back to an RDATE list of the
+ * upcoming blocks, as translateCron() does for individual runs.
+ */
+function blockRecurrence(fields: CronFields, start: Date, hour: number, zone: string): Pick<CalendarEvent, 'rrule' | 'rdate'> {
+  const rrule = cronDayRule(fields);
+  if (rrule) return { rrule };
+  return { rdate: cronRuns({ ...fields, minutes: [0], hours: [hour] }, start, zone).slice(1) };
+}
+
+export type CronRunOutcome = 'started' | 'completed' | 'failed';
+
+/**
+ * Map a cron run lifecycle event to an override of the occurrence it ran for.
+ * The occurrence is the run's scheduled slot — without one, the latest slot
+ * of the series at or before the run started. For summary series (all-day
+ * or working-hours blocks) it's the block on the run's local day, so the
+ * latest run of the day is what shows.
+ */
+export function fromCronRunEvent(
+  run: GatewayCronRunEvent,
+  master: CalendarEvent,
+  outcome: CronRunOutcome,
+  timeZone?: string,
+): { recurrenceId: Date; updates: Partial<Omit<OccurrenceOverride, 'recurrenceId'>> } {
+  const zone = master.timezone || timeZone || 'UTC';
+  const ranAt = run.scheduledAt ?? run.startedAt ?? run.finishedAt ?? new Date();
+  const name = master.title.replace(/^🔄\s*/, '');
+  const summary = isSummarySeries(master);
+
+  let recurrenceId: Date;
+  if (summary) {
+    const day = getZonedParts(ranAt, zone);
+    const block = master.allDay ? { hour: 0, minute: 0 } : getZonedParts(master.start, zone);
+    recurrenceId = zonedTimeToUtc(day.year, day.month, day.day, block.hour, block.minute, 0, zone);
+  } else if (run.scheduledAt) {
+    recurrenceId = new Date(Math.floor(ranAt.getTime() / 60000) * 60000);
+  } else {
+    recurrenceId = latestSlot(master, ranAt, zone) ?? new Date(Math.floor(ranAt.getTime() / 60000) * 60000);
+  }
+
+  const updates: Partial<Omit<OccurrenceOverride, 'recurrenceId'>> = {};
+  const elapsedMs = run.durationMs
+    ?? (run.startedAt && run.finishedAt ? run.finishedAt.getTime() - run.startedAt.getTime() : undefined);
+
+  if (!summary && run.startedAt) {
+    updates.start = run.startedAt;
+  }
+  if (!summary && elapsedMs !== undefined) {
+    updates.duration = Math.max(1, Math.round(elapsedMs / 60000));
+  }
+
+  const lines: string[] = [];
+  switch (outcome) {
+    case 'started':
+      updates.title = `⏳ ${name}`;
+      updates.status = 'IN_PROGRESS';
+      lines.push('Running');
+      break;
+    case 'completed':
+      updates.title = `✅ ${name}`;
+      updates.status = 'COMPLETED';
+      lines.push(elapsedMs !== undefined ? `Completed in ${formatElapsed(elapsedMs)}` : 'Completed');
+      break;
+    case 'failed':
+      updates.title = `❌ ${name}`;
+      updates.status = 'COMPLETED';
+      lines.push(elapsedMs !== undefined ? `Failed after ${formatElapsed(elapsedMs)}` : 'Failed');
+      if (run.error) lines.push(`Error: ${run.error}`);
+      break;
+  }
+
+  if (run.startedAt) lines.push(`Started: ${run.startedAt.toISOString()}`);
+  if (run.runId) lines.push(`Run: ${run.runId}`);
+  updates.description = lines.join('\n');
+
+  return { recurrenceId, updates };
+}
+
+// Summary blocks are all-day or span hours; series of individual runs are 15-minute slots
+function isSummarySeries(master: CalendarEvent): boolean {
+  if (master.allDay) return true;
+  const length = master.end ? master.end.getTime() - master.start.getTime() : (master.duration ?? 15) * 60000;
+  return length >= 3600000;
+}
+
+// How far back a late run is matched to its slot
+const RUN_SLOT_LOOKBACK_MS = 31 * 86400000;
+
+/**
+ * Start of the latest occurrence of the series at or before `at` —
+ * recorded runs and cancellations included, since a run may land on one.
+ */
+function latestSlot(master: CalendarEvent, at: Date, timeZone: string): Date | null {
+  const series = { ...master, overrides: undefined, exdate: undefined };
+  const slots = expandEvent(series, new Date(at.getTime() - RUN_SLOT_LOOKBACK_MS), new Date(at.getTime() + 1), timeZone)
+    .map(occurrence => occurrence.start.getTime())
+    .filter(start => start <= at.getTime());
+  return slots.length > 0 ? new Date(Math.max(...slots)) : null;
+}
+
+/**
+ * Updates that end a cron's series at `endedAt` (cron unregistered): the RRULE
+ * gets an UNTIL and later RDATEs are dropped, so past runs and their recorded
+ * history stay on the calendar. Returns null when the series hadn't started
+ * yet — there's nothing to keep, so cancel it instead.
+ */
+export function endCronSeries(master: CalendarEvent, endedAt: Date, timeZone?: string): Partial<CalendarEvent> | null {
+  if (master.start.getTime() > endedAt.getTime()) return null;
+
+  const zone = master.timezone || timeZone || 'UTC';
+  const updates: Partial<CalendarEvent> = {};
+
+  if (master.rrule) {
+    // UNTIL must match DTSTART's value type: DATE for all-day series, UTC otherwise
+    const until = master.allDay
+      ? zonedDateKey(endedAt, zone).replace(/-/g, '')
+      : `${formatICSLocalDate(endedAt, 'UTC')}Z`;
+    updates.rrule = withUntil(master.rrule, until);
+  }
+  if (master.rdate) {
+    updates.rdate = master.rdate.filter(d => d.getTime() <= endedAt.getTime());
+  }
+
+  return updates;
+}
+
+/**
+ * Move an existing cron event onto its re-derived schedule (cron:update).
+ * A series that already ran is first copied to an archive UID and ended
+ * there with UNTIL, so its past runs and their history stay valid
+ * occurrences; the live UID then restarts on the new schedule with no
+ * overrides. Fields the new definition doesn't set are cleared. The agent
+ * is fixed at registration — it decides which feeds hold the event.
+ */
+export function rescheduleCronEvent(
+  existing: CalendarEvent,
+  next: CalendarEvent,
+  now = new Date(),
+  timeZone?: string,
+): { archived: CalendarEvent | null; updates: Partial<CalendarEvent> } {
+  const ended = endCronSeries(existing, now, timeZone);
+  const archived = ended
+    ? {
+      ...existing,
+      ...ended,
+      uid: `${existing.uid}-until-${formatICSLocalDate(now, 'UTC')}`,
+      overrides: existing.overrides?.filter(o => o.recurrenceId.getTime() <= now.getTime()),
+    }
+    : null;
+
+  return {
+    archived,
+    updates: {
+      title: next.title,
+      description: next.description,
+      start: next.start,
+      duration: next.duration,
+      allDay: next.allDay,
+      rrule: next.rrule,
+      rdate: next.rdate,
+      alerts: next.alerts,
+      timezone: next.timezone,
+      status: 'PLANNED',
+      exdate: undefined,
+      overrides: undefined,
+    },
   };
 }
 
@@ -111,6 +389,7 @@ export function fromToolCall(params: {
   project?: string;
   url?: string;
   alertMinutes?: number;
+  timezone?: string;
 }, defaults?: DefaultsConfig): CalendarEvent {
   const emoji = params.category ? (EMOJI[params.category] || '') : '';
   const title = emoji ? `${emoji} ${params.title}` : params.title;
@@ -133,6 +412,7 @@ export function fromToolCall(params: {
     url: params.url,
     status: 'PLANNED',
     alerts,
+    timezone: params.timezone,
   };
 }
 
@@ -164,6 +444,7 @@ function alertsForCategory(category: string, defaults: DefaultsConfig): EventAle
 /**
  * Build a single daily aggregate event rolling up task completions for one agent.
  * Deterministic UID means same-day updates increment SEQUENCE via updateEvent().
+ * The day is taken in the given zone so late-evening completions stay on the local date.
  */
 const MAX_AGGREGATE_DESCRIPTION_LINES = 25;
 
@@ -171,8 +452,9 @@ export function buildDailyTaskAggregate(
   agentId: string,
   date: Date,
   tasks: Array<{ summary: string }>,
+  timeZone?: string,
 ): CalendarEvent {
-  const dateStr = date.toISOString().slice(0, 10);
+  const dateStr = zonedDateKey(date, timeZone);
   const count = tasks.length;
   const noun = count === 1 ? 'task' : 'tasks';
 
@@ -216,54 +498,42 @@ function formatDescription(event: { summary: string; description?: string; agent
 }
 
 /**
- * Convert common cron patterns to iCal RRULE.
- * Handles standard patterns; falls back to empty string for exotic schedules.
+ * Convert a cron expression to an iCal RRULE (without DTSTART).
+ * Returns an empty string for schedules RRULE can't express — use
+ * translateCron() to get an RDATE fallback and the first run time.
  */
 export function cronToRRule(cron: string): string {
-  const parts = cron.trim().split(/\s+/);
-  if (parts.length < 5) return '';
-
-  const [minute, hour, , , dayOfWeek] = parts;
-
-  // Sub-hourly patterns (*/5 * * * *) can't be represented as RRULE
-  if (minute.includes('/') || minute.includes(',') || hour.includes('/')) {
-    return '';
-  }
-
-  // Every day
-  if (dayOfWeek === '*') {
-    return 'FREQ=DAILY';
-  }
+  const fields = parseCron(cron);
+  return fields ? cronFieldsToRRule(fields) : '';
+}
 
-  // Specific day of week
-  const dayMap: Record<string, string> = {
-    '0': 'SU', '1': 'MO', '2': 'TU', '3': 'WE',
-    '4': 'TH', '5': 'FR', '6': 'SA', '7': 'SU',
-    'SUN': 'SU', 'MON': 'MO', 'TUE': 'TU', 'WED': 'WE',
-    'THU': 'TH', 'FRI': 'FR', 'SAT': 'SA',
-  };
+/**
+ * True for crons that run more than hourly (e.g. `*\/5 * * * *`).
+ */
+export function isHighFrequencyCron(cron: string): boolean {
+  const fields = parseCron(cron);
+  return fields ? isHighFrequency(fields) : false;
+}
 
-  // Single day: "0 8 * * 1" → FREQ=WEEKLY;BYDAY=MO
-  if (dayMap[dayOfWeek.toUpperCase()]) {
-    return `FREQ=WEEKLY;BYDAY=${dayMap[dayOfWeek.toUpperCase()]}`;
-  }
+/**
+ * Replace any UNTIL/COUNT in an RRULE with the given UNTIL value.
+ */
+function withUntil(rrule: string, until: string): string {
+  const parts = rrule.split(';').filter(p => !/^(UNTIL|COUNT)=/i.test(p));
+  return [...parts, `UNTIL=${until}`].join(';');
+}
 
-  // Multiple days: "0 8 * * 1,3,5" → FREQ=WEEKLY;BYDAY=MO,WE,FR
-  if (dayOfWeek.includes(',')) {
-    const days = dayOfWeek.split(',')
-      .map(d => dayMap[d.trim().toUpperCase()])
-      .filter(Boolean);
-    if (days.length > 0) {
-      return `FREQ=WEEKLY;BYDAY=${days.join(',')}`;
-    }
-  }
+/**
+ * Format a run duration: 42s, 2m 13s, 1h 5m.
+ */
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  if (totalSeconds < 60) return `${totalSeconds}s`;
 
-  // Weekdays: "0 8 * * 1-5"
-  if (dayOfWeek === '1-5') {
-    return 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
-  }
+  const minutes = Math.floor(totalSeconds / 60);
+  if (minutes < 60) return `${minutes}m ${totalSeconds % 60}s`;
 
-  return '';
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
 }
 
 /**
@@ -1,57 +1,371 @@
-import { join } from 'path';
+import { basename, join } from 'path';
 import { readdirSync, existsSync } from 'fs';
-import { CalendarManager } from './calendar.js';
-import { CalendarEvent, FeedsConfig } from './types.js';
+import { CalendarManager, CalendarOptions } from './calendar.js';
+import { CalendarEvent, CustomFeedConfig, EventOccurrence, FeedsConfig, OccurrenceOverride } from './types.js';
 import { LocalCalendarPush } from './local-push.js';
+import { EventStore } from './store.js';
+import { EventJournal, JournalEntry, JournalRecord } from './journal.js';
+import { matchesFilter } from './filter.js';
 
 /**
  * Manages multiple calendar feeds — one combined feed with all agents,
- * plus individual per-agent feeds. Events are written to the relevant
- * feeds automatically based on the event's agent field.
+ * plus individual per-agent and per-project feeds. Events are written to
+ * the relevant feeds automatically based on the event's agent and project.
+ * Custom feeds (feeds.custom) hold whichever events pass their filter.
  *
  * Directory structure:
  *   ~/.openclaw/clawcal/
  *   ├── all-agents.ics          ← combined feed
  *   ├── marketing-agent.ics     ← per-agent feed
  *   ├── dev-agent.ics           ← per-agent feed
+ *   ├── projects/
+ *   │   └── myapp.ics           ← per-project feed
+ *   ├── custom/
+ *   │   └── myapp-launches.ics  ← custom filtered feed
+ *   ├── events.jsonl            ← canonical event store (when configured)
+ *   ├── journal.jsonl           ← write-ahead mutation journal (when configured)
  *   └── ...
+ *
+ * With an EventStore, the store is the source of truth: feeds are rendered
+ * from it on startup and every change is written to it. Without one (or on
+ * first run with an empty store), state is restored from the .ics files.
+ *
+ * With an EventJournal, every mutation is journaled (with the hook that
+ * caused it) before it is applied, so replayJournal() can rebuild all feeds
+ * from scratch.
  */
 export class FeedManager {
   private combined: CalendarManager | null = null;
   private agentFeeds: Map<string, CalendarManager> = new Map();
+  private projectFeeds: Map<string, CalendarManager> = new Map();
+  private customFeeds: Map<string, { config: CustomFeedConfig; calendar: CalendarManager }> = new Map();
   private directory: string;
   private feedsConfig: FeedsConfig;
   private localPush: LocalCalendarPush | null = null;
+  private calendarOptions: CalendarOptions;
+  private store: EventStore | null;
+  private journal: EventJournal | null;
+  private replaying = false;
 
-  constructor(directory: string, feedsConfig: FeedsConfig, localPush?: LocalCalendarPush) {
+  constructor(
+    directory: string,
+    feedsConfig: FeedsConfig,
+    localPush?: LocalCalendarPush,
+    calendarOptions: CalendarOptions = {},
+    store?: EventStore,
+    journal?: EventJournal,
+  ) {
     this.directory = directory;
     this.feedsConfig = feedsConfig;
     this.localPush = localPush ?? null;
+    this.calendarOptions = calendarOptions;
+    this.store = store ?? null;
+    this.journal = journal ?? null;
 
-    if (feedsConfig.combined) {
-      this.combined = new CalendarManager(
-        join(directory, 'all-agents.ics'),
-        'OpenClaw — All Agents'
-      );
+    const stored = this.store ? this.store.load() : [];
+    if (stored.length > 0) {
+      this.buildFeeds(stored);
+    } else {
+      this.loadFeedFiles();
+
+      // First run with a store: import whatever the .ics files held
+      if (this.store) {
+        const existing = this.getAllEvents();
+        if (existing.length > 0) this.store.replaceAll(existing);
+      }
     }
 
-    // Load existing per-agent feeds from disk
-    if (feedsConfig.per_agent && existsSync(directory)) {
-      for (const file of readdirSync(directory)) {
-        if (!file.endsWith('.ics') || file === 'all-agents.ics' || file === 'agent-calendar.ics') continue;
-        const agentId = file.replace(/\.ics$/, '');
-        const feed = new CalendarManager(
-          join(directory, file),
-          `OpenClaw — ${agentId}`
-        );
-        if (feed.getAllEvents().length > 0) {
-          this.agentFeeds.set(agentId, feed);
+    // First run with a journal: snapshot what's already there, or replaying
+    // would start from nothing and drop every event from before the journal
+    if (this.journal && this.journal.size === 0) {
+      const existing = this.getAllEvents();
+      if (existing.length > 0) this.journal.compact(existing);
+    }
+  }
+
+  addEvent(event: CalendarEvent, source?: string): void {
+    const stamped = { ...event, lastModified: new Date() };
+    this.record({ op: 'add', uid: event.uid, source, event: stamped }, stamped.lastModified);
+    this.applyAdd(stamped);
+  }
+
+  updateEvent(uid: string, updates: Partial<CalendarEvent>, source?: string): void {
+    const stamped = { ...updates, lastModified: new Date() };
+    this.record({ op: 'update', uid, source, updates: stamped }, stamped.lastModified);
+    this.applyUpdate(uid, stamped);
+  }
+
+  /**
+   * Record a change to one occurrence of a recurring event in every feed
+   * holding it. Recurring events aren't pushed locally, so no local push here.
+   */
+  updateOccurrence(
+    uid: string,
+    recurrenceId: Date,
+    updates: Partial<Omit<OccurrenceOverride, 'recurrenceId'>>,
+    source?: string,
+  ): void {
+    const at = this.record({ op: 'update-occurrence', uid, source, recurrenceId, occurrence: updates });
+    this.applyOccurrenceUpdate(uid, recurrenceId, updates, at);
+  }
+
+  /**
+   * Remove one occurrence of a recurring event from every feed holding it.
+   */
+  cancelOccurrence(uid: string, recurrenceId: Date, source?: string): void {
+    const at = this.record({ op: 'cancel-occurrence', uid, source, recurrenceId });
+    this.applyOccurrenceCancel(uid, recurrenceId, at);
+  }
+
+  cancelEvent(uid: string, source?: string): void {
+    const at = this.record({ op: 'cancel', uid, source });
+    this.applyCancel(uid, at);
+  }
+
+  removeEvent(uid: string, source?: string): void {
+    this.record({ op: 'remove', uid, source });
+    this.applyRemove(uid);
+  }
+
+  getEvent(uid: string): CalendarEvent | undefined {
+    // Check combined first, then agent and project feeds
+    if (this.combined) {
+      const event = this.combined.getEvent(uid);
+      if (event) return event;
+    }
+
+    for (const feed of this.splitFeeds()) {
+      const event = feed.getEvent(uid);
+      if (event) return event;
+    }
+
+    return undefined;
+  }
+
+  getAllEvents(): CalendarEvent[] {
+    if (this.combined) {
+      return this.combined.getAllEvents();
+    }
+
+    // If no combined feed, merge the agent and project feeds
+    const seen = new Set<string>();
+    const events: CalendarEvent[] = [];
+
+    for (const feed of this.splitFeeds()) {
+      for (const event of feed.getAllEvents()) {
+        if (!seen.has(event.uid)) {
+          seen.add(event.uid);
+          events.push(event);
         }
       }
     }
+
+    return events;
   }
 
-  addEvent(event: CalendarEvent): void {
+  /**
+   * Concrete occurrences across all events overlapping [from, to).
+   */
+  getOccurrences(from: Date, to: Date): EventOccurrence[] {
+    if (this.combined) {
+      return this.combined.getOccurrences(from, to);
+    }
+
+    // If no combined feed, merge the agent and project feeds
+    const seen = new Set<string>();
+    const occurrences: EventOccurrence[] = [];
+
+    for (const feed of this.splitFeeds()) {
+      for (const occurrence of feed.getOccurrences(from, to)) {
+        const key = `${occurrence.uid}:${occurrence.recurrenceId?.getTime() ?? ''}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          occurrences.push(occurrence);
+        }
+      }
+    }
+
+    return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Occurrences of one agent's events overlapping [from, to).
+   */
+  getAgentOccurrences(agentId: string, from: Date, to: Date): EventOccurrence[] {
+    return this.getAgentFeed(agentId)?.getOccurrences(from, to) ?? [];
+  }
+
+  /**
+   * Write any pending changes in every feed to disk.
+   */
+  flush(): void {
+    if (this.combined) {
+      this.combined.flush();
+    }
+
+    for (const feed of this.splitFeeds()) {
+      feed.flush();
+    }
+
+    for (const { calendar } of this.customFeeds.values()) {
+      calendar.flush();
+    }
+  }
+
+  /**
+   * Get the combined calendar manager (for serving via HTTP).
+   */
+  getCombinedFeed(): CalendarManager | null {
+    return this.combined;
+  }
+
+  /**
+   * Get a specific agent's calendar manager (for serving via HTTP).
+   */
+  getAgentFeed(agentId: string): CalendarManager | undefined {
+    return this.agentFeeds.get(agentId);
+  }
+
+  /**
+   * Get all known agent IDs that have feeds.
+   */
+  getAgentIds(): string[] {
+    return Array.from(this.agentFeeds.keys());
+  }
+
+  /**
+   * Get a specific project's calendar manager (for serving via HTTP).
+   */
+  getProjectFeed(project: string): CalendarManager | undefined {
+    return this.projectFeeds.get(project);
+  }
+
+  /**
+   * Get all known project names that have feeds.
+   */
+  getProjectNames(): string[] {
+    return Array.from(this.projectFeeds.keys());
+  }
+
+  /**
+   * Get a custom feed's calendar manager by slug (for serving via HTTP).
+   */
+  getCustomFeed(slug: string): CalendarManager | undefined {
+    return this.customFeeds.get(slug)?.calendar;
+  }
+
+  /**
+   * Get the configured custom feeds.
+   */
+  getCustomFeeds(): CustomFeedConfig[] {
+    return Array.from(this.customFeeds.values(), feed => feed.config);
+  }
+
+  /**
+   * Re-evaluate every custom feed's filter against all events — relative
+   * date windows move with the clock, so this runs with cleanup.
+   */
+  refreshCustomFeeds(): void {
+    const events = this.getAllEvents();
+    const now = new Date();
+
+    for (const { config, calendar } of this.customFeeds.values()) {
+      const matching = new Set<string>();
+      for (const event of events) {
+        if (!this.matchesCustomFeed(event, config, now)) continue;
+        matching.add(event.uid);
+        if (!calendar.getEvent(event.uid)) calendar.addEvent(event);
+      }
+
+      for (const event of calendar.getAllEvents()) {
+        if (!matching.has(event.uid)) calendar.removeEvent(event.uid);
+      }
+    }
+  }
+
+  /**
+   * Run cleanup across all feeds.
+   */
+  cleanup(retentionDays: number, maxEvents: number): number {
+    // Cleanup prunes overrides in place, so snapshot the counts up front
+    const overrideCounts = new Map(this.getAllEvents().map(e => [e.uid, e.overrides?.length ?? 0]));
+    let removed = 0;
+
+    if (this.combined) {
+      removed += this.combined.cleanup(retentionDays, maxEvents);
+    }
+
+    for (const feed of this.splitFeeds()) {
+      removed += feed.cleanup(retentionDays, maxEvents);
+    }
+
+    this.refreshCustomFeeds();
+
+    // Cleanup can drop events and prune run history — rewriting the store
+    // also compacts it
+    if (this.store) {
+      this.store.replaceAll(this.getAllEvents());
+    }
+
+    // Journal what cleanup changed so a replay ends in the same state
+    for (const [uid, count] of overrideCounts) {
+      const event = this.getEvent(uid);
+      if (!event) {
+        this.record({ op: 'remove', uid, source: CLEANUP_SOURCE });
+      } else if ((event.overrides?.length ?? 0) !== count) {
+        this.record({ op: 'update', uid, source: CLEANUP_SOURCE, updates: { overrides: event.overrides, lastModified: event.lastModified } });
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Re-render every feed from the canonical store, replacing in-memory state
+   * and the .ics files. No-op without a store.
+   */
+  rebuild(): void {
+    if (!this.store) return;
+    this.buildFeeds(this.store.load());
+  }
+
+  /**
+   * Rebuild every feed from scratch by replaying the journal in order.
+   * Local calendar pushes are skipped; the store is rewritten once at the
+   * end. Returns the number of entries replayed (0 without a journal).
+   */
+  replayJournal(): number {
+    if (!this.journal) return 0;
+
+    const entries = this.journal.read();
+    this.replaying = true;
+    try {
+      this.buildFeeds([]);
+      for (const entry of entries) {
+        this.applyEntry(entry);
+      }
+    } finally {
+      this.replaying = false;
+    }
+
+    if (this.store) {
+      this.store.replaceAll(this.getAllEvents());
+    }
+
+    return entries.length;
+  }
+
+  /**
+   * Collapse the journal to one snapshot entry per live event once it holds
+   * more than `maxEntries` entries. Returns whether it compacted.
+   */
+  compactJournal(maxEntries: number): boolean {
+    if (!this.journal || this.journal.size <= maxEntries) return false;
+    this.journal.compact(this.getAllEvents());
+    return true;
+  }
+
+  private applyAdd(event: CalendarEvent): void {
     // Always write to combined feed
     if (this.combined) {
       this.combined.addEvent(event);
@@ -63,26 +377,37 @@ export class FeedManager {
       agentCal.addEvent(event);
     }
 
+    // Same for per-project feeds
+    if (this.feedsConfig.per_project && event.project) {
+      this.getOrCreateProjectFeed(event.project).addEvent(event);
+    }
+
+    this.syncCustomFeeds(event.uid);
+    this.syncStore(event.uid);
+
     // Push to local Apple Calendar
-    if (this.localPush) {
+    if (this.localPush && !this.replaying) {
       this.localPush.pushEvent(event);
     }
   }
 
-  updateEvent(uid: string, updates: Partial<CalendarEvent>): void {
+  private applyUpdate(uid: string, updates: Partial<CalendarEvent>): void {
     if (this.combined) {
       this.combined.updateEvent(uid, updates);
     }
 
-    // Update across all agent feeds (the event could be in any of them)
-    for (const feed of this.agentFeeds.values()) {
+    // Update across all agent and project feeds (the event could be in any of them)
+    for (const feed of this.splitFeeds()) {
       if (feed.getEvent(uid)) {
         feed.updateEvent(uid, updates);
       }
     }
 
+    this.syncCustomFeeds(uid);
+    this.syncStore(uid);
+
     // Push updated event to local Apple Calendar
-    if (this.localPush) {
+    if (this.localPush && !this.replaying) {
       const updated = this.getEvent(uid);
       if (updated) {
         this.localPush.updateEvent(updated);
@@ -90,21 +415,51 @@ export class FeedManager {
     }
   }
 
-  cancelEvent(uid: string): void {
+  private applyOccurrenceUpdate(uid: string, recurrenceId: Date, updates: Partial<Omit<OccurrenceOverride, 'recurrenceId'>>, at: Date): void {
+    if (this.combined) {
+      this.combined.updateOccurrence(uid, recurrenceId, updates, at);
+    }
+
+    for (const feed of this.splitFeeds()) {
+      if (feed.getEvent(uid)) {
+        feed.updateOccurrence(uid, recurrenceId, updates, at);
+      }
+    }
+
+    this.syncCustomFeeds(uid);
+    this.syncStore(uid);
+  }
+
+  private applyOccurrenceCancel(uid: string, recurrenceId: Date, at: Date): void {
+    if (this.combined) {
+      this.combined.cancelOccurrence(uid, recurrenceId, at);
+    }
+
+    for (const feed of this.splitFeeds()) {
+      if (feed.getEvent(uid)) {
+        feed.cancelOccurrence(uid, recurrenceId, at);
+      }
+    }
+
+    this.syncCustomFeeds(uid);
+    this.syncStore(uid);
+  }
+
+  private applyCancel(uid: string, at: Date): void {
     // Grab event before it's updated so we can remove from local calendar
-    if (this.localPush) {
+    if (this.localPush && !this.replaying) {
       const event = this.getEvent(uid);
       if (event?.agent) {
         this.localPush.removeEvent(event.agent, event.title);
       }
     }
 
-    this.updateEvent(uid, { status: 'CANCELLED' });
+    this.applyUpdate(uid, { status: 'CANCELLED', lastModified: at });
   }
 
-  removeEvent(uid: string): void {
+  private applyRemove(uid: string): void {
     // Grab event before deletion so we can remove from local calendar
-    if (this.localPush) {
+    if (this.localPush && !this.replaying) {
       const event = this.getEvent(uid);
       if (event?.agent) {
         this.localPush.removeEvent(event.agent, event.title);
@@ -115,97 +470,262 @@ export class FeedManager {
       this.combined.removeEvent(uid);
     }
 
-    for (const feed of this.agentFeeds.values()) {
+    for (const feed of this.splitFeeds()) {
       if (feed.getEvent(uid)) {
         feed.removeEvent(uid);
       }
     }
+
+    this.syncCustomFeeds(uid);
+    this.syncStore(uid);
   }
 
-  getEvent(uid: string): CalendarEvent | undefined {
-    // Check combined first, then agent feeds
-    if (this.combined) {
-      const event = this.combined.getEvent(uid);
-      if (event) return event;
-    }
+  /**
+   * Create all feeds from a full set of events: the combined feed gets
+   * everything, each agent and project feed its own events.
+   */
+  private buildFeeds(events: CalendarEvent[]): void {
+    // Settle pending writes so an old feed's timer can't overwrite the new render
+    this.flush();
+    this.combined = null;
+    this.agentFeeds.clear();
+    this.projectFeeds.clear();
 
-    for (const feed of this.agentFeeds.values()) {
-      const event = feed.getEvent(uid);
-      if (event) return event;
+    if (this.feedsConfig.combined) {
+      this.combined = new CalendarManager(
+        join(this.directory, 'all-agents.ics'),
+        'OpenClaw — All Agents',
+        { ...this.calendarOptions, initialEvents: events },
+      );
     }
 
-    return undefined;
-  }
+    if (this.feedsConfig.per_agent) {
+      const byAgent: Map<string, CalendarEvent[]> = new Map();
+      for (const event of events) {
+        if (!event.agent) continue;
+        const list = byAgent.get(event.agent) || [];
+        list.push(event);
+        byAgent.set(event.agent, list);
+      }
 
-  getAllEvents(): CalendarEvent[] {
-    if (this.combined) {
-      return this.combined.getAllEvents();
+      for (const [agentId, agentEvents] of byAgent) {
+        this.agentFeeds.set(agentId, new CalendarManager(
+          join(this.directory, `${feedFileName(agentId)}.ics`),
+          `OpenClaw — ${agentId}`,
+          { ...this.calendarOptions, initialEvents: agentEvents },
+        ));
+      }
     }
 
-    // If no combined feed, merge all agent feeds
-    const seen = new Set<string>();
-    const events: CalendarEvent[] = [];
+    if (this.feedsConfig.per_project) {
+      const byProject: Map<string, CalendarEvent[]> = new Map();
+      for (const event of events) {
+        if (!event.project) continue;
+        const list = byProject.get(event.project) || [];
+        list.push(event);
+        byProject.set(event.project, list);
+      }
 
-    for (const feed of this.agentFeeds.values()) {
-      for (const event of feed.getAllEvents()) {
-        if (!seen.has(event.uid)) {
-          seen.add(event.uid);
-          events.push(event);
-        }
+      for (const [project, projectEvents] of byProject) {
+        this.projectFeeds.set(project, new CalendarManager(
+          join(this.directory, PROJECTS_DIR, `${feedFileName(project)}.ics`),
+          `OpenClaw — Project: ${project}`,
+          { ...this.calendarOptions, initialEvents: projectEvents },
+        ));
       }
     }
 
-    return events;
+    this.buildCustomFeeds();
   }
 
   /**
-   * Get the combined calendar manager (for serving via HTTP).
+   * Restore feeds by parsing the .ics files on disk.
    */
-  getCombinedFeed(): CalendarManager | null {
-    return this.combined;
+  private loadFeedFiles(): void {
+    if (this.feedsConfig.combined) {
+      this.combined = new CalendarManager(
+        join(this.directory, 'all-agents.ics'),
+        'OpenClaw — All Agents',
+        this.calendarOptions,
+      );
+    }
+
+    // Load existing per-agent feeds from disk
+    if (this.feedsConfig.per_agent && existsSync(this.directory)) {
+      for (const file of readdirSync(this.directory)) {
+        if (!file.endsWith('.ics') || file === 'all-agents.ics' || file === 'agent-calendar.ics') continue;
+        const loaded = this.loadSplitFeed(join(this.directory, file), event => event.agent, agentId => `OpenClaw — ${agentId}`);
+        if (loaded) this.agentFeeds.set(loaded.name, loaded.feed);
+      }
+    }
+
+    // Load existing per-project feeds from disk
+    const projectsDir = join(this.directory, PROJECTS_DIR);
+    if (this.feedsConfig.per_project && existsSync(projectsDir)) {
+      for (const file of readdirSync(projectsDir)) {
+        if (!file.endsWith('.ics')) continue;
+        const loaded = this.loadSplitFeed(join(projectsDir, file), event => event.project, project => `OpenClaw — Project: ${project}`);
+        if (loaded) this.projectFeeds.set(loaded.name, loaded.feed);
+      }
+    }
+
+    this.buildCustomFeeds();
   }
 
   /**
-   * Get a specific agent's calendar manager (for serving via HTTP).
+   * Load a per-agent or per-project feed file under the name its events
+   * carry. File names are sanitized (`my app` is saved as `my-app.ics`), so
+   * keying on the file name would open a second feed on the same file.
+   * Returns null for a feed with no events.
    */
-  getAgentFeed(agentId: string): CalendarManager | undefined {
-    return this.agentFeeds.get(agentId);
+  private loadSplitFeed(
+    path: string,
+    nameOf: (event: CalendarEvent) => string | undefined,
+    title: (name: string) => string,
+  ): { name: string; feed: CalendarManager } | null {
+    const fileName = basename(path, '.ics');
+    const feed = new CalendarManager(path, title(fileName), this.calendarOptions);
+    const events = feed.getAllEvents();
+    if (events.length === 0) return null;
+
+    const name = nameOf(events[0]) ?? fileName;
+    if (name === fileName) return { name, feed };
+    return {
+      name,
+      feed: new CalendarManager(path, title(name), { ...this.calendarOptions, initialEvents: events }),
+    };
   }
 
   /**
-   * Get all known agent IDs that have feeds.
+   * Render each custom feed from the events already loaded. Custom feeds
+   * are derived, never parsed back — a changed filter takes effect on the
+   * next start.
    */
-  getAgentIds(): string[] {
-    return Array.from(this.agentFeeds.keys());
+  private buildCustomFeeds(): void {
+    this.customFeeds.clear();
+    const events = this.getAllEvents();
+    const now = new Date();
+
+    for (const config of this.feedsConfig.custom || []) {
+      this.customFeeds.set(config.slug, {
+        config,
+        calendar: new CalendarManager(
+          join(this.directory, CUSTOM_DIR, `${feedFileName(config.slug)}.ics`),
+          config.name,
+          { ...this.calendarOptions, initialEvents: events.filter(e => this.matchesCustomFeed(e, config, now)) },
+        ),
+      });
+    }
   }
 
   /**
-   * Run cleanup across all feeds.
+   * Add, refresh or drop one event in every custom feed after it changed.
    */
-  cleanup(retentionDays: number, maxEvents: number): number {
-    let removed = 0;
+  private syncCustomFeeds(uid: string): void {
+    if (this.customFeeds.size === 0) return;
 
-    if (this.combined) {
-      removed += this.combined.cleanup(retentionDays, maxEvents);
+    const event = this.getEvent(uid);
+    const now = new Date();
+    for (const { config, calendar } of this.customFeeds.values()) {
+      if (event && this.matchesCustomFeed(event, config, now)) {
+        calendar.addEvent(event);
+      } else if (calendar.getEvent(uid)) {
+        calendar.removeEvent(uid);
+      }
     }
+  }
 
-    for (const feed of this.agentFeeds.values()) {
-      removed += feed.cleanup(retentionDays, maxEvents);
+  private matchesCustomFeed(event: CalendarEvent, config: CustomFeedConfig, now: Date): boolean {
+    return matchesFilter(event, config.filter, { now, timeZone: this.calendarOptions.timezone });
+  }
+
+  private applyEntry(entry: JournalEntry): void {
+    switch (entry.op) {
+      case 'add':
+        if (entry.event) this.applyAdd(entry.event);
+        break;
+      case 'update':
+        if (entry.updates) this.applyUpdate(entry.uid, entry.updates);
+        break;
+      case 'cancel':
+        this.applyCancel(entry.uid, entry.at);
+        break;
+      case 'remove':
+        this.applyRemove(entry.uid);
+        break;
+      case 'update-occurrence':
+        if (entry.recurrenceId) this.applyOccurrenceUpdate(entry.uid, entry.recurrenceId, entry.occurrence ?? {}, entry.at);
+        break;
+      case 'cancel-occurrence':
+        if (entry.recurrenceId) this.applyOccurrenceCancel(entry.uid, entry.recurrenceId, entry.at);
+        break;
     }
+  }
 
-    return removed;
+  /**
+   * Append a mutation to the journal ahead of applying it. Returns the time
+   * of the change, which becomes the event's last modification.
+   */
+  private record(record: JournalRecord, at = new Date()): Date {
+    if (this.journal && !this.replaying) this.journal.append(record, at);
+    return at;
+  }
+
+  /**
+   * Mirror the current state of one event into the store.
+   */
+  private syncStore(uid: string): void {
+    if (!this.store || this.replaying) return;
+
+    const event = this.getEvent(uid);
+    if (event) {
+      this.store.put(event);
+    } else {
+      this.store.delete(uid);
+    }
   }
 
   private getOrCreateAgentFeed(agentId: string): CalendarManager {
     let feed = this.agentFeeds.get(agentId);
     if (!feed) {
-      const safeName = agentId.replace(/[^a-zA-Z0-9_-]/g, '-');
       feed = new CalendarManager(
-        join(this.directory, `${safeName}.ics`),
-        `OpenClaw — ${agentId}`
+        join(this.directory, `${feedFileName(agentId)}.ics`),
+        `OpenClaw — ${agentId}`,
+        this.calendarOptions,
       );
       this.agentFeeds.set(agentId, feed);
     }
     return feed;
   }
+
+  private getOrCreateProjectFeed(project: string): CalendarManager {
+    let feed = this.projectFeeds.get(project);
+    if (!feed) {
+      feed = new CalendarManager(
+        join(this.directory, PROJECTS_DIR, `${feedFileName(project)}.ics`),
+        `OpenClaw — Project: ${project}`,
+        this.calendarOptions,
+      );
+      this.projectFeeds.set(project, feed);
+    }
+    return feed;
+  }
+
+  /**
+   * Every feed other than the combined one.
+   */
+  private splitFeeds(): CalendarManager[] {
+    return [...this.agentFeeds.values(), ...this.projectFeeds.values()];
+  }
+}
+
+// Source recorded on journal entries written by cleanup()
+const CLEANUP_SOURCE = 'clawcal:cleanup';
+
+// Project and custom feeds live in subdirectories so they can't collide with agent feeds
+const PROJECTS_DIR = 'projects';
+const CUSTOM_DIR = 'custom';
+
+function feedFileName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '-');
 }
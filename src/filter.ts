@@ -0,0 +1,112 @@
+import { CalendarEvent, EventFilter, EventStatus } from './types.js';
+import { expandEvent } from './rrule.js';
+
+const OFFSET_UNITS: Record<string, number> = {
+  h: 3600000,
+  d: 86400000,
+  w: 7 * 86400000,
+};
+
+// Expansion horizon for recurring events when a filter sets only `from`
+const OPEN_WINDOW_MS = 400 * 86400000;
+const MAX_DATE_MS = 8.64e15;
+
+/**
+ * Resolve a window bound: an offset from `now` ('-7d', '+30d', '12h', '2w')
+ * or an ISO 8601 date. Returns null for anything else.
+ */
+export function resolveDate(value: string, now = new Date()): Date | null {
+  const offset = value.trim().match(/^([+-]?)(\d+)([hdw])$/);
+  if (offset) {
+    const amount = Number(offset[2]) * OFFSET_UNITS[offset[3]];
+    return new Date(now.getTime() + (offset[1] === '-' ? -amount : amount));
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Whether an event passes a filter. The date window matches if any
+ * occurrence overlaps it, so a recurring event stays in as long as one of
+ * its instances does.
+ */
+export function matchesFilter(
+  event: CalendarEvent,
+  filter: EventFilter,
+  options: { now?: Date; timeZone?: string } = {},
+): boolean {
+  if (filter.agents?.length && !(event.agent && filter.agents.includes(event.agent))) return false;
+  if (filter.projects?.length && !(event.project && filter.projects.includes(event.project))) return false;
+  if (filter.categories?.length && !(event.category && filter.categories.includes(event.category))) return false;
+  if (filter.statuses?.length && !filter.statuses.includes(event.status || 'PLANNED')) return false;
+  if (filter.cancelled === false && event.status === 'CANCELLED') return false;
+
+  if (filter.from || filter.to) {
+    const now = options.now ?? new Date();
+    // Nothing occurs before the first start
+    const from = (filter.from && resolveDate(filter.from, now)) || event.start;
+    // An open-ended RRULE only needs expanding far enough to reach a yearly occurrence
+    const to = (filter.to && resolveDate(filter.to, now))
+      || new Date(event.rrule ? Math.max(from.getTime(), now.getTime()) + OPEN_WINDOW_MS : MAX_DATE_MS);
+    if (expandEvent(event, from, to, options.timeZone).length === 0) return false;
+  }
+
+  return true;
+}
+
+const STATUSES: EventStatus[] = ['PLANNED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'];
+
+// Query parameters understood by parseFilterQuery
+const FILTER_PARAMS = ['category', 'agent', 'project', 'status', 'from', 'to', 'cancelled'];
+
+/**
+ * Whether a query string carries any filter parameters.
+ */
+export function hasFilterParams(query: URLSearchParams): boolean {
+  return FILTER_PARAMS.some(param => query.has(param));
+}
+
+/**
+ * Build a filter from feed URL parameters, e.g.
+ * `?category=launch,post&project=myapp&from=-7d&to=+30d&cancelled=exclude`.
+ * Lists are comma-separated (or repeated). Returns an error message for
+ * values that can't be understood rather than silently ignoring them.
+ */
+export function parseFilterQuery(query: URLSearchParams): { filter: EventFilter } | { error: string } {
+  const list = (param: string): string[] | undefined => {
+    const values = query.getAll(param).flatMap(v => v.split(',')).map(v => v.trim()).filter(Boolean);
+    return values.length ? values : undefined;
+  };
+
+  const filter: EventFilter = {
+    categories: list('category'),
+    agents: list('agent'),
+    projects: list('project'),
+  };
+
+  const statuses = list('status')?.map(s => s.toUpperCase().replace(/-/g, '_'));
+  if (statuses) {
+    const unknown = statuses.find(s => !STATUSES.includes(s as EventStatus));
+    if (unknown) return { error: `Unknown status "${unknown}"` };
+    filter.statuses = statuses as EventStatus[];
+  }
+
+  for (const bound of ['from', 'to'] as const) {
+    const value = query.get(bound);
+    if (value === null) continue;
+    // A literal '+' in a query string arrives as a space
+    const normalized = value.replace(/^ /, '+');
+    if (!resolveDate(normalized)) return { error: `Invalid ${bound} date "${value}"` };
+    filter[bound] = normalized;
+  }
+
+  const cancelled = query.get('cancelled');
+  if (cancelled !== null) {
+    if (cancelled === 'include' || cancelled === 'true') filter.cancelled = true;
+    else if (cancelled === 'exclude' || cancelled === 'false') filter.cancelled = false;
+    else return { error: `Invalid cancelled value "${cancelled}" (use include or exclude)` };
+  }
+
+  return { filter };
+}
@@ -0,0 +1,232 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { gzipSync, brotliCompressSync, constants as zlibConstants } from 'zlib';
+
+/**
+ * A representation that supports conditional requests. `body` is only
+ * rendered when it's actually sent (not for 304s).
+ */
+export interface CacheableResponse {
+  contentType: string;
+  etag: string;          // quoted entity tag, e.g. '"abc-12"'
+  lastModified?: Date;
+  filename?: string;     // sent as an inline Content-Disposition
+  cacheKey?: string;     // reuse the compressed body while the ETag is unchanged
+  vary?: string[];       // request headers besides Accept-Encoding that pick the representation
+  body: () => string;
+}
+
+type Encoding = 'br' | 'gzip';
+const ENCODINGS: Encoding[] = ['br', 'gzip'];
+
+// Bodies smaller than this go out uncompressed — not worth the CPU
+const MIN_COMPRESS_BYTES = 1024;
+// Compressed bodies by cacheKey + encoding; one entry per feed, oldest evicted first
+const MAX_CACHED_BODIES = 64;
+const compressedCache: Map<string, { etag: string; body: Buffer }> = new Map();
+
+// Calendar apps poll on their own schedule; make any cache revalidate each time
+const CACHE_CONTROL = 'private, max-age=0, must-revalidate';
+
+/**
+ * Send a response with ETag/Last-Modified validators, answering
+ * If-None-Match / If-Modified-Since with 304 and HEAD with headers only.
+ * The body is brotli- or gzip-compressed when the client accepts it.
+ */
+export function serveCacheable(req: IncomingMessage, res: ServerResponse, response: CacheableResponse): void {
+  res.setHeader('Cache-Control', CACHE_CONTROL);
+  res.setHeader('Vary', [...(response.vary || []), 'Accept-Encoding'].join(', '));
+  if (response.lastModified) {
+    res.setHeader('Last-Modified', response.lastModified.toUTCString());
+  }
+
+  const unchanged = notModifiedEtag(req, response);
+  if (unchanged) {
+    res.setHeader('ETag', unchanged);
+    res.statusCode = 304;
+    res.end();
+    return;
+  }
+
+  let encoding = negotiateEncoding(req.headers['accept-encoding']);
+  let body: string | Buffer | undefined = encoding ? cachedBody(response, encoding) : undefined;
+  if (body === undefined) {
+    const text = response.body();
+    if (Buffer.byteLength(text) < MIN_COMPRESS_BYTES) encoding = null;
+    body = encoding ? compress(response, text, encoding) : text;
+  }
+
+  // Each content coding is its own representation, so it gets its own tag
+  res.setHeader('ETag', encoding ? encodedEtag(response.etag, encoding) : response.etag);
+  res.setHeader('Content-Type', response.contentType);
+  if (response.filename) {
+    res.setHeader('Content-Disposition', `inline; filename="${response.filename}"`);
+  }
+  if (encoding) {
+    res.setHeader('Content-Encoding', encoding);
+  }
+  res.setHeader('Content-Length', Buffer.byteLength(body));
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+  res.end(body);
+}
+
+/**
+ * The tag in an If-Match / If-None-Match list that names `etag` in any
+ * content coding, as serveCacheable() sent it. `weak` ignores W/ prefixes,
+ * as If-None-Match does (RFC 9110 §8.8.3.2).
+ */
+export function matchEtag(header: string, etag: string, weak = false): string | undefined {
+  const variants = [etag, ...ENCODINGS.map(encoding => encodedEtag(etag, encoding))];
+  const normalize = (tag: string) => (weak ? stripWeak(tag) : tag);
+  const candidates = header.split(',').map(candidate => normalize(candidate.trim()));
+  return variants.find(variant => candidates.includes(normalize(variant)));
+}
+
+/**
+ * decodeURIComponent for a path segment, with null for a malformed escape
+ * (e.g. `%E0%A4%A`) instead of a thrown URIError.
+ */
+export function safeDecode(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pick brotli or gzip from an Accept-Encoding header, honoring q-values
+ * (q=0 refuses). Brotli wins ties; null means send identity.
+ */
+export function negotiateEncoding(header: string | string[] | undefined): Encoding | null {
+  if (!header) return null;
+
+  const weights = parseWeights(header);
+  const weight = (name: Encoding) => weights.get(name) ?? weights.get('*') ?? 0;
+  const br = weight('br');
+  const gzip = weight('gzip');
+  if (br <= 0 && gzip <= 0) return null;
+  return br >= gzip ? 'br' : 'gzip';
+}
+
+/**
+ * Whether an Accept header asks for jCal (application/calendar+json) over
+ * text/calendar. Only an explicit jCal entry counts — wildcards keep .ics.
+ */
+export function prefersJCal(header: string | string[] | undefined): boolean {
+  if (!header) return false;
+
+  const weights = parseWeights(header);
+  const jcal = weights.get('application/calendar+json') ?? 0;
+  const ics = weights.get('text/calendar') ?? 0;
+  return jcal > 0 && jcal >= ics;
+}
+
+/** Lowercased names from an Accept-style header mapped to their q-values. */
+function parseWeights(header: string | string[]): Map<string, number> {
+  const weights: Map<string, number> = new Map();
+  for (const part of (Array.isArray(header) ? header.join(',') : header).split(',')) {
+    const [name, ...params] = part.trim().toLowerCase().split(';');
+    if (!name) continue;
+    const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+    const weight = q ? Number(q.slice(2)) : 1;
+    weights.set(name.trim(), isNaN(weight) ? 0 : weight);
+  }
+  return weights;
+}
+
+function cachedBody(response: CacheableResponse, encoding: Encoding): Buffer | undefined {
+  if (!response.cacheKey) return undefined;
+  const cached = compressedCache.get(`${response.cacheKey}\n${encoding}`);
+  return cached?.etag === response.etag ? cached.body : undefined;
+}
+
+function compress(response: CacheableResponse, text: string, encoding: Encoding): Buffer {
+  const body = encoding === 'br'
+    ? brotliCompressSync(text, {
+      params: {
+        [zlibConstants.BROTLI_PARAM_MODE]: zlibConstants.BROTLI_MODE_TEXT,
+        [zlibConstants.BROTLI_PARAM_QUALITY]: 9, // near-max ratio at a fraction of quality 11's cost
+        [zlibConstants.BROTLI_PARAM_SIZE_HINT]: Buffer.byteLength(text),
+      },
+    })
+    : gzipSync(text);
+
+  if (response.cacheKey) {
+    const key = `${response.cacheKey}\n${encoding}`;
+    compressedCache.delete(key);
+    compressedCache.set(key, { etag: response.etag, body });
+    if (compressedCache.size > MAX_CACHED_BODIES) {
+      compressedCache.delete(compressedCache.keys().next().value as string);
+    }
+  }
+  return body;
+}
+
+/**
+ * RFC 9110 §13.2.2: If-None-Match takes precedence; If-Modified-Since is
+ * only consulted without it. Compared at one-second resolution, as sent.
+ */
+function notModifiedEtag(req: IncomingMessage, response: CacheableResponse): string | undefined {
+  if (req.method && req.method !== 'GET' && req.method !== 'HEAD') return undefined;
+
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch) {
+    if (ifNoneMatch.trim() === '*') return response.etag;
+    return matchEtag(ifNoneMatch, response.etag, true);
+  }
+
+  const ifModifiedSince = req.headers['if-modified-since'];
+  if (ifModifiedSince && response.lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    if (isNaN(since)) return undefined;
+    const unchanged = Math.floor(response.lastModified.getTime() / 1000) <= Math.floor(since / 1000);
+    return unchanged ? response.etag : undefined;
+  }
+
+  return undefined;
+}
+
+// `"abc-12"` sent gzip-encoded is `"abc-12-gzip"`
+function encodedEtag(etag: string, encoding: Encoding): string {
+  return etag.replace(/"$/, `-${encoding}"`);
+}
+
+// Weak comparison (RFC 9110 §8.8.3.2) is what If-None-Match uses
+function stripWeak(tag: string): string {
+  return tag.startsWith('W/') ? tag.slice(2) : tag;
+}
+
+/**
+ * Send a JSON body with the given status.
+ */
+export function sendJSON(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * Read a request body as UTF-8, rejecting once it exceeds `limitBytes`.
+ */
+export function readBody(req: IncomingMessage, limitBytes = 1024 * 1024): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limitBytes) {
+        reject(new Error(`Request body exceeds ${limitBytes} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks.map(c => new Uint8Array(c))).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
@@ -1,11 +1,23 @@
 import { IncomingMessage, ServerResponse } from 'http';
-import { timingSafeEqual } from 'crypto';
+import { timingSafeEqual, createHash } from 'crypto';
+import { join } from 'path';
 import { FeedManager } from './feed-manager.js';
+import { JsonLinesEventStore } from './store.js';
+import { EventJournal } from './journal.js';
+import { FeedTokenStore } from './tokens.js';
+import { ShareLinkSigner } from './sharing.js';
 import { LocalCalendarPush } from './local-push.js';
 import { registerListeners } from './listener.js';
 import { fromToolCall } from './events.js';
-import { CalendarConfig, ScheduleToolParams } from './types.js';
+import { CalendarConfig, CalendarEvent, ScheduleToolParams } from './types.js';
 import { mergeConfig } from './config.js';
+import { hasFilterParams, parseFilterQuery, matchesFilter, resolveDate } from './filter.js';
+import { CalendarManager } from './calendar.js';
+import { serveCacheable, sendJSON, prefersJCal, safeDecode } from './http.js';
+import { createEventsApi } from './api.js';
+import { createCalDavHandler } from './caldav.js';
+import { toAtom } from './atom.js';
+import { renderAgenda, webcalUrl, AgendaLink, AGENDA_PAST_DAYS, AGENDA_FUTURE_DAYS } from './agenda.js';
 
 /**
  * Minimal plugin API interface — matches OpenClawPluginApi from plugin-sdk.
@@ -31,15 +43,19 @@ interface PluginApi {
   registerHttpRoute(params: { path: string; auth: 'gateway' | 'plugin'; match?: string; handler: (req: IncomingMessage, res: ServerResponse) => void }): void;
   registerTool(tool: any): void;
   registerHook(events: string | string[], handler: (data: any) => void, opts: { name: string; description?: string }): void;
+  emit?(event: string, data: unknown): void; // broadcast a gateway event; absent on older gateways
   resolvePath(input: string): string;
 }
 
 const DEFAULT_CONFIG: CalendarConfig = {
   file: '~/.openclaw/clawcal/agent-calendar.ics',
   file_directory: '~/.openclaw/clawcal/',
+  timezone: 'UTC',
   feeds: {
     combined: true,
     per_agent: true,
+    per_project: false,
+    custom: [],
   },
   localPush: {
     enabled: true,
@@ -75,8 +91,50 @@ const DEFAULT_CONFIG: CalendarConfig = {
     max_past_events: 100,
     retention_days: 90,
   },
+  storage: {
+    backend: 'jsonl',
+    flush_interval_ms: 1000,
+    journal: true,
+    journal_max_entries: 10000,
+  },
+  feed_tokens: {
+    enabled: true,
+  },
+  sharing: {
+    enabled: true,
+    max_days: 90,
+  },
 };
 
+// Feed managers to flush on shutdown, by directory so a re-register replaces its predecessor
+const shutdownFeeds = new Map<string, FeedManager>();
+let shutdownHandlersInstalled = false;
+
+/**
+ * Flush pending writes when the process exits or is told to stop. The
+ * handlers are installed once per process, however often register() runs.
+ */
+function flushOnShutdown(directory: string, feeds: FeedManager): void {
+  const previous = shutdownFeeds.get(directory);
+  if (previous && previous !== feeds) previous.flush();
+  shutdownFeeds.set(directory, feeds);
+  if (shutdownHandlersInstalled) return;
+  shutdownHandlersInstalled = true;
+
+  const flushAll = () => {
+    for (const manager of shutdownFeeds.values()) manager.flush();
+  };
+  process.once('exit', flushAll);
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, () => {
+      flushAll();
+      // Listening replaces the default handler — stop as it would have,
+      // unless the gateway has its own handler to shut down with
+      if (process.listenerCount(signal) === 0) process.kill(process.pid, signal);
+    });
+  }
+}
+
 /**
  * Plugin entry point. Called by OpenClaw when the extension loads.
  */
@@ -86,9 +144,37 @@ export function register(api: PluginApi): FeedManager {
   const directory = api.resolvePath(config.file_directory);
 
   const localPush = new LocalCalendarPush(config.localPush);
-  const feeds = new FeedManager(directory, config.feeds, localPush);
+  const store = config.storage.backend === 'jsonl'
+    ? new JsonLinesEventStore(join(directory, 'events.jsonl'))
+    : undefined;
+  const journal = config.storage.journal
+    ? new EventJournal(join(directory, 'journal.jsonl'))
+    : undefined;
+  const feeds = new FeedManager(directory, config.feeds, localPush, {
+    timezone: config.timezone,
+    flushIntervalMs: config.storage.flush_interval_ms,
+  }, store, journal);
+
+  // Pending writes are coalesced — make sure they land before the process exits
+  flushOnShutdown(directory, feeds);
 
   const authConfig = api.config.gateway?.auth;
+  const tokens = config.feed_tokens.enabled
+    ? new FeedTokenStore(join(directory, 'tokens.json'))
+    : null;
+  const signer = config.sharing.enabled
+    ? new ShareLinkSigner(join(directory, 'share.key'))
+    : null;
+
+  // Feed routes also accept a signed share link or a ?token= scoped to that exact feed
+  const authorizeFeed = (req: IncomingMessage, res: ServerResponse): boolean => {
+    const { pathname, searchParams } = new URL(req.url || '', 'http://localhost');
+    const feed = canonicalFeedPath(pathname);
+    if (signer && searchParams.has('sig') && signer.verify(feed, searchParams)) return true;
+    const token = searchParams.get('token');
+    if (tokens && token && tokens.verify(feed, token)) return true;
+    return checkAuth(req, res, authConfig);
+  };
 
   // Register gateway event listeners
   registerListeners(api, feeds, config);
@@ -101,7 +187,7 @@ export function register(api: PluginApi): FeedManager {
       path: '/clawcal/feed.ics',
       auth: 'plugin',
       handler: (req, res) => {
-        if (!checkAuth(req, res, authConfig)) return;
+        if (!authorizeFeed(req, res)) return;
 
         const combined = feeds.getCombinedFeed();
         if (!combined) {
@@ -109,26 +195,137 @@ export function register(api: PluginApi): FeedManager {
           res.end('Combined feed not enabled');
           return;
         }
-        serveICS(res, combined.toICS(), 'all-agents.ics');
+        serveFeed(req, res, combined, 'all-agents.ics', config.timezone);
+      },
+    });
+
+    // Combined feed as jCal: /clawcal/feed.json
+    api.registerHttpRoute({
+      path: '/clawcal/feed.json',
+      auth: 'plugin',
+      handler: (req, res) => {
+        if (!authorizeFeed(req, res)) return;
+
+        const combined = feeds.getCombinedFeed();
+        if (!combined) {
+          res.statusCode = 404;
+          res.end('Combined feed not enabled');
+          return;
+        }
+        serveFeed(req, res, combined, 'all-agents.ics', config.timezone, 'jcal');
+      },
+    });
+
+    // Combined activity stream: /clawcal/feed.atom
+    api.registerHttpRoute({
+      path: '/clawcal/feed.atom',
+      auth: 'plugin',
+      handler: (req, res) => {
+        if (!authorizeFeed(req, res)) return;
+
+        const combined = feeds.getCombinedFeed();
+        if (!combined) {
+          res.statusCode = 404;
+          res.end('Combined feed not enabled');
+          return;
+        }
+        serveFeed(req, res, combined, 'all-agents.ics', config.timezone, 'atom');
       },
     });
   }
 
-  // Per-agent feeds + feed listing
-  if (config.feeds.per_agent) {
-    // /clawcal/feed/<agentId>.ics
+  const customFeeds = config.feeds.custom || [];
+
+  // Per-agent and custom feeds
+  if (config.feeds.per_agent || customFeeds.length > 0) {
+    // /clawcal/feed/<agentId>.ics, /clawcal/feed/custom/<slug>.ics (or .atom)
     api.registerHttpRoute({
       path: '/clawcal/feed',
       auth: 'plugin',
       match: 'prefix',
       handler: (req, res) => {
-        const url = req.url || '';
-        const agentMatch = url.match(/^\/clawcal\/feed\/([^/]+)\.ics$/);
+        // Query strings carry filters — match on the path alone
+        const url = (req.url || '').split('?')[0];
+
+        const customMatch = url.match(/^\/clawcal\/feed\/custom\/([^/]+)\.(ics|atom)$/);
+        if (customMatch) {
+          if (!authorizeFeed(req, res)) return;
+
+          const slug = safeDecode(customMatch[1]);
+          if (slug === null) return malformedPath(res);
+          const customFeed = feeds.getCustomFeed(slug);
+          if (!customFeed) {
+            res.statusCode = 404;
+            res.end(`No custom feed "${slug}"`);
+            return;
+          }
+
+          serveFeed(req, res, customFeed, `${slug}.ics`, config.timezone, feedFormat(customMatch[2]));
+          return;
+        }
+
+        const agentMatch = config.feeds.per_agent && url.match(/^\/clawcal\/feed\/([^/]+)\.(ics|atom)$/);
         if (!agentMatch) return;
 
-        if (!checkAuth(req, res, authConfig)) return;
+        if (!authorizeFeed(req, res)) return;
+
+        const agentId = safeDecode(agentMatch[1]);
+        if (agentId === null) return malformedPath(res);
+        const agentFeed = feeds.getAgentFeed(agentId);
+        if (!agentFeed) {
+          res.statusCode = 404;
+          res.end(`No feed found for agent "${agentId}"`);
+          return;
+        }
+
+        serveFeed(req, res, agentFeed, `${agentId}.ics`, config.timezone, feedFormat(agentMatch[2]));
+      },
+    });
+  }
+
+  // /clawcal/project/<name>.ics (or .atom)
+  if (config.feeds.per_project) {
+    api.registerHttpRoute({
+      path: '/clawcal/project',
+      auth: 'plugin',
+      match: 'prefix',
+      handler: (req, res) => {
+        // Query strings carry filters — match on the path alone
+        const url = (req.url || '').split('?')[0];
+        const projectMatch = url.match(/^\/clawcal\/project\/([^/]+)\.(ics|atom)$/);
+        if (!projectMatch) return;
+
+        if (!authorizeFeed(req, res)) return;
 
-        const agentId = decodeURIComponent(agentMatch[1]);
+        const project = safeDecode(projectMatch[1]);
+        if (project === null) return malformedPath(res);
+        const projectFeed = feeds.getProjectFeed(project);
+        if (!projectFeed) {
+          res.statusCode = 404;
+          res.end(`No feed found for project "${project}"`);
+          return;
+        }
+
+        serveFeed(req, res, projectFeed, `${project}.ics`, config.timezone, feedFormat(projectMatch[2]));
+      },
+    });
+  }
+
+  // Free/busy per agent: /clawcal/freebusy/<agentId>.ifb (or .json)
+  if (config.feeds.per_agent) {
+    api.registerHttpRoute({
+      path: '/clawcal/freebusy',
+      auth: 'plugin',
+      match: 'prefix',
+      handler: (req, res) => {
+        const { pathname, searchParams } = new URL(req.url || '', 'http://localhost');
+        const freeBusyMatch = pathname.match(/^\/clawcal\/freebusy\/([^/]+)\.(ifb|json)$/);
+        if (!freeBusyMatch) return;
+
+        if (!authorizeFeed(req, res)) return;
+
+        const agentId = safeDecode(freeBusyMatch[1]);
+        if (agentId === null) return malformedPath(res);
         const agentFeed = feeds.getAgentFeed(agentId);
         if (!agentFeed) {
           res.statusCode = 404;
@@ -136,23 +333,57 @@ export function register(api: PluginApi): FeedManager {
           return;
         }
 
-        serveICS(res, agentFeed.toICS(), `${agentId}.ics`);
+        const range = parseFreeBusyRange(searchParams);
+        if ('error' in range) {
+          res.statusCode = 400;
+          res.end(range.error);
+          return;
+        }
+
+        if (freeBusyMatch[2] === 'json') {
+          sendJSON(res, 200, {
+            agent: agentId,
+            from: range.from,
+            to: range.to,
+            busy: agentFeed.getFreeBusy(range.from, range.to),
+          });
+          return;
+        }
+
+        res.statusCode = 200;
+        res.setHeader('Content-Type', FEED_FORMATS.ics.contentType);
+        res.setHeader('Content-Disposition', `inline; filename="${agentId}.ifb"`);
+        res.end(agentFeed.toFreeBusy(range.from, range.to));
       },
     });
+  }
 
-    // /clawcal/feeds
+  // /clawcal/feeds
+  if (config.feeds.per_agent || config.feeds.per_project || customFeeds.length > 0) {
     api.registerHttpRoute({
       path: '/clawcal/feeds',
       auth: 'plugin',
       handler: (req, res) => {
         if (!checkAuth(req, res, authConfig)) return;
 
-        const agents = feeds.getAgentIds();
         const response = {
           combined: config.feeds.combined ? '/clawcal/feed.ics' : null,
-          agents: agents.map(id => ({
+          agents: feeds.getAgentIds().map(id => ({
             id,
-            url: `/clawcal/feed/${id}.ics`,
+            url: `/clawcal/feed/${encodeURIComponent(id)}.ics`,
+            atom: `/clawcal/feed/${encodeURIComponent(id)}.atom`,
+            freebusy: `/clawcal/freebusy/${encodeURIComponent(id)}.ifb`,
+          })),
+          projects: feeds.getProjectNames().map(name => ({
+            name,
+            url: `/clawcal/project/${encodeURIComponent(name)}.ics`,
+            atom: `/clawcal/project/${encodeURIComponent(name)}.atom`,
+          })),
+          custom: feeds.getCustomFeeds().map(feed => ({
+            slug: feed.slug,
+            name: feed.name,
+            url: `/clawcal/feed/custom/${encodeURIComponent(feed.slug)}.ics`,
+            atom: `/clawcal/feed/custom/${encodeURIComponent(feed.slug)}.atom`,
           })),
         };
         res.setHeader('Content-Type', 'application/json');
@@ -161,6 +392,84 @@ export function register(api: PluginApi): FeedManager {
     });
   }
 
+  // JSON REST API: /clawcal/api/events (see api.ts)
+  const eventsApi = createEventsApi(feeds, { defaults: config.defaults, timeZone: config.timezone });
+  api.registerHttpRoute({
+    path: '/clawcal/api/events',
+    auth: 'plugin',
+    match: 'prefix',
+    handler: async (req, res) => {
+      if (!checkAuth(req, res, authConfig)) return;
+      await eventsApi(req, res);
+    },
+  });
+
+  // CalDAV: /clawcal/dav/ (see caldav.ts) — Basic auth with the gateway token as password.
+  // Edits made in calendar apps are announced as clawcal:event:* so agents can follow.
+  const calDav = createCalDavHandler(feeds, {
+    timeZone: config.timezone,
+    emit: (event, change) => api.emit?.(event, change),
+  });
+  api.registerHttpRoute({
+    path: '/clawcal/dav',
+    auth: 'plugin',
+    match: 'prefix',
+    handler: async (req, res) => {
+      const url = (req.url || '').split('?')[0];
+      if (!/^\/clawcal\/dav(\/|$)/.test(url)) return;
+
+      if (!checkAuth(req, res, authConfig)) return;
+      await calDav(req, res);
+    },
+  });
+
+  // HTML agenda: /clawcal/agenda, /clawcal/agenda/<agentId>
+  api.registerHttpRoute({
+    path: '/clawcal/agenda',
+    auth: 'plugin',
+    match: 'prefix',
+    handler: (req, res) => {
+      const url = (req.url || '').split('?')[0];
+      const agendaMatch = url.match(/^\/clawcal\/agenda(?:\/([^/]+))?\/?$/);
+      if (!agendaMatch) return;
+
+      if (!checkAuth(req, res, authConfig)) return;
+
+      const agentId = agendaMatch[1] ? safeDecode(agendaMatch[1]) : undefined;
+      if (agentId === null) return malformedPath(res);
+      const agents = Array.from(new Set(feeds.getAllEvents().map(e => e.agent).filter((a): a is string => !!a))).sort();
+      if (agentId && !agents.includes(agentId)) {
+        res.statusCode = 404;
+        res.end(`No events for agent "${agentId}"`);
+        return;
+      }
+
+      const now = new Date();
+      const from = new Date(now.getTime() - AGENDA_PAST_DAYS * 86400000);
+      const to = new Date(now.getTime() + AGENDA_FUTURE_DAYS * 86400000);
+      const occurrences = feeds.getOccurrences(from, to).filter(o => !agentId || o.agent === agentId);
+
+      const host = req.headers.host || 'localhost';
+      const subscribe = agendaFeedPaths(feeds, agentId)
+        .map(({ label, url: path }) => ({ label, url: webcalUrl(host, path) }));
+      const links: AgendaLink[] = agentId
+        ? [{ label: '← All agents', url: '/clawcal/agenda' }]
+        : agents.map(id => ({ label: id, url: `/clawcal/agenda/${encodeURIComponent(id)}` }));
+
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      // Nothing but inline styles — no scripts, frames or remote loads
+      res.setHeader('Content-Security-Policy', "default-src 'none'; style-src 'unsafe-inline'");
+      res.end(renderAgenda(occurrences, {
+        title: agentId ? `ClawCal — ${agentId}` : 'ClawCal — All Agents',
+        now,
+        timeZone: config.timezone,
+        subscribe,
+        links,
+      }));
+    },
+  });
+
   // Config inspection route
   api.registerHttpRoute({
     path: '/clawcal/config',
@@ -172,6 +481,123 @@ export function register(api: PluginApi): FeedManager {
     },
   });
 
+  // Rebuild every feed: POST /clawcal/rebuild (gateway auth only) — replays the
+  // journal, or re-renders from the event store when the journal is off
+  if (journal || store) {
+    api.registerHttpRoute({
+      path: '/clawcal/rebuild',
+      auth: 'plugin',
+      handler: (req, res) => {
+        if (!checkAuth(req, res, authConfig)) return;
+
+        if (req.method !== 'POST') {
+          res.statusCode = 405;
+          res.setHeader('Allow', 'POST');
+          res.end('Method not allowed');
+          return;
+        }
+
+        if (journal) {
+          sendJSON(res, 200, { source: 'journal', replayed: feeds.replayJournal(), events: feeds.getAllEvents().length });
+          return;
+        }
+        feeds.rebuild();
+        sendJSON(res, 200, { source: 'store', events: feeds.getAllEvents().length });
+      },
+    });
+  }
+
+  // Feed token admin: /clawcal/tokens (gateway auth only — a feed token never unlocks this)
+  //   GET    /clawcal/tokens[?feed=<path>]         list tokens (no secrets)
+  //   POST   /clawcal/tokens?feed=<path>&label=    issue an additional token
+  //   POST   /clawcal/tokens/rotate?feed=<path>    revoke the feed's tokens, issue a new one
+  //   DELETE /clawcal/tokens/<id>                  revoke one token
+  if (tokens) {
+    api.registerHttpRoute({
+      path: '/clawcal/tokens',
+      auth: 'plugin',
+      match: 'prefix',
+      handler: (req, res) => {
+        const { pathname, searchParams } = new URL(req.url || '', 'http://localhost');
+        if (!/^\/clawcal\/tokens(\/|$)/.test(pathname)) return;
+
+        if (!checkAuth(req, res, authConfig)) return;
+
+        const method = req.method || 'GET';
+        const feedParam = searchParams.get('feed');
+        const feed = feedParam ? canonicalFeedPath(feedParam) : undefined;
+        const label = searchParams.get('label') || undefined;
+        const revokeMatch = pathname.match(/^\/clawcal\/tokens\/([^/]+)$/);
+
+        if (method === 'GET' && pathname === '/clawcal/tokens') {
+          sendJSON(res, 200, { tokens: tokens.list(feed) });
+          return;
+        }
+
+        if (method === 'POST' && (pathname === '/clawcal/tokens' || pathname === '/clawcal/tokens/rotate')) {
+          if (!feed || !FEED_PATH.test(feed)) {
+            sendJSON(res, 400, { error: 'feed must be a feed path, e.g. /clawcal/feed/dev-agent.ics' });
+            return;
+          }
+          const issued = pathname === '/clawcal/tokens/rotate'
+            ? tokens.rotate(feed, label)
+            : tokens.issue(feed, label);
+          // The secret is only ever shown here
+          sendJSON(res, 201, { ...issued.info, token: issued.token, url: `${feed}?token=${issued.token}` });
+          return;
+        }
+
+        if (method === 'DELETE' && revokeMatch && revokeMatch[1] !== 'rotate') {
+          const id = safeDecode(revokeMatch[1]);
+          if (id === null) return malformedPath(res);
+          if (!tokens.revoke(id)) {
+            sendJSON(res, 404, { error: `No token "${id}"` });
+            return;
+          }
+          sendJSON(res, 200, { revoked: id });
+          return;
+        }
+
+        res.statusCode = 405;
+        res.end('Method not allowed');
+      },
+    });
+  }
+
+  // Share links: POST /clawcal/share?feed=<path>&days=14 (gateway auth only)
+  if (signer) {
+    api.registerHttpRoute({
+      path: '/clawcal/share',
+      auth: 'plugin',
+      handler: (req, res) => {
+        if (!checkAuth(req, res, authConfig)) return;
+
+        if (req.method !== 'POST') {
+          res.statusCode = 405;
+          res.end('Method not allowed');
+          return;
+        }
+
+        const { searchParams } = new URL(req.url || '', 'http://localhost');
+        const feedParam = searchParams.get('feed');
+        const feed = feedParam ? canonicalFeedPath(feedParam) : undefined;
+        if (!feed || !FEED_PATH.test(feed)) {
+          sendJSON(res, 400, { error: 'feed must be a feed path, e.g. /clawcal/feed/dev-agent.ics' });
+          return;
+        }
+
+        const days = Number(searchParams.get('days') ?? 7);
+        if (!(days > 0 && days <= config.sharing.max_days)) {
+          sendJSON(res, 400, { error: `days must be greater than 0 and at most ${config.sharing.max_days}` });
+          return;
+        }
+
+        const expiresAt = new Date(Date.now() + days * 86400000);
+        sendJSON(res, 201, { feed, expiresAt: expiresAt.toISOString(), url: `${feed}?${signer.sign(feed, expiresAt)}` });
+      },
+    });
+  }
+
   // Register the clawcal_schedule tool for agents
   api.registerTool({
     name: 'clawcal_schedule',
@@ -190,12 +616,13 @@ export function register(api: PluginApi): FeedManager {
         project: { type: 'string', description: 'Project or workspace name' },
         url: { type: 'string', description: 'URL to attach to the event (opens in calendar app)' },
         alertMinutes: { type: 'number', description: 'Alert N minutes before event (overrides category default)' },
+        timezone: { type: 'string', description: 'IANA time zone for the event (e.g. "America/Los_Angeles"). Defaults to the configured zone.' },
       },
       required: ['title', 'date', 'agent'],
     },
     async execute(_toolCallId: string, params: ScheduleToolParams) {
       const event = fromToolCall(params, config.defaults);
-      feeds.addEvent(event);
+      feeds.addEvent(event, 'clawcal_schedule');
       return {
         content: [{ type: 'text' as const, text: JSON.stringify({ success: true, uid: event.uid, message: `Added "${event.title}" to calendar` }) }],
       };
@@ -205,6 +632,7 @@ export function register(api: PluginApi): FeedManager {
   // Run cleanup periodically (every hour)
   setInterval(() => {
     feeds.cleanup(config.cleanup.retention_days, config.cleanup.max_past_events);
+    feeds.compactJournal(config.storage.journal_max_entries);
   }, 3600000);
 
   return feeds;
@@ -327,12 +755,149 @@ function safeEqual(a: string, b: string): boolean {
   return timingSafeEqual(bufA, bufB);
 }
 
-function serveICS(res: ServerResponse, ics: string, filename: string): void {
-  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
-  res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
-  res.end(ics);
+/**
+ * Feeds offered as subscribe buttons on an agenda page: the agent's own feed,
+ * or on the overview every feed that's enabled.
+ */
+function agendaFeedPaths(feeds: FeedManager, agentId?: string): AgendaLink[] {
+  if (agentId) {
+    return feeds.getAgentFeed(agentId)
+      ? [{ label: agentId, url: `/clawcal/feed/${encodeURIComponent(agentId)}.ics` }]
+      : [];
+  }
+
+  const paths: AgendaLink[] = [];
+  if (feeds.getCombinedFeed()) paths.push({ label: 'All agents', url: '/clawcal/feed.ics' });
+  for (const id of feeds.getAgentIds()) {
+    paths.push({ label: id, url: `/clawcal/feed/${encodeURIComponent(id)}.ics` });
+  }
+  for (const name of feeds.getProjectNames()) {
+    paths.push({ label: `Project: ${name}`, url: `/clawcal/project/${encodeURIComponent(name)}.ics` });
+  }
+  for (const feed of feeds.getCustomFeeds()) {
+    paths.push({ label: feed.name, url: `/clawcal/feed/custom/${feed.slug}.ics` });
+  }
+  return paths;
 }
 
+// Paths a feed token can be scoped to
+const FEED_PATH = /^\/clawcal\/(feed\.(ics|json|atom)|feed\/custom\/[^/]+\.(ics|atom)|feed\/[^/]+\.(ics|atom)|project\/[^/]+\.(ics|atom)|freebusy\/[^/]+\.(ifb|json))$/;
+
+/**
+ * One spelling per feed path, so token and share-link scopes match however
+ * the path was escaped: `?feed=/clawcal/project/My App.ics` and a request for
+ * `/clawcal/project/My%20App.ics` both become the latter. Each segment is
+ * decoded and re-encoded; malformed escapes are kept as they are.
+ */
+function canonicalFeedPath(path: string): string {
+  return path.split('/').map(segment => {
+    const decoded = safeDecode(segment);
+    return decoded === null ? segment : encodeURIComponent(decoded);
+  }).join('/');
+}
+
+function malformedPath(res: ServerResponse): void {
+  res.statusCode = 400;
+  res.end('Malformed escape in path');
+}
+
+// Free/busy range: `from`/`to` default to the next week, at most a year apart
+const FREEBUSY_DEFAULT_DAYS = 7;
+const FREEBUSY_MAX_DAYS = 366;
+
+/**
+ * Read the free/busy window from `from` and `to` — offsets ('+7d') or ISO
+ * dates, as in feed filters.
+ */
+function parseFreeBusyRange(query: URLSearchParams, now = new Date()): { from: Date; to: Date } | { error: string } {
+  const fromParam = query.get('from');
+  const toParam = query.get('to');
+  const from = fromParam ? resolveDate(fromParam, now) : now;
+  if (!from) return { error: `Invalid from "${fromParam}"` };
+  const to = toParam ? resolveDate(toParam, now) : new Date(from.getTime() + FREEBUSY_DEFAULT_DAYS * 86400000);
+  if (!to) return { error: `Invalid to "${toParam}"` };
+
+  if (to.getTime() <= from.getTime()) return { error: 'to must be after from' };
+  if (to.getTime() - from.getTime() > FREEBUSY_MAX_DAYS * 86400000) {
+    return { error: `Range can't exceed ${FREEBUSY_MAX_DAYS} days` };
+  }
+  return { from, to };
+}
+
+type FeedFormat = 'ics' | 'jcal' | 'atom';
+
+const FEED_FORMATS: Record<FeedFormat, { contentType: string; extension: string }> = {
+  ics: { contentType: 'text/calendar; charset=utf-8', extension: '.ics' },
+  jcal: { contentType: 'application/calendar+json; charset=utf-8', extension: '.json' },
+  atom: { contentType: 'application/atom+xml; charset=utf-8', extension: '.atom' },
+};
+
+/** Format for a route's file extension; .ics leaves it to Accept negotiation. */
+function feedFormat(extension: string): FeedFormat | undefined {
+  return extension === 'atom' ? 'atom' : undefined;
+}
+
+/**
+ * Serve a feed, filtered on the fly when the URL carries filter parameters
+ * (see parseFilterQuery) — otherwise the whole feed. Supports conditional
+ * GET and HEAD. Without a fixed `format`, `Accept: application/calendar+json`
+ * selects jCal over .ics. Atom renders the feed's events as an activity stream.
+ */
+function serveFeed(req: IncomingMessage, res: ServerResponse, calendar: CalendarManager, filename: string, timeZone?: string, format?: FeedFormat): void {
+  const { pathname, searchParams: query } = new URL(req.url || '', 'http://localhost');
+  const negotiated = format === undefined;
+  const resolved = format ?? (prefersJCal(req.headers.accept) ? 'jcal' : 'ics');
+  const { contentType, extension } = FEED_FORMATS[resolved];
+  const representation = {
+    contentType,
+    filename: filename.replace(/\.ics$/, extension),
+    ...(negotiated ? { vary: ['Accept'] } : {}),
+  };
+  const render = (include?: (event: CalendarEvent) => boolean): string => {
+    switch (resolved) {
+      case 'jcal':
+        return JSON.stringify(calendar.toJCal(include));
+      case 'atom':
+        return toAtom(include ? calendar.getAllEvents().filter(include) : calendar.getAllEvents(), {
+          title: calendar.getName(),
+          id: `urn:clawcal:feed:${pathname}`,
+          selfUrl: pathname,
+          updated: calendar.getLastModified(),
+          timeZone,
+        });
+      default:
+        return calendar.toICS(include);
+    }
+  };
+
+  if (!hasFilterParams(query)) {
+    serveCacheable(req, res, {
+      ...representation,
+      etag: `"${calendar.getVersionTag()}${resolved === 'ics' ? '' : `-${resolved}`}"`,
+      lastModified: calendar.getLastModified(),
+      cacheKey: `${pathname}#${resolved}`,
+      body: () => render(),
+    });
+    return;
+  }
+
+  const parsed = parseFilterQuery(query);
+  if ('error' in parsed) {
+    res.statusCode = 400;
+    res.end(parsed.error);
+    return;
+  }
+
+  // Relative windows change with the clock, so a filtered view is tagged by
+  // its content rather than the feed version, and has no Last-Modified
+  const now = new Date();
+  const body = render(event => matchesFilter(event, parsed.filter, { now, timeZone }));
+  serveCacheable(req, res, {
+    ...representation,
+    etag: `"${createHash('sha1').update(body).digest('base64url')}"`,
+    body: () => body,
+  });
+}
 
 export { CalendarManager } from './calendar.js';
 export { FeedManager } from './feed-manager.js';
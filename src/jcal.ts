@@ -0,0 +1,171 @@
+import { splitContentLine, unescapeICS } from './calendar.js';
+
+/**
+ * jCal (RFC 7265) structures: a component is `[name, properties, components]`
+ * and a property is `[name, parameters, type, ...values]`, all names lowercase.
+ */
+export type JCalValue = string | number | boolean | Record<string, string | number | Array<string | number>>;
+export type JCalProperty = [string, Record<string, string>, string, ...JCalValue[]];
+export type JCalComponent = [string, JCalProperty[], JCalComponent[]];
+
+// Value type of each property ClawCal emits that isn't plain text
+const PROPERTY_TYPES: Record<string, string> = {
+  DTSTAMP: 'date-time',
+  DTSTART: 'date-time',
+  DTEND: 'date-time',
+  'RECURRENCE-ID': 'date-time',
+  RDATE: 'date-time',
+  EXDATE: 'date-time',
+  'LAST-MODIFIED': 'date-time',
+  CREATED: 'date-time',
+  DURATION: 'duration',
+  TRIGGER: 'duration',
+  RRULE: 'recur',
+  SEQUENCE: 'integer',
+  PRIORITY: 'integer',
+  URL: 'uri',
+  TZURL: 'uri',
+  TZOFFSETFROM: 'utc-offset',
+  TZOFFSETTO: 'utc-offset',
+};
+
+// Properties whose text value is a comma-separated list
+const MULTI_VALUED = new Set(['CATEGORIES', 'RESOURCES']);
+
+// RRULE parts rendered as numbers rather than strings
+const NUMERIC_RECUR_PARTS = new Set([
+  'COUNT', 'INTERVAL', 'BYSECOND', 'BYMINUTE', 'BYHOUR',
+  'BYMONTHDAY', 'BYYEARDAY', 'BYWEEKNO', 'BYMONTH', 'BYSETPOS',
+]);
+
+/**
+ * Convert .ics text into jCal. Works on the rendered feed rather than the
+ * events so the JSON always carries exactly what the .ics does — VTIMEZONE,
+ * VALARM, overridden occurrences and the X-OPENCLAW properties included.
+ */
+export function icsToJCal(ics: string): JCalComponent {
+  const lines = ics.replace(/\r\n[ \t]/g, '').split(/\r?\n/).filter(line => line.length > 0);
+  const stack: JCalComponent[] = [];
+  let root: JCalComponent | null = null;
+
+  for (const line of lines) {
+    const parsed = splitContentLine(line);
+    if (!parsed) continue;
+    const name = parsed.key.toUpperCase();
+
+    if (name === 'BEGIN') {
+      const component: JCalComponent = [parsed.value.toLowerCase(), [], []];
+      if (stack.length > 0) stack[stack.length - 1][2].push(component);
+      else root = component;
+      stack.push(component);
+      continue;
+    }
+
+    if (name === 'END') {
+      stack.pop();
+      continue;
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1][1].push(toJCalProperty(name, parsed.params, parsed.value));
+    }
+  }
+
+  if (!root) throw new Error('Not an iCalendar object');
+  return root;
+}
+
+function toJCalProperty(name: string, params: Record<string, string>, raw: string): JCalProperty {
+  const { VALUE: valueParam, ...rest } = params;
+  const jcalParams: Record<string, string> = {};
+  for (const [key, value] of Object.entries(rest)) {
+    jcalParams[key.toLowerCase()] = value;
+  }
+
+  const type = valueParam ? valueParam.toLowerCase() : (PROPERTY_TYPES[name] ?? 'text');
+  return [name.toLowerCase(), jcalParams, type, ...parseValues(name, type, raw)];
+}
+
+function parseValues(name: string, type: string, raw: string): JCalValue[] {
+  switch (type) {
+    case 'date':
+      return raw.split(',').map(formatDate);
+    case 'date-time':
+      return raw.split(',').map(formatDateTime);
+    case 'recur':
+      return [parseRecur(raw)];
+    case 'integer':
+      return [parseInt(raw, 10)];
+    case 'utc-offset':
+      return [formatUTCOffset(raw)];
+    case 'boolean':
+      return [raw.toUpperCase() === 'TRUE'];
+    case 'text':
+      return MULTI_VALUED.has(name) ? splitText(raw).map(unescapeICS) : [unescapeICS(raw)];
+    default:
+      // duration, uri, unknown — same lexical form as in .ics
+      return [raw];
+  }
+}
+
+/** Split on commas that aren't escaped (`\,`). */
+function splitText(raw: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] === '\\' && i + 1 < raw.length) {
+      current += raw[i] + raw[i + 1];
+      i++;
+    } else if (raw[i] === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += raw[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/** `20250225` → `2025-02-25` */
+function formatDate(value: string): string {
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+}
+
+/** `20250225T090000Z` → `2025-02-25T09:00:00Z`; floating/TZID times keep no suffix. */
+function formatDateTime(value: string): string {
+  if (!value.includes('T')) return formatDate(value);
+  const [date, time] = value.split('T');
+  return `${formatDate(date)}T${time.slice(0, 2)}:${time.slice(2, 4)}:${time.slice(4)}`;
+}
+
+/** `-0500` → `-05:00` */
+function formatUTCOffset(value: string): string {
+  const seconds = value.length > 5 ? `:${value.slice(5, 7)}` : '';
+  return `${value.slice(0, 3)}:${value.slice(3, 5)}${seconds}`;
+}
+
+/**
+ * RRULE as a jCal recur object: lowercase part names, numbers for numeric
+ * parts, arrays for multi-valued BY* parts and a jCal-formatted UNTIL.
+ */
+function parseRecur(raw: string): Record<string, string | number | Array<string | number>> {
+  const recur: Record<string, string | number | Array<string | number>> = {};
+
+  for (const part of raw.split(';')) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    const key = part.substring(0, eq).toUpperCase();
+    const value = part.substring(eq + 1);
+
+    if (key === 'UNTIL') {
+      recur.until = formatDateTime(value);
+      continue;
+    }
+
+    const items: Array<string | number> = value.split(',').map(item => NUMERIC_RECUR_PARTS.has(key) ? parseInt(item, 10) : item);
+    recur[key.toLowerCase()] = items.length === 1 ? items[0] : items;
+  }
+
+  return recur;
+}
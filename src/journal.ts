@@ -0,0 +1,165 @@
+import { writeFileSync, existsSync, mkdirSync, openSync, writeSync, fsyncSync, closeSync, renameSync } from 'fs';
+import { dirname } from 'path';
+import { CalendarEvent, OccurrenceOverride } from './types.js';
+import { readJsonLines, reviveEvent, reviveEventFields } from './store.js';
+
+export type JournalOp = 'add' | 'update' | 'cancel' | 'remove' | 'update-occurrence' | 'cancel-occurrence';
+
+/**
+ * One mutation as it flowed through FeedManager, with the hook that caused it.
+ */
+export interface JournalEntry {
+  seq: number;
+  at: Date;
+  op: JournalOp;
+  uid: string;
+  source?: string;                  // hook name, e.g. 'clawcal:cron-register'
+  event?: CalendarEvent;            // add
+  updates?: Partial<CalendarEvent>; // update
+  recurrenceId?: Date;              // update-occurrence, cancel-occurrence
+  occurrence?: Partial<Omit<OccurrenceOverride, 'recurrenceId'>>; // update-occurrence
+}
+
+export type JournalRecord = Omit<JournalEntry, 'seq' | 'at'>;
+
+// Source recorded on the snapshot entries written by compact()
+const COMPACTION_SOURCE = 'clawcal:compaction';
+
+/**
+ * Append-only write-ahead journal (JSON lines). Each entry is fsynced before
+ * the mutation is applied, so the journal is always at least as current as
+ * the feeds — replaying it from the top rebuilds them from scratch.
+ */
+export class EventJournal {
+  private filePath: string;
+  private fd: number | null = null;
+  private nextSeq = 1;
+  private entries = 0;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    const dir = dirname(filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const existing = this.read();
+    this.entries = existing.length;
+    if (existing.length > 0) this.nextSeq = existing[existing.length - 1].seq + 1;
+  }
+
+  /** Number of entries in the journal. */
+  get size(): number {
+    return this.entries;
+  }
+
+  append(record: JournalRecord, at = new Date()): JournalEntry {
+    const entry: JournalEntry = { seq: this.nextSeq++, at, ...record };
+
+    if (this.fd === null) this.fd = openSync(this.filePath, 'a');
+    writeSync(this.fd, `${serializeEntry(entry)}\n`);
+    fsyncSync(this.fd);
+
+    this.entries++;
+    return entry;
+  }
+
+  read(): JournalEntry[] {
+    return readJsonLines(this.filePath)
+      .map(parseEntry)
+      .filter((entry): entry is JournalEntry => entry !== null);
+  }
+
+  /**
+   * Replace the history with one `add` per live event. Replaying the
+   * compacted journal yields the same feeds.
+   */
+  compact(events: CalendarEvent[], at = new Date()): void {
+    const lines = events.map(event => serializeEntry({
+      seq: this.nextSeq++,
+      at,
+      op: 'add',
+      uid: event.uid,
+      source: COMPACTION_SOURCE,
+      event,
+    }));
+
+    this.close();
+    const tempPath = `${this.filePath}.tmp`;
+    const fd = openSync(tempPath, 'w');
+    try {
+      writeFileSync(fd, lines.length ? `${lines.join('\n')}\n` : '', 'utf-8');
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tempPath, this.filePath);
+
+    this.entries = lines.length;
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+}
+
+/**
+ * JSON drops `undefined`, but an update that clears a field (e.g. `allDay`
+ * after a cron reschedule) must replay the same way — write it as null.
+ */
+function serializeEntry(entry: JournalEntry): string {
+  return JSON.stringify(entry, (key, value) => value === undefined && key !== '' ? null : value);
+}
+
+const JOURNAL_OPS: JournalOp[] = ['add', 'update', 'cancel', 'remove', 'update-occurrence', 'cancel-occurrence'];
+
+/** A parsed journal line, or null when it isn't an entry this version understands. */
+function parseEntry(raw: unknown): JournalEntry | null {
+  if (!isObject(raw)) return null;
+  const { seq, at, op, uid, source, event, updates, recurrenceId, occurrence } = raw;
+  if (typeof seq !== 'number' || typeof uid !== 'string' || !JOURNAL_OPS.includes(op as JournalOp)) return null;
+
+  return {
+    seq,
+    at: new Date(at as string),
+    op: op as JournalOp,
+    uid,
+    source: typeof source === 'string' ? source : undefined,
+    event: isObject(event) ? reviveEvent(stripNulls(event) as unknown as CalendarEvent) : undefined,
+    updates: isObject(updates) ? reviveEventFields(nullsToUndefined(updates) as Partial<CalendarEvent>) : undefined,
+    recurrenceId: typeof recurrenceId === 'string' ? new Date(recurrenceId) : undefined,
+    occurrence: isObject(occurrence) ? reviveOccurrence(stripNulls(occurrence) as Partial<OccurrenceOverride>) : undefined,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Keep explicit clears: `null` becomes an own `undefined` property. */
+function nullsToUndefined<T extends object>(obj: T): T {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    result[key] = value === null ? undefined : value;
+  }
+  return result as T;
+}
+
+function stripNulls<T extends object>(obj: T): T {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    if (value !== null) result[key] = value;
+  }
+  return result as T;
+}
+
+function reviveOccurrence(raw: Partial<OccurrenceOverride>): Partial<Omit<OccurrenceOverride, 'recurrenceId'>> {
+  return {
+    ...raw,
+    start: raw.start ? new Date(raw.start) : undefined,
+    end: raw.end ? new Date(raw.end) : undefined,
+  };
+}
@@ -1,5 +1,7 @@
-import { fromScheduleEvent, fromTaskCompleteEvent, fromCronEvent, createCheckinEvents, buildDailyTaskAggregate } from './events.js';
-import { CalendarConfig, CalendarEvent, GatewayScheduleEvent, GatewayTaskCompleteEvent, GatewayCronEvent, GatewayScheduleUpdateEvent, GatewayScheduleCancelEvent } from './types.js';
+import { fromScheduleEvent, fromTaskCompleteEvent, fromCronEvent, fromCronRunEvent, CronRunOutcome, endCronSeries, rescheduleCronEvent, createCheckinEvents, buildDailyTaskAggregate, isHighFrequencyCron } from './events.js';
+import { CalendarConfig, CalendarEvent, OccurrenceOverride, GatewayScheduleEvent, GatewayTaskCompleteEvent, GatewayCronEvent, GatewayCronRunEvent, GatewayCronUnregisterEvent, GatewayScheduleUpdateEvent, GatewayScheduleCancelEvent } from './types.js';
+import { zonedDateKey } from './timezone.js';
+import { resolveCronAutomations } from './config.js';
 
 /**
  * Minimal plugin API interface for hook registration.
@@ -14,12 +16,15 @@ interface HookSource {
 
 /**
  * Interface for anything that can receive calendar events.
- * Both CalendarManager and FeedManager implement this.
+ * Both CalendarManager and FeedManager implement this. `source` names the
+ * hook behind a change (recorded in FeedManager's journal).
  */
 export interface EventSink {
-  addEvent(event: CalendarEvent): void;
-  updateEvent(uid: string, updates: Partial<CalendarEvent>): void;
-  cancelEvent(uid: string): void;
+  addEvent(event: CalendarEvent, source?: string): void;
+  updateEvent(uid: string, updates: Partial<CalendarEvent>, source?: string): void;
+  cancelEvent(uid: string, source?: string): void;
+  updateOccurrence(uid: string, recurrenceId: Date, updates: Partial<Omit<OccurrenceOverride, 'recurrenceId'>>, source?: string): void;
+  cancelOccurrence(uid: string, recurrenceId: Date, source?: string): void;
   getEvent(uid: string): CalendarEvent | undefined;
 }
 
@@ -32,7 +37,7 @@ export function registerListeners(api: HookSource, sink: EventSink, config: Cale
   if (config.events.scheduled_posts) {
     api.registerHook('agent:schedule', (event: GatewayScheduleEvent) => {
       const calEvent = fromScheduleEvent(event, config.defaults);
-      sink.addEvent(calEvent);
+      sink.addEvent(calEvent, 'clawcal:agent-schedule');
 
       // If this is a launch, schedule analytics check-ins
       if (config.events.analytics_checkins && event.type === 'launch') {
@@ -46,7 +51,7 @@ export function registerListeners(api: HookSource, sink: EventSink, config: Cale
           config.defaults,
         );
         for (const checkin of checkins) {
-          sink.addEvent(checkin);
+          sink.addEvent(checkin, 'clawcal:agent-schedule');
         }
       }
     }, { name: 'clawcal:agent-schedule' });
@@ -64,13 +69,13 @@ export function registerListeners(api: HookSource, sink: EventSink, config: Cale
           calEvent.allDay = false;
           calEvent.duration = 15;
         }
-        sink.addEvent(calEvent);
+        sink.addEvent(calEvent, 'clawcal:agent-task-complete');
       }
 
       // Daily aggregate
       if (tcConfig.aggregate === 'daily') {
         const agentId = event.agentId || 'unknown';
-        const dateStr = event.completedAt.toISOString().slice(0, 10);
+        const dateStr = zonedDateKey(event.completedAt, config.timezone);
         const aggUid = `daily-tasks-${agentId}-${dateStr}`;
         const existing = sink.getEvent(aggUid);
 
@@ -81,37 +86,120 @@ export function registerListeners(api: HookSource, sink: EventSink, config: Cale
             .filter(l => l.startsWith('- '))
             .map(l => ({ summary: l.slice(2) }));
           existingTasks.push({ summary: event.summary });
-          const updated = buildDailyTaskAggregate(agentId, event.completedAt, existingTasks);
+          const updated = buildDailyTaskAggregate(agentId, event.completedAt, existingTasks, config.timezone);
           sink.updateEvent(aggUid, {
             title: updated.title,
             description: updated.description,
-          });
+          }, 'clawcal:agent-task-complete');
         } else {
-          const aggEvent = buildDailyTaskAggregate(agentId, event.completedAt, [{ summary: event.summary }]);
-          sink.addEvent(aggEvent);
+          const aggEvent = buildDailyTaskAggregate(agentId, event.completedAt, [{ summary: event.summary }], config.timezone);
+          sink.addEvent(aggEvent, 'clawcal:agent-task-complete');
         }
       }
     }, { name: 'clawcal:agent-task-complete' });
   }
 
   // Cron/scheduled automation registered
-  if (config.events.cron_automations) {
+  const automations = resolveCronAutomations(config.events.cron_automations);
+  if (automations.enabled) {
     api.registerHook('cron:register', (event: GatewayCronEvent) => {
-      const calEvent = fromCronEvent(event, config.defaults);
-      sink.addEvent(calEvent);
+      if (automations.high_frequency === 'off' && isHighFrequencyCron(event.schedule)) return;
+
+      const calEvent = fromCronEvent(event, config.defaults, {
+        timeZone: config.timezone,
+        highFrequency: automations.high_frequency,
+        workingHours: automations.working_hours,
+      });
+      if (!calEvent) {
+        console.warn(`[clawcal] skipped cron "${event.id}": unsupported schedule "${event.schedule}"`);
+        return;
+      }
+      sink.addEvent(calEvent, 'clawcal:cron-register');
     }, { name: 'clawcal:cron-register' });
+
+    // Ending a series keeps past runs; one that never ran is just cancelled
+    const endSeries = (master: CalendarEvent, endedAt: Date, source: string) => {
+      const updates = endCronSeries(master, endedAt, config.timezone);
+      if (updates) {
+        sink.updateEvent(master.uid, updates, source);
+      } else {
+        sink.cancelEvent(master.uid, source);
+      }
+    };
+
+    api.registerHook('cron:unregister', (event: GatewayCronUnregisterEvent) => {
+      const master = sink.getEvent(event.id);
+      if (!master) return;
+      endSeries(master, event.removedAt ?? new Date(), 'clawcal:cron-unregister');
+    }, { name: 'clawcal:cron-unregister' });
+
+    // Schedule edited — the gateway sends the full new definition
+    api.registerHook('cron:update', (event: GatewayCronEvent) => {
+      const existing = sink.getEvent(event.id);
+
+      if (automations.high_frequency === 'off' && isHighFrequencyCron(event.schedule)) {
+        if (existing) endSeries(existing, new Date(), 'clawcal:cron-update');
+        return;
+      }
+
+      const calEvent = fromCronEvent(event, config.defaults, {
+        timeZone: config.timezone,
+        highFrequency: automations.high_frequency,
+        workingHours: automations.working_hours,
+      });
+      if (!calEvent) {
+        console.warn(`[clawcal] kept previous schedule for cron "${event.id}": unsupported schedule "${event.schedule}"`);
+        return;
+      }
+
+      if (existing) {
+        const { archived, updates } = rescheduleCronEvent(existing, calEvent, new Date(), config.timezone);
+        if (archived) sink.addEvent(archived, 'clawcal:cron-update');
+        sink.updateEvent(event.id, updates, 'clawcal:cron-update');
+      } else {
+        sink.addEvent(calEvent, 'clawcal:cron-update');
+      }
+    }, { name: 'clawcal:cron-update' });
+
+    // Cron run history — each execution becomes an override on the series
+    const recordRun = (outcome: CronRunOutcome, source: string) => (run: GatewayCronRunEvent) => {
+      const master = sink.getEvent(run.id);
+      if (!master) return;
+      const { recurrenceId, updates } = fromCronRunEvent(run, master, outcome, config.timezone);
+      sink.updateOccurrence(run.id, recurrenceId, updates, source);
+    };
+
+    api.registerHook('cron:run:start', recordRun('started', 'clawcal:cron-run-start'), { name: 'clawcal:cron-run-start' });
+    api.registerHook('cron:run:finish', recordRun('completed', 'clawcal:cron-run-finish'), { name: 'clawcal:cron-run-finish' });
+    api.registerHook('cron:run:fail', recordRun('failed', 'clawcal:cron-run-fail'), { name: 'clawcal:cron-run-fail' });
   }
 
-  // Agent updated a previously scheduled event
+  // Agent updated a previously scheduled event (or one occurrence of a recurring one)
   api.registerHook('agent:schedule:update', (event: GatewayScheduleUpdateEvent) => {
+    if (event.occurrence) {
+      if (event.status === 'CANCELLED') {
+        sink.cancelOccurrence(event.id, event.occurrence, 'clawcal:agent-schedule-update');
+        return;
+      }
+      const overrides: Partial<Omit<OccurrenceOverride, 'recurrenceId'>> = {};
+      if (event.newTime) overrides.start = event.newTime;
+      if (event.status) overrides.status = event.status;
+      sink.updateOccurrence(event.id, event.occurrence, overrides, 'clawcal:agent-schedule-update');
+      return;
+    }
+
     const updates: Record<string, any> = {};
     if (event.newTime) updates.start = event.newTime;
     if (event.status) updates.status = event.status;
-    sink.updateEvent(event.id, updates);
+    sink.updateEvent(event.id, updates, 'clawcal:agent-schedule-update');
   }, { name: 'clawcal:agent-schedule-update' });
 
-  // Agent cancelled a scheduled event
+  // Agent cancelled a scheduled event (or one occurrence of a recurring one)
   api.registerHook('agent:schedule:cancel', (event: GatewayScheduleCancelEvent) => {
-    sink.cancelEvent(event.id);
+    if (event.occurrence) {
+      sink.cancelOccurrence(event.id, event.occurrence, 'clawcal:agent-schedule-cancel');
+    } else {
+      sink.cancelEvent(event.id, 'clawcal:agent-schedule-cancel');
+    }
   }, { name: 'clawcal:agent-schedule-cancel' });
 }
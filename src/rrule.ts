@@ -0,0 +1,491 @@
+import { CalendarEvent, EventOccurrence } from './types.js';
+import { getZonedParts, zonedTimeToUtc, zonedDateKey, parseICSLocalDate } from './timezone.js';
+
+/**
+ * RRULE expansion (RFC 5545 §3.3.10) for the rules ClawCal writes and reads:
+ * HOURLY/DAILY/WEEKLY/MONTHLY/YEARLY with INTERVAL, COUNT, UNTIL, WKST and
+ * BYMONTH/BYMONTHDAY/BYDAY/BYHOUR/BYMINUTE/BYSETPOS. Occurrences are computed
+ * on the wall clock of the event's zone, so they stay put across DST changes.
+ */
+
+export type Frequency = 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdayRule {
+  day: number;   // 0 = Sunday
+  nth?: number;  // 2MO → 2, -1FR → -1
+}
+
+export interface RRuleParts {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: string; // raw UNTIL value — DATE or DATE-TIME
+  byMonth: number[];
+  byMonthDay: number[];
+  byDay: WeekdayRule[];
+  byHour: number[];
+  byMinute: number[];
+  bySetPos: number[];
+  wkst: number;
+}
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: Frequency[] = ['HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DAY_MS = 86400000;
+
+// Hard stop for rules that never produce an occurrence (e.g. Feb 30)
+const MAX_PERIODS = 100000;
+
+// Timed events without an end or duration last 15 minutes, as in the .ics output
+const DEFAULT_DURATION_MINUTES = 15;
+
+/**
+ * Parse an RRULE value (without the `RRULE:` prefix).
+ * Returns null for frequencies or parts the expander doesn't support
+ * (SECONDLY/MINUTELY, BYYEARDAY, BYWEEKNO) — better no expansion than a wrong one.
+ */
+export function parseRRule(rule: string): RRuleParts | null {
+  const parts: RRuleParts = {
+    freq: 'DAILY',
+    interval: 1,
+    byMonth: [],
+    byMonthDay: [],
+    byDay: [],
+    byHour: [],
+    byMinute: [],
+    bySetPos: [],
+    wkst: 1,
+  };
+  let hasFreq = false;
+
+  for (const pair of rule.split(';')) {
+    if (!pair) continue;
+    const [rawKey, value = ''] = pair.split('=');
+    const key = rawKey.toUpperCase();
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(value.toUpperCase() as Frequency)) return null;
+        parts.freq = value.toUpperCase() as Frequency;
+        hasFreq = true;
+        break;
+      case 'INTERVAL':
+        parts.interval = parseInt(value, 10);
+        if (!(parts.interval >= 1)) return null;
+        break;
+      case 'COUNT':
+        parts.count = parseInt(value, 10);
+        if (!(parts.count >= 0)) return null;
+        break;
+      case 'UNTIL':
+        parts.until = value;
+        break;
+      case 'BYMONTH':
+        parts.byMonth = parseNumberList(value);
+        break;
+      case 'BYMONTHDAY':
+        parts.byMonthDay = parseNumberList(value);
+        break;
+      case 'BYHOUR':
+        parts.byHour = parseNumberList(value);
+        break;
+      case 'BYMINUTE':
+        parts.byMinute = parseNumberList(value);
+        break;
+      case 'BYSETPOS':
+        parts.bySetPos = parseNumberList(value);
+        break;
+      case 'BYDAY': {
+        for (const item of value.split(',')) {
+          const match = item.toUpperCase().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) return null;
+          parts.byDay.push({
+            day: DAY_CODES.indexOf(match[2]),
+            nth: match[1] ? parseInt(match[1], 10) : undefined,
+          });
+        }
+        break;
+      }
+      case 'WKST': {
+        const day = DAY_CODES.indexOf(value.toUpperCase());
+        if (day === -1) return null;
+        parts.wkst = day;
+        break;
+      }
+      case 'BYSECOND':
+        // Seconds come from DTSTART; ClawCal never writes BYSECOND
+        break;
+      default:
+        return null;
+    }
+  }
+
+  return hasFreq ? parts : null;
+}
+
+/**
+ * Start times of a recurrence that fall in [from, to). DTSTART always counts
+ * as the first occurrence (and toward COUNT), per RFC 5545.
+ */
+export function expandRRule(
+  rule: string | RRuleParts,
+  dtstart: Date,
+  options: { from: Date; to: Date; timeZone?: string },
+): Date[] {
+  const parts = typeof rule === 'string' ? parseRRule(rule) : rule;
+  const { from, to } = options;
+  const zone = options.timeZone || 'UTC';
+
+  if (!parts) {
+    return dtstart >= from && dtstart < to ? [dtstart] : [];
+  }
+
+  const untilMs = parts.until ? parseUntil(parts.until, zone) : Infinity;
+  const start = getZonedParts(dtstart, zone);
+  const occurrences: Date[] = [];
+  let counted = 0;
+
+  // Returns false once nothing later can be an occurrence
+  const accept = (date: Date): boolean => {
+    if (date.getTime() > untilMs) return false;
+    if (parts.count !== undefined && counted >= parts.count) return false;
+    if (date.getTime() >= to.getTime()) return false;
+    counted++;
+    if (date.getTime() >= from.getTime()) occurrences.push(date);
+    return true;
+  };
+
+  if (!accept(dtstart)) return occurrences;
+
+  // Without COUNT, periods before the window can be skipped outright
+  let period = 0;
+  if (parts.count === undefined) {
+    const skip = periodsBetween(parts.freq, start, getZonedParts(from, zone), parts.wkst);
+    period = Math.max(0, Math.floor(skip / parts.interval) - 1) * parts.interval;
+  }
+
+  for (let i = 0; i < MAX_PERIODS; i++, period += parts.interval) {
+    const periodStart = zonedTimeToUtc(...localFields(periodStartLocal(parts, start, period)), zone);
+    if (periodStart.getTime() >= to.getTime() || periodStart.getTime() > untilMs) break;
+
+    for (const local of periodCandidates(parts, start, period)) {
+      const date = zonedTimeToUtc(...localFields(local), zone);
+      if (date.getTime() <= dtstart.getTime()) continue;
+      if (!accept(date)) return occurrences;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Concrete occurrences of an event that overlap [from, to), with RDATEs
+ * added, EXDATEs removed and overridden occurrences (RECURRENCE-ID) applied.
+ * Each occurrence is a flattened copy of the event with its own start/end.
+ */
+export function expandEvent(event: CalendarEvent, from: Date, to: Date, timeZone = 'UTC'): EventOccurrence[] {
+  const zone = event.timezone || timeZone;
+  const recurring = !!event.rrule || (event.rdate?.length ?? 0) > 0;
+
+  if (!recurring) {
+    const end = occurrenceEnd(event, event.start, zone);
+    return overlaps(event.start, end, from, to) ? [instance(event, event.start, end)] : [];
+  }
+
+  // Occurrences that started before `from` may still be running at `from`
+  const length = occurrenceEnd(event, event.start, zone).getTime() - event.start.getTime();
+  const windowFrom = new Date(from.getTime() - length);
+
+  const starts: Date[] = event.rrule
+    ? expandRRule(event.rrule, event.start, { from: windowFrom, to, timeZone: zone })
+    : (event.start >= windowFrom && event.start < to ? [event.start] : []);
+  for (const date of event.rdate || []) {
+    if (date >= windowFrom && date < to) starts.push(date);
+  }
+
+  const key = (date: Date) => event.allDay ? zonedDateKey(date, zone) : String(date.getTime());
+  const excluded = new Set((event.exdate || []).map(key));
+  const overridden = new Set((event.overrides || []).map(o => key(o.recurrenceId)));
+  const seen = new Set<string>();
+  const occurrences: EventOccurrence[] = [];
+
+  for (const start of starts) {
+    const k = key(start);
+    if (seen.has(k) || excluded.has(k) || overridden.has(k)) continue;
+    seen.add(k);
+
+    const end = occurrenceEnd(event, start, zone);
+    if (overlaps(start, end, from, to)) {
+      occurrences.push(instance(event, start, end, start));
+    }
+  }
+
+  for (const override of event.overrides || []) {
+    if (excluded.has(key(override.recurrenceId))) continue;
+
+    const start = override.start ?? override.recurrenceId;
+    const end = override.end
+      ?? (override.duration ? new Date(start.getTime() + override.duration * 60000) : occurrenceEnd(event, start, zone));
+    if (!overlaps(start, end, from, to)) continue;
+
+    occurrences.push({
+      ...instance(event, start, end, override.recurrenceId),
+      title: override.title ?? event.title,
+      description: override.description ?? event.description,
+      status: override.status ?? event.status,
+      sequence: override.sequence ?? event.sequence,
+    });
+  }
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// --- Helpers ---
+
+function instance(event: CalendarEvent, start: Date, end: Date, recurrenceId?: Date): EventOccurrence {
+  return {
+    ...event,
+    start,
+    end,
+    duration: undefined,
+    rrule: undefined,
+    rdate: undefined,
+    exdate: undefined,
+    overrides: undefined,
+    recurrenceId,
+  };
+}
+
+/**
+ * End of an occurrence starting at `start`: all-day events span whole local
+ * days, timed events keep the master's length (15 minutes by default).
+ */
+function occurrenceEnd(event: CalendarEvent, start: Date, zone: string): Date {
+  if (event.allDay) {
+    const days = event.end ? Math.max(1, Math.round((event.end.getTime() - event.start.getTime()) / DAY_MS)) : 1;
+    const p = getZonedParts(start, zone);
+    return zonedTimeToUtc(p.year, p.month, p.day + days, 0, 0, 0, zone);
+  }
+  if (event.end) {
+    return new Date(start.getTime() + (event.end.getTime() - event.start.getTime()));
+  }
+  return new Date(start.getTime() + (event.duration || DEFAULT_DURATION_MINUTES) * 60000);
+}
+
+function overlaps(start: Date, end: Date, from: Date, to: Date): boolean {
+  return start.getTime() < to.getTime() && end.getTime() > from.getTime();
+}
+
+/**
+ * UNTIL as a UTC instant. A DATE value includes the whole day in the zone;
+ * a floating DATE-TIME is read in the zone.
+ */
+function parseUntil(value: string, zone: string): number {
+  const date = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (date) {
+    return zonedTimeToUtc(parseInt(date[1], 10), parseInt(date[2], 10), parseInt(date[3], 10) + 1, 0, 0, 0, zone).getTime() - 1;
+  }
+  if (value.endsWith('Z')) {
+    return parseICSLocalDate(value.slice(0, -1), 'UTC').getTime();
+  }
+  return parseICSLocalDate(value, zone).getTime();
+}
+
+/**
+ * Local wall-clock times are handled as "fake UTC" milliseconds: Date.UTC()
+ * of the local fields. That keeps day/month arithmetic free of DST effects.
+ */
+function localFields(local: number): [number, number, number, number, number, number] {
+  const d = new Date(local);
+  return [d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate(), d.getUTCHours(), d.getUTCMinutes(), d.getUTCSeconds()];
+}
+
+function localDay(year: number, month: number, day: number): number {
+  return Date.UTC(year, month - 1, day);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Whole periods between DTSTART and another local time, used to skip ahead.
+ */
+function periodsBetween(freq: Frequency, start: ReturnType<typeof getZonedParts>, to: ReturnType<typeof getZonedParts>, wkst: number): number {
+  const days = Math.floor((localDay(to.year, to.month, to.day) - localDay(start.year, start.month, start.day)) / DAY_MS);
+
+  switch (freq) {
+    case 'YEARLY': return to.year - start.year;
+    case 'MONTHLY': return (to.year - start.year) * 12 + (to.month - start.month);
+    case 'WEEKLY': return Math.floor((days + ((start.weekday - wkst + 7) % 7)) / 7);
+    case 'DAILY': return days;
+    case 'HOURLY': return days * 24 + (to.hour - start.hour);
+  }
+}
+
+/**
+ * Local start of the nth period after DTSTART's period.
+ */
+function periodStartLocal(parts: RRuleParts, start: ReturnType<typeof getZonedParts>, period: number): number {
+  switch (parts.freq) {
+    case 'YEARLY': return localDay(start.year + period, 1, 1);
+    case 'MONTHLY': return localDay(start.year, start.month + period, 1);
+    case 'WEEKLY': return localDay(start.year, start.month, start.day - ((start.weekday - parts.wkst + 7) % 7) + period * 7);
+    case 'DAILY': return localDay(start.year, start.month, start.day + period);
+    case 'HOURLY': return Date.UTC(start.year, start.month - 1, start.day, start.hour + period);
+  }
+}
+
+/**
+ * Candidate local times within one period, sorted, with BYSETPOS applied.
+ */
+function periodCandidates(parts: RRuleParts, start: ReturnType<typeof getZonedParts>, period: number): number[] {
+  const periodStart = periodStartLocal(parts, start, period);
+  const first = new Date(periodStart);
+  const year = first.getUTCFullYear();
+  const month = first.getUTCMonth() + 1;
+  let days: number[];
+
+  switch (parts.freq) {
+    case 'YEARLY':
+      days = yearDays(parts, start, year);
+      break;
+    case 'MONTHLY':
+      days = parts.byMonth.length && !parts.byMonth.includes(month) ? [] : monthDays(parts, start, year, month);
+      break;
+    case 'WEEKLY': {
+      const weekdays = parts.byDay.length ? parts.byDay.map(d => d.day) : [start.weekday];
+      days = [];
+      for (let i = 0; i < 7; i++) {
+        const day = periodStart + i * DAY_MS;
+        if (weekdays.includes(new Date(day).getUTCDay())) days.push(day);
+      }
+      days = days.filter(d => !parts.byMonth.length || parts.byMonth.includes(new Date(d).getUTCMonth() + 1));
+      break;
+    }
+    case 'DAILY':
+    case 'HOURLY': {
+      const day = localDay(year, month, first.getUTCDate());
+      days = matchesDayFilters(parts, day) ? [day] : [];
+      break;
+    }
+  }
+
+  const hours = parts.freq === 'HOURLY'
+    ? [first.getUTCHours()].filter(h => !parts.byHour.length || parts.byHour.includes(h))
+    : (parts.byHour.length ? parts.byHour : [start.hour]);
+  const minutes = parts.byMinute.length ? parts.byMinute : [start.minute];
+
+  const times: number[] = [];
+  for (const day of days) {
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        times.push(day + ((hour * 60 + minute) * 60 + start.second) * 1000);
+      }
+    }
+  }
+  times.sort((a, b) => a - b);
+
+  if (!parts.bySetPos.length) return times;
+
+  const picked = parts.bySetPos
+    .map(pos => pos > 0 ? times[pos - 1] : times[times.length + pos])
+    .filter((t): t is number => t !== undefined);
+  return Array.from(new Set(picked)).sort((a, b) => a - b);
+}
+
+/**
+ * BY* parts as filters on a single day (DAILY and HOURLY rules).
+ */
+function matchesDayFilters(parts: RRuleParts, day: number): boolean {
+  const d = new Date(day);
+  const month = d.getUTCMonth() + 1;
+  if (parts.byMonth.length && !parts.byMonth.includes(month)) return false;
+
+  if (parts.byMonthDay.length) {
+    const dim = daysInMonth(d.getUTCFullYear(), month);
+    const resolved = parts.byMonthDay.map(n => n < 0 ? dim + n + 1 : n);
+    if (!resolved.includes(d.getUTCDate())) return false;
+  }
+
+  if (parts.byDay.length && !parts.byDay.some(r => r.day === d.getUTCDay())) return false;
+  return true;
+}
+
+/**
+ * Days of one month matching BYMONTHDAY and/or BYDAY (ordinals count within
+ * the month), or DTSTART's day of month when neither is given.
+ */
+function monthDays(parts: RRuleParts, start: ReturnType<typeof getZonedParts>, year: number, month: number): number[] {
+  const dim = daysInMonth(year, month);
+  let days: number[] | null = null;
+
+  if (parts.byMonthDay.length) {
+    days = parts.byMonthDay
+      .map(n => n < 0 ? dim + n + 1 : n)
+      .filter(n => n >= 1 && n <= dim)
+      .map(n => localDay(year, month, n));
+  }
+
+  if (parts.byDay.length) {
+    const all: number[] = [];
+    for (let n = 1; n <= dim; n++) all.push(localDay(year, month, n));
+    const weekdays = matchWeekdays(all, parts.byDay);
+    days = days ? days.filter(d => weekdays.includes(d)) : weekdays;
+  }
+
+  if (!days) {
+    days = start.day <= dim ? [localDay(year, month, start.day)] : [];
+  }
+
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+}
+
+/**
+ * Days of one year for a YEARLY rule. With BYMONTH, each listed month is
+ * expanded like a monthly rule; BYDAY alone counts ordinals within the year.
+ */
+function yearDays(parts: RRuleParts, start: ReturnType<typeof getZonedParts>, year: number): number[] {
+  if (parts.byMonth.length) {
+    return parts.byMonth.flatMap(month => monthDays(parts, start, year, month));
+  }
+
+  if (parts.byMonthDay.length) {
+    const days: number[] = [];
+    for (let month = 1; month <= 12; month++) days.push(...monthDays(parts, start, year, month));
+    return days;
+  }
+
+  if (parts.byDay.length) {
+    const all: number[] = [];
+    for (let day = localDay(year, 1, 1); day < localDay(year + 1, 1, 1); day += DAY_MS) all.push(day);
+    return matchWeekdays(all, parts.byDay);
+  }
+
+  // Plain yearly: DTSTART's month and day (Feb 29 only in leap years)
+  return start.day <= daysInMonth(year, start.month) ? [localDay(year, start.month, start.day)] : [];
+}
+
+/**
+ * Days from `days` matching weekday rules; `2MO` picks the second Monday,
+ * `-1FR` the last Friday, a bare `MO` every Monday.
+ */
+function matchWeekdays(days: number[], rules: WeekdayRule[]): number[] {
+  const picked = new Set<number>();
+
+  for (const rule of rules) {
+    const matching = days.filter(d => new Date(d).getUTCDay() === rule.day);
+    if (rule.nth === undefined) {
+      for (const d of matching) picked.add(d);
+    } else {
+      const d = rule.nth > 0 ? matching[rule.nth - 1] : matching[matching.length + rule.nth];
+      if (d !== undefined) picked.add(d);
+    }
+  }
+
+  return Array.from(picked).sort((a, b) => a - b);
+}
+
+function parseNumberList(value: string): number[] {
+  return value.split(',').map(v => parseInt(v, 10)).filter(n => !isNaN(n));
+}
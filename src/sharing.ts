@@ -0,0 +1,64 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from 'fs';
+import { dirname } from 'path';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Signs and verifies expiring share links: `<feed>?expires=<unix>&sig=<hmac>`.
+ * The HMAC covers the feed path and expiry, so a link can't be moved to
+ * another feed or extended. The signing key lives in `file_directory` and is
+ * generated on first use; deleting it revokes every outstanding link.
+ */
+export class ShareLinkSigner {
+  private key: Buffer;
+
+  constructor(keyPath: string) {
+    this.key = loadOrCreateKey(keyPath);
+  }
+
+  /**
+   * Query string granting access to `feed` until `expiresAt`.
+   */
+  sign(feed: string, expiresAt: Date): string {
+    const expires = Math.floor(expiresAt.getTime() / 1000);
+    return `expires=${expires}&sig=${this.signature(feed, expires)}`;
+  }
+
+  /**
+   * Whether the `expires`/`sig` parameters are a valid, unexpired link for `feed`.
+   */
+  verify(feed: string, query: URLSearchParams, now = new Date()): boolean {
+    const expiresParam = query.get('expires');
+    const sig = query.get('sig');
+    if (!expiresParam || !sig || !/^\d+$/.test(expiresParam)) return false;
+
+    const expires = Number(expiresParam);
+    if (expires * 1000 <= now.getTime()) return false;
+
+    const expected = Buffer.from(this.signature(feed, expires));
+    const actual = Buffer.from(sig);
+    if (expected.length !== actual.length) return false;
+    return timingSafeEqual(new Uint8Array(expected), new Uint8Array(actual));
+  }
+
+  private signature(feed: string, expires: number): string {
+    return createHmac('sha256', new Uint8Array(this.key)).update(`${feed}\n${expires}`).digest('base64url');
+  }
+}
+
+function loadOrCreateKey(keyPath: string): Buffer {
+  if (existsSync(keyPath)) {
+    const key = Buffer.from(readFileSync(keyPath, 'utf-8').trim(), 'base64');
+    if (key.length >= 32) return key;
+  }
+
+  const dir = dirname(keyPath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const key = randomBytes(32);
+  const tempPath = `${keyPath}.tmp`;
+  writeFileSync(tempPath, key.toString('base64'), { encoding: 'utf-8', mode: 0o600 });
+  renameSync(tempPath, keyPath);
+  return key;
+}
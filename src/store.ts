@@ -0,0 +1,155 @@
+import { readFileSync, writeFileSync, appendFileSync, existsSync, mkdirSync, openSync, closeSync, fsyncSync, renameSync } from 'fs';
+import { dirname } from 'path';
+import { CalendarEvent } from './types.js';
+
+/**
+ * Canonical storage for calendar events. FeedManager keeps every event here
+ * and renders the .ics feeds from it, so no state depends on parsing iCal.
+ */
+export interface EventStore {
+  /** All stored events. */
+  load(): CalendarEvent[];
+  /** Insert or replace an event by UID. */
+  put(event: CalendarEvent): void;
+  delete(uid: string): void;
+  /** Replace the whole store — bulk import, cleanup, compaction. */
+  replaceAll(events: CalendarEvent[]): void;
+}
+
+type StoreRecord =
+  | { op: 'put'; event: CalendarEvent }
+  | { op: 'delete'; uid: string };
+
+/**
+ * Append-only JSON-lines store: one `put`/`delete` record per line, replayed
+ * in order on load (last record per UID wins). Appends are cheap, so every
+ * change is persisted immediately; superseded records are compacted away
+ * once they outnumber live events.
+ */
+export class JsonLinesEventStore implements EventStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    const dir = dirname(filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  load(): CalendarEvent[] {
+    const events: Map<string, CalendarEvent> = new Map();
+    const records = readJsonLines(this.filePath) as StoreRecord[];
+
+    for (const record of records) {
+      if (record.op === 'put' && record.event?.uid) {
+        events.set(record.event.uid, reviveEvent(record.event));
+      } else if (record.op === 'delete') {
+        events.delete(record.uid);
+      }
+    }
+
+    const live = Array.from(events.values());
+    if (records.length > live.length * 2) {
+      this.replaceAll(live);
+    }
+    return live;
+  }
+
+  put(event: CalendarEvent): void {
+    this.append({ op: 'put', event });
+  }
+
+  delete(uid: string): void {
+    this.append({ op: 'delete', uid });
+  }
+
+  replaceAll(events: CalendarEvent[]): void {
+    const content = events.map(event => JSON.stringify({ op: 'put', event })).join('\n');
+    const tempPath = `${this.filePath}.tmp`;
+
+    const fd = openSync(tempPath, 'w');
+    try {
+      writeFileSync(fd, content ? `${content}\n` : '', 'utf-8');
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tempPath, this.filePath);
+  }
+
+  private append(record: StoreRecord): void {
+    appendFileSync(this.filePath, `${JSON.stringify(record)}\n`, 'utf-8');
+  }
+}
+
+/**
+ * In-memory store — for tests and embedders that persist elsewhere.
+ */
+export class MemoryEventStore implements EventStore {
+  private events: Map<string, CalendarEvent> = new Map();
+
+  load(): CalendarEvent[] {
+    return Array.from(this.events.values());
+  }
+
+  put(event: CalendarEvent): void {
+    this.events.set(event.uid, event);
+  }
+
+  delete(uid: string): void {
+    this.events.delete(uid);
+  }
+
+  replaceAll(events: CalendarEvent[]): void {
+    this.events = new Map(events.map(e => [e.uid, e]));
+  }
+}
+
+/**
+ * Parse a JSON-lines file, one value per line. Shared by the store and the
+ * journal, which both append and fsync one line per write.
+ */
+export function readJsonLines(filePath: string): unknown[] {
+  if (!existsSync(filePath)) return [];
+
+  const values: unknown[] = [];
+  for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      values.push(JSON.parse(line));
+    } catch {
+      // A crash mid-append leaves a partial last line — skip it
+    }
+  }
+  return values;
+}
+
+/**
+ * Restore Date fields of an event parsed from JSON.
+ */
+export function reviveEvent(raw: CalendarEvent): CalendarEvent {
+  return reviveEventFields(raw) as CalendarEvent;
+}
+
+/**
+ * Restore whichever Date fields are present on a (partial) event — also
+ * used for journaled updates.
+ */
+export function reviveEventFields(raw: Partial<CalendarEvent>): Partial<CalendarEvent> {
+  const event: Partial<CalendarEvent> = { ...raw };
+  if (raw.start) event.start = new Date(raw.start);
+  if (raw.end) event.end = new Date(raw.end);
+  if (raw.rdate) event.rdate = raw.rdate.map(d => new Date(d));
+  if (raw.exdate) event.exdate = raw.exdate.map(d => new Date(d));
+  if (raw.lastModified) event.lastModified = new Date(raw.lastModified);
+  if (raw.overrides) {
+    event.overrides = raw.overrides.map(o => ({
+      ...o,
+      recurrenceId: new Date(o.recurrenceId),
+      start: o.start ? new Date(o.start) : undefined,
+      end: o.end ? new Date(o.end) : undefined,
+    }));
+  }
+  return event;
+}
@@ -0,0 +1,286 @@
+/**
+ * IANA time zone helpers built on Intl — no tz database shipped with the plugin.
+ * Used to emit DTSTART;TZID=... values and matching VTIMEZONE components.
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+/**
+ * True for zones that are rendered as plain UTC (`...Z`) without a TZID.
+ */
+export function isUTC(timeZone?: string): boolean {
+  return !timeZone || timeZone === 'UTC' || timeZone === 'Etc/UTC' || timeZone === 'GMT' || timeZone === 'Z';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalize a configured zone: unknown zones fall back to UTC so a typo
+ * in config never produces an unparseable feed.
+ */
+export function resolveTimeZone(timeZone?: string): string {
+  if (!timeZone || isUTC(timeZone)) return 'UTC';
+  return isValidTimeZone(timeZone) ? timeZone : 'UTC';
+}
+
+/**
+ * Wall-clock components of an instant in the given zone.
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  if (isUTC(timeZone)) {
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+      weekday: date.getUTCDay(),
+    };
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10),
+    weekday: WEEKDAYS[parts.weekday] ?? 0,
+  };
+}
+
+/**
+ * UTC offset of the zone at the given instant, in minutes (e.g. -420 for PDT).
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  if (isUTC(timeZone)) return 0;
+  const p = getZonedParts(date, timeZone);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const truncated = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUTC - truncated) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in the zone to a UTC instant.
+ * Times inside a DST gap resolve forward, matching how calendar apps treat them.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  timeZone: string,
+): Date {
+  const local = Date.UTC(year, month - 1, day, hour, minute, second);
+  if (isUTC(timeZone)) return new Date(local);
+
+  const first = getTimeZoneOffset(new Date(local), timeZone);
+  const utc = local - first * 60000;
+  const corrected = getTimeZoneOffset(new Date(utc), timeZone);
+  if (corrected === first) return new Date(utc);
+
+  const retry = local - corrected * 60000;
+  if (getTimeZoneOffset(new Date(retry), timeZone) === corrected) return new Date(retry);
+
+  // Neither offset round-trips: the wall time falls in a gap. Applying the
+  // pre-transition (smaller) offset pushes it past the gap.
+  return new Date(local - Math.min(first, corrected) * 60000);
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the zone.
+ */
+export function zonedDateKey(date: Date, timeZone?: string): string {
+  const p = getZonedParts(date, timeZone || 'UTC');
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/**
+ * Format as a floating local date-time for use with a TZID parameter.
+ */
+export function formatICSLocalDate(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+  // → 20250225T090000
+}
+
+/**
+ * Parse a local date-time value (as written with TZID) back to a UTC instant.
+ */
+export function parseICSLocalDate(str: string, timeZone: string): Date {
+  const match = str.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return new Date(str);
+  return zonedTimeToUtc(
+    parseInt(match[1]), parseInt(match[2]), parseInt(match[3]),
+    parseInt(match[4]), parseInt(match[5]), parseInt(match[6]),
+    timeZone,
+  );
+}
+
+// --- VTIMEZONE generation ---
+
+interface Transition {
+  at: Date;          // UTC instant of the change
+  offsetFrom: number; // minutes
+  offsetTo: number;   // minutes
+}
+
+const transitionCache: Map<string, Transition[]> = new Map();
+
+/**
+ * Find the offset transitions of a zone within one calendar year by sampling
+ * each day and bisecting to the minute where the offset changes.
+ */
+export function findTransitions(timeZone: string, year: number): Transition[] {
+  const key = `${timeZone}:${year}`;
+  const cached = transitionCache.get(key);
+  if (cached) return cached;
+
+  const transitions: Transition[] = [];
+  const dayMs = 86400000;
+  let prevTime = Date.UTC(year, 0, 1);
+  let prevOffset = getTimeZoneOffset(new Date(prevTime), timeZone);
+  const end = Date.UTC(year + 1, 0, 1);
+
+  for (let t = prevTime + dayMs; t <= end; t += dayMs) {
+    const offset = getTimeZoneOffset(new Date(t), timeZone);
+    if (offset !== prevOffset) {
+      let lo = prevTime;
+      let hi = t;
+      while (hi - lo > 60000) {
+        const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+        if (getTimeZoneOffset(new Date(mid), timeZone) === prevOffset) {
+          lo = mid;
+        } else {
+          hi = mid;
+        }
+      }
+      transitions.push({ at: new Date(hi), offsetFrom: prevOffset, offsetTo: offset });
+    }
+    prevTime = t;
+    prevOffset = offset;
+  }
+
+  transitionCache.set(key, transitions);
+  return transitions;
+}
+
+/**
+ * Build a VTIMEZONE component for the zone, derived from its transitions in
+ * the reference year. Each observance gets a yearly RRULE (e.g. 2nd Sunday of
+ * March) so the definition stays valid for recurring events in later years.
+ */
+export function buildVTimezone(timeZone: string, referenceYear: number): string[] {
+  const lines: string[] = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const transitions = findTransitions(timeZone, referenceYear);
+
+  if (transitions.length === 0) {
+    const offset = getTimeZoneOffset(new Date(Date.UTC(referenceYear, 0, 1)), timeZone);
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${formatOffset(offset)}`,
+      `TZOFFSETTO:${formatOffset(offset)}`,
+      `TZNAME:${zoneAbbreviation(new Date(Date.UTC(referenceYear, 0, 1)), timeZone)}`,
+      'END:STANDARD',
+    );
+  } else {
+    for (const tr of transitions) {
+      const kind = tr.offsetTo > tr.offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+      // Observance DTSTART is the wall-clock time just before the change
+      const localStart = new Date(tr.at.getTime() + tr.offsetFrom * 60000);
+      lines.push(
+        `BEGIN:${kind}`,
+        `DTSTART:${formatICSLocalDate(localStart, 'UTC')}`,
+        `TZOFFSETFROM:${formatOffset(tr.offsetFrom)}`,
+        `TZOFFSETTO:${formatOffset(tr.offsetTo)}`,
+        `TZNAME:${zoneAbbreviation(tr.at, timeZone)}`,
+        `RRULE:${yearlyRule(localStart)}`,
+        `END:${kind}`,
+      );
+    }
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+const BYDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Express a transition date as "nth weekday of month" — last-week
+ * transitions use -1 so the rule holds in months of any length.
+ */
+function yearlyRule(localStart: Date): string {
+  const day = localStart.getUTCDate();
+  const month = localStart.getUTCMonth() + 1;
+  const daysInMonth = new Date(Date.UTC(localStart.getUTCFullYear(), month, 0)).getUTCDate();
+  const nth = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+  return `FREQ=YEARLY;BYMONTH=${month};BYDAY=${nth}${BYDAY_CODES[localStart.getUTCDay()]}`;
+}
+
+function zoneAbbreviation(date: Date, timeZone: string): string {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find(p => p.type === 'timeZoneName');
+  return part?.value || timeZone;
+}
+
+export function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+  // → -0800
+}
+
+function pad(n: number): string {
+  return n < 10 ? `0${n}` : `${n}`;
+}
@@ -0,0 +1,116 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from 'fs';
+import { dirname } from 'path';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * A subscription token as stored: only the SHA-256 of the secret is kept,
+ * so a leaked tokens.json can't be used to read feeds.
+ */
+export interface FeedTokenRecord {
+  id: string;
+  feed: string; // feed path the token is scoped to, e.g. '/clawcal/feed/dev-agent.ics'
+  hash: string;
+  createdAt: string;
+  label?: string;
+}
+
+/** What listing a token reveals — never the secret or its hash. */
+export type FeedTokenInfo = Omit<FeedTokenRecord, 'hash'>;
+
+/**
+ * Per-feed capability tokens for calendar apps that can't send auth
+ * headers (e.g. Google Calendar's "From URL"). A token grants read access
+ * to exactly one feed and can be revoked or rotated at any time.
+ */
+export class FeedTokenStore {
+  private filePath: string;
+  private records: FeedTokenRecord[] = [];
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    const dir = dirname(filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    if (existsSync(filePath)) {
+      try {
+        const parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+        if (Array.isArray(parsed)) this.records = parsed;
+      } catch {
+        // Unreadable token file: no token grants access until tokens are reissued
+        this.records = [];
+      }
+    }
+  }
+
+  /**
+   * Create a token for one feed. The secret is returned once and never stored.
+   */
+  issue(feed: string, label?: string): { info: FeedTokenInfo; token: string } {
+    const token = randomBytes(24).toString('base64url');
+    const record: FeedTokenRecord = {
+      id: randomBytes(6).toString('hex'),
+      feed,
+      hash: hashToken(token),
+      createdAt: new Date().toISOString(),
+      ...(label ? { label } : {}),
+    };
+
+    this.records.push(record);
+    this.save();
+    return { info: toInfo(record), token };
+  }
+
+  /**
+   * Revoke every token for a feed and issue a fresh one.
+   */
+  rotate(feed: string, label?: string): { info: FeedTokenInfo; token: string } {
+    this.records = this.records.filter(r => r.feed !== feed);
+    return this.issue(feed, label);
+  }
+
+  /** Returns whether a token with this id existed. */
+  revoke(id: string): boolean {
+    const before = this.records.length;
+    this.records = this.records.filter(r => r.id !== id);
+    if (this.records.length === before) return false;
+
+    this.save();
+    return true;
+  }
+
+  /**
+   * Whether `token` grants access to `feed`.
+   */
+  verify(feed: string, token: string): boolean {
+    if (!token) return false;
+
+    const hash = Buffer.from(hashToken(token), 'hex');
+    let valid = false;
+    for (const record of this.records) {
+      if (record.feed !== feed) continue;
+      // Compare against every candidate so timing doesn't reveal which matched
+      if (timingSafeEqual(new Uint8Array(hash), new Uint8Array(Buffer.from(record.hash, 'hex')))) valid = true;
+    }
+    return valid;
+  }
+
+  list(feed?: string): FeedTokenInfo[] {
+    return this.records.filter(r => !feed || r.feed === feed).map(toInfo);
+  }
+
+  private save(): void {
+    const tempPath = `${this.filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(this.records, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    renameSync(tempPath, this.filePath);
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toInfo({ hash: _hash, ...info }: FeedTokenRecord): FeedTokenInfo {
+  return info;
+}
@@ -18,14 +18,79 @@ export interface CalendarEvent {
   status?: EventStatus;
   sequence?: number;
   rrule?: string;
+  rdate?: Date[]; // explicit extra occurrences (used when RRULE can't express a schedule)
   alerts?: EventAlert[]; // one or more alerts before the event
+  timezone?: string; // IANA zone (e.g. 'America/Los_Angeles'); falls back to the calendar default
+  exdate?: Date[]; // occurrences removed from a recurring event
+  overrides?: OccurrenceOverride[]; // per-occurrence changes to a recurring event
+  lastModified?: Date; // when the event last changed (LAST-MODIFIED)
+  transparency?: EventTransparency; // TRANSPARENT events don't count as busy time (default OPAQUE)
+}
+
+/**
+ * One occurrence of a recurring event that differs from the series.
+ * Keyed by the occurrence's original start (RECURRENCE-ID); unset fields
+ * inherit from the master event.
+ */
+export interface OccurrenceOverride {
+  recurrenceId: Date;
+  start?: Date;
+  end?: Date;
+  duration?: number; // minutes
+  title?: string;
+  description?: string;
+  status?: EventStatus;
+  sequence?: number;
+}
+
+/**
+ * One concrete occurrence of an event in a date range (see getOccurrences).
+ * Recurrence fields are cleared; recurrenceId is the occurrence's original
+ * start for instances of recurring events.
+ */
+export interface EventOccurrence extends CalendarEvent {
+  end: Date;
+  recurrenceId?: Date;
 }
 
 export type EventStatus = 'PLANNED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
 
+export type EventTransparency = 'OPAQUE' | 'TRANSPARENT';
+
+/**
+ * A stretch of busy time (see getFreeBusy). Planned events are tentative.
+ */
+export interface FreeBusyPeriod {
+  start: Date;
+  end: Date;
+  type: 'BUSY' | 'BUSY-TENTATIVE';
+}
+
 export interface FeedsConfig {
   combined: boolean;   // one feed with all agents
   per_agent: boolean;  // separate feed per agent
+  per_project?: boolean; // separate feed per project (event.project / gateway workspace)
+  custom?: CustomFeedConfig[]; // filtered feeds served at /clawcal/feed/custom/<slug>.ics
+}
+
+export interface CustomFeedConfig {
+  slug: string;        // URL and file name, e.g. 'myapp-launches'
+  name: string;        // calendar name shown in the subscribing app
+  filter: EventFilter;
+}
+
+/**
+ * Which events a feed includes. Every set criterion must match; list
+ * criteria match any of their values.
+ */
+export interface EventFilter {
+  agents?: string[];
+  projects?: string[];
+  categories?: string[];
+  statuses?: EventStatus[];
+  from?: string; // window start: ISO date or offset from now, e.g. '-7d'
+  to?: string;   // window end: ISO date or offset from now, e.g. '+30d'
+  cancelled?: boolean; // include cancelled events (default true)
 }
 
 export interface LocalPushConfig {
@@ -41,12 +106,16 @@ export interface TaskCompletionsConfig {
 export interface CalendarConfig {
   file: string;             // legacy single-file path (used when feeds not configured)
   file_directory: string;   // directory for multi-feed output
+  timezone: string;         // default IANA zone for events, e.g. 'America/Los_Angeles'
   feeds: FeedsConfig;
   localPush: LocalPushConfig;
   events: EventTypeConfig;
   taskCompletions: TaskCompletionsConfig;
   defaults: DefaultsConfig;
   cleanup: CleanupConfig;
+  storage: StorageConfig;
+  feed_tokens: FeedTokensConfig;
+  sharing: SharingConfig;
 }
 
 export interface EventTypeConfig {
@@ -54,11 +123,18 @@ export interface EventTypeConfig {
   launch_sequences: boolean;
   task_completions: boolean;
   analytics_checkins: boolean;
-  cron_automations: boolean;
+  cron_automations: boolean | Partial<CronAutomationsConfig>;
   content_drafts: boolean;
   reminders: boolean;
 }
 
+export interface CronAutomationsConfig {
+  enabled: boolean;
+  // How to show crons that run more than hourly (e.g. every 5 min)
+  high_frequency: 'all_day' | 'working_hours' | 'off';
+  working_hours: { start: number; end: number }; // local hours for 'working_hours' blocks
+}
+
 export interface AlertDefaults {
   scheduled_posts: number[];     // e.g. [15] = 15min before
   launch_sequences: number[];    // e.g. [15, 60] = 15min and 1hr before
@@ -80,6 +156,22 @@ export interface CleanupConfig {
   retention_days: number;
 }
 
+export interface StorageConfig {
+  backend: 'jsonl' | 'ics'; // jsonl: events.jsonl is the source of truth; ics: state lives in the feed files
+  flush_interval_ms: number; // coalesce feed writes within this window; 0 writes on every change
+  journal: boolean; // append every mutation to journal.jsonl before applying it
+  journal_max_entries: number; // compact the journal past this many entries
+}
+
+export interface FeedTokensConfig {
+  enabled: boolean; // accept per-feed ?token= secrets (for apps that can't send auth headers)
+}
+
+export interface SharingConfig {
+  enabled: boolean; // accept HMAC-signed, expiring share links on feed routes
+  max_days: number; // longest lifetime a share link can be issued for
+}
+
 export interface ScheduleToolParams {
   title: string;
   date: string; // ISO 8601
@@ -91,6 +183,7 @@ export interface ScheduleToolParams {
   project?: string;
   url?: string;
   alertMinutes?: number;
+  timezone?: string;
 }
 
 // Gateway event types — matches OpenClaw plugin-sdk
@@ -103,6 +196,7 @@ export interface GatewayScheduleEvent {
   description?: string;
   agentId?: string;
   workspace?: string;
+  timezone?: string;
 }
 
 export interface GatewayTaskCompleteEvent {
@@ -120,14 +214,49 @@ export interface GatewayCronEvent {
   description?: string;
   schedule: string; // cron expression
   agentId?: string;
+  timezone?: string; // zone the cron expression is evaluated in
+}
+
+export interface GatewayCronUnregisterEvent {
+  id: string;
+  removedAt?: Date; // defaults to now
+}
+
+export interface GatewayCronRunEvent {
+  id: string;          // cron id, as sent with cron:register
+  runId?: string;
+  scheduledAt?: Date;  // the scheduled slot this run belongs to
+  startedAt?: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  error?: string;      // failure message (cron:run:fail)
 }
 
 export interface GatewayScheduleUpdateEvent {
   id: string;
+  occurrence?: Date; // original start of a single occurrence to change (recurring events)
   newTime?: Date;
   status?: EventStatus;
 }
 
 export interface GatewayScheduleCancelEvent {
   id: string;
+  occurrence?: Date; // original start of a single occurrence to cancel (recurring events)
+}
+
+// Emitted when someone edits an event from their calendar app (CalDAV PUT/DELETE):
+// clawcal:event:moved, clawcal:event:updated, clawcal:event:cancelled, clawcal:event:deleted
+export interface ClawCalEventChange {
+  uid: string;
+  title: string;
+  agent?: string;
+  project?: string;
+  occurrence?: Date;     // original start of the single occurrence that changed (recurring events)
+  start: Date;
+  end?: Date;
+  previousStart?: Date;  // set when the event was moved
+  previousEnd?: Date;
+  sequence: number;
+  changes: string[];     // fields that were edited, e.g. ['start', 'end']
+  source: 'caldav';
 }
@@ -0,0 +1,141 @@
+/**
+ * Just enough XML for WebDAV request bodies: elements with resolved
+ * namespaces, attributes and text. No DTDs, and entities are limited to the
+ * predefined ones and character references.
+ */
+export interface XmlElement {
+  ns: string;      // namespace URI, '' when there is none
+  name: string;    // local name
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  text: string;    // concatenated character data directly inside the element
+}
+
+const NAME = /^[A-Za-z_][\w.-]*(?::[A-Za-z_][\w.-]*)?/;
+const ATTRIBUTE = /^([A-Za-z_][\w.:-]*)\s*=\s*("([^"]*)"|'([^']*)')/;
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+/**
+ * Parse a document into its root element. Throws on anything that isn't
+ * well-formed enough to read.
+ */
+export function parseXml(source: string): XmlElement {
+  let pos = 0;
+  let root: XmlElement | null = null;
+  const stack: Array<{ element: XmlElement; qname: string; scope: Record<string, string> }> = [];
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    const text = source.slice(pos, lt === -1 ? source.length : lt);
+    if (stack.length > 0) {
+      stack[stack.length - 1].element.text += decodeEntities(text);
+    } else if (text.trim()) {
+      throw new Error('Text outside the root element');
+    }
+    if (lt === -1) break;
+    pos = lt;
+
+    if (source.startsWith('<?', pos)) {
+      pos = skipPast(source, pos, '?>');
+    } else if (source.startsWith('<!--', pos)) {
+      pos = skipPast(source, pos, '-->');
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      const end = source.indexOf(']]>', pos);
+      if (end === -1 || stack.length === 0) throw new Error('Unexpected CDATA section');
+      stack[stack.length - 1].element.text += source.slice(pos + 9, end);
+      pos = end + 3;
+    } else if (source.startsWith('<!', pos)) {
+      if (/^<!DOCTYPE/i.test(source.slice(pos, pos + 9))) throw new Error('DTDs are not supported');
+      throw new Error('Unexpected markup declaration');
+    } else if (source.startsWith('</', pos)) {
+      const end = source.indexOf('>', pos);
+      if (end === -1) throw new Error('Unterminated end tag');
+      const qname = source.slice(pos + 2, end).trim();
+      const open = stack.pop();
+      if (!open || open.qname !== qname) throw new Error(`Unexpected </${qname}>`);
+      pos = end + 1;
+    } else {
+      const nameMatch = source.slice(pos + 1).match(NAME);
+      if (!nameMatch) throw new Error('Malformed start tag');
+      const qname = nameMatch[0];
+      pos += 1 + qname.length;
+
+      const rawAttrs: Record<string, string> = {};
+      for (;;) {
+        const rest = source.slice(pos);
+        const space = rest.match(/^\s*/)![0].length;
+        pos += space;
+        const attr = source.slice(pos).match(ATTRIBUTE);
+        if (!attr) break;
+        if (space === 0) throw new Error('Attributes must be separated by whitespace');
+        rawAttrs[attr[1]] = decodeEntities(attr[3] ?? attr[4]);
+        pos += attr[0].length;
+      }
+
+      const selfClosing = source.startsWith('/>', pos);
+      if (!selfClosing && source[pos] !== '>') throw new Error(`Malformed <${qname}> tag`);
+      pos += selfClosing ? 2 : 1;
+
+      const parentScope = stack.length > 0 ? stack[stack.length - 1].scope : { xml: XML_NS };
+      const scope = { ...parentScope };
+      const attrs: Record<string, string> = {};
+      for (const [key, value] of Object.entries(rawAttrs)) {
+        if (key === 'xmlns') scope[''] = value;
+        else if (key.startsWith('xmlns:')) scope[key.slice(6)] = value;
+        else attrs[key] = value;
+      }
+
+      const colon = qname.indexOf(':');
+      const prefix = colon === -1 ? '' : qname.slice(0, colon);
+      const ns = scope[prefix];
+      if (ns === undefined && prefix) throw new Error(`Undeclared namespace prefix "${prefix}"`);
+
+      const element: XmlElement = { ns: ns ?? '', name: qname.slice(colon + 1), attrs, children: [], text: '' };
+      if (stack.length > 0) stack[stack.length - 1].element.children.push(element);
+      else if (root) throw new Error('More than one root element');
+      else root = element;
+
+      if (!selfClosing) stack.push({ element, qname, scope });
+    }
+  }
+
+  if (stack.length > 0) throw new Error(`Unclosed <${stack[stack.length - 1].qname}>`);
+  if (!root) throw new Error('No root element');
+  return root;
+}
+
+/** First child with the given namespace and local name. */
+export function findChild(element: XmlElement, ns: string, name: string): XmlElement | undefined {
+  return element.children.find(child => child.ns === ns && child.name === name);
+}
+
+/** All children with the given namespace and local name. */
+export function findChildren(element: XmlElement, ns: string, name: string): XmlElement[] {
+  return element.children.filter(child => child.ns === ns && child.name === name);
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+}
+
+function skipPast(source: string, pos: number, terminator: string): number {
+  const end = source.indexOf(terminator, pos);
+  if (end === -1) throw new Error(`Missing "${terminator}"`);
+  return end + terminator.length;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (whole, ref: string) => {
+    if (ref.startsWith('#x')) return String.fromCodePoint(parseInt(ref.slice(2), 16));
+    if (ref.startsWith('#')) return String.fromCodePoint(parseInt(ref.slice(1), 10));
+    if (ref in ENTITIES) return ENTITIES[ref];
+    throw new Error(`Unknown entity ${whole}`);
+  });
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { renderAgenda, webcalUrl } from '../src/agenda';
+import { EventOccurrence } from '../src/types';
+
+const now = new Date('2025-03-05T12:00:00Z');
+
+function occurrence(overrides: Partial<EventOccurrence> = {}): EventOccurrence {
+  const start = overrides.start ?? new Date('2025-03-05T09:00:00Z');
+  return {
+    uid: 'evt-1',
+    title: 'Ship release',
+    start,
+    end: new Date(start.getTime() + 30 * 60000),
+    ...overrides,
+  };
+}
+
+describe('renderAgenda', () => {
+  it('groups upcoming days soonest first and recent days latest first', () => {
+    const html = renderAgenda([
+      occurrence({ uid: 'later', title: 'Later', start: new Date('2025-03-07T09:00:00Z') }),
+      occurrence({ uid: 'today', title: 'Today', start: new Date('2025-03-05T15:00:00Z') }),
+      occurrence({ uid: 'yesterday', title: 'Yesterday', start: new Date('2025-03-04T09:00:00Z') }),
+      occurrence({ uid: 'last-week', title: 'Last week', start: new Date('2025-02-28T09:00:00Z') }),
+    ], { title: 'ClawCal — All Agents', now });
+
+    const headings = Array.from(html.matchAll(/<h[23]>([^<]+)<\/h[23]>/g)).map(m => m[1]);
+    expect(headings).toEqual([
+      'Upcoming',
+      'Today — Wed 5 Mar 2025',
+      'Fri 7 Mar 2025',
+      'Recent',
+      'Yesterday — Tue 4 Mar 2025',
+      'Fri 28 Feb 2025',
+    ]);
+  });
+
+  it('groups and times events in the configured zone', () => {
+    const html = renderAgenda([
+      occurrence({ start: new Date('2025-03-06T02:30:00Z') }),
+    ], { title: 'Agenda', now, timeZone: 'America/New_York' });
+
+    expect(html).toContain('Today — Wed 5 Mar 2025');
+    expect(html).toContain('<span class="time">21:30–22:00</span>');
+  });
+
+  it('shows category emoji, status, alerts, project and agent', () => {
+    const html = renderAgenda([occurrence({
+      category: 'launch',
+      status: 'IN_PROGRESS',
+      agent: 'marketing-agent',
+      project: 'myapp',
+      alerts: [{ minutes: 15 }, { minutes: 60 }],
+      url: 'https://example.com/launch',
+    })], { title: 'Agenda', now });
+
+    expect(html).toContain('📣 launch');
+    expect(html).toContain('<span class="status status-in_progress">In progress</span>');
+    expect(html).toContain('🔔 15 min, 1 h before');
+    expect(html).toContain('agent: marketing-agent');
+    expect(html).toContain('project: myapp');
+    expect(html).toContain('<a href="https://example.com/launch">Ship release</a>');
+  });
+
+  it('strikes through cancelled events and shows all-day events without times', () => {
+    const html = renderAgenda([
+      occurrence({ status: 'CANCELLED' }),
+      occurrence({ uid: 'all-day', title: 'Offsite', allDay: true, start: new Date('2025-03-06T00:00:00Z') }),
+    ], { title: 'Agenda', now });
+
+    expect(html).toContain('<li class="cancelled">');
+    expect(html).toContain('<span class="time">All day</span><span class="title">Offsite</span>');
+  });
+
+  it('escapes event content and only links web URLs', () => {
+    const html = renderAgenda([occurrence({
+      title: '<script>alert(1)</script>',
+      url: 'javascript:alert(1)',
+    })], { title: 'Agenda', now });
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('href="javascript:');
+  });
+
+  it('renders subscribe buttons and navigation links', () => {
+    const html = renderAgenda([], {
+      title: 'Agenda',
+      now,
+      subscribe: [{ label: 'All agents', url: webcalUrl('cal.example.com:18789', '/clawcal/feed.ics') }],
+      links: [{ label: 'dev-agent', url: '/clawcal/agenda/dev-agent' }],
+    });
+
+    expect(html).toContain('<a href="webcal://cal.example.com:18789/clawcal/feed.ics">Subscribe: All agents</a>');
+    expect(html).toContain('<a href="/clawcal/agenda/dev-agent">dev-agent</a>');
+    expect(html).toContain('<p class="empty">Nothing scheduled.</p>');
+    expect(html).not.toMatch(/<script|src=/);
+  });
+});
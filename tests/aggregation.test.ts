@@ -49,6 +49,10 @@ class MockEventSink implements EventSink {
     this.updateEvent(uid, { status: 'CANCELLED' });
   }
 
+  updateOccurrence(): void {}
+
+  cancelOccurrence(): void {}
+
   getEvent(uid: string): CalendarEvent | undefined {
     return this.events.get(uid);
   }
@@ -84,6 +88,9 @@ function makeConfig(overrides: Partial<CalendarConfig> = {}): CalendarConfig {
       },
     },
     cleanup: { max_past_events: 100, retention_days: 90 },
+    storage: { backend: 'ics', flush_interval_ms: 0, journal: false, journal_max_entries: 10000 },
+    feed_tokens: { enabled: false },
+    sharing: { enabled: false, max_days: 90 },
     ...overrides,
   };
 }
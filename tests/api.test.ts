@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Readable } from 'stream';
+import { existsSync, rmSync } from 'fs';
+import { join } from 'path';
+import { FeedManager } from '../src/feed-manager';
+import { EventJournal } from '../src/journal';
+import { createEventsApi, toEventUpdates } from '../src/api';
+
+const TEST_DIR = '/tmp/clawcal-api-test';
+
+function cleanDir() {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true });
+  }
+}
+
+/**
+ * Create a mock request that streams an optional body (objects as JSON).
+ */
+function mockReq(method: string, url: string, body?: unknown): IncomingMessage {
+  const raw = typeof body === 'string' ? body : JSON.stringify(body);
+  const req: any = Readable.from(body === undefined ? [] : [Buffer.from(raw)]);
+  req.method = method;
+  req.url = url;
+  req.headers = {};
+  return req;
+}
+
+/**
+ * Create a minimal mock response that captures status, headers and output.
+ */
+function mockRes(): ServerResponse & { _status: number; _headers: Record<string, string>; _body: string; json: () => any } {
+  const res: any = {
+    _status: 200,
+    _headers: {},
+    _body: '',
+    set statusCode(code: number) { res._status = code; },
+    get statusCode() { return res._status; },
+    setHeader(key: string, value: string) { res._headers[key.toLowerCase()] = value; },
+    end(body?: string) { res._body = body || ''; },
+    json: () => JSON.parse(res._body),
+  };
+  return res;
+}
+
+describe('events API', () => {
+  let feeds: FeedManager;
+  let handle: ReturnType<typeof createEventsApi>;
+
+  async function call(method: string, url: string, body?: unknown) {
+    const res = mockRes();
+    await handle(mockReq(method, url, body), res);
+    return res;
+  }
+
+  beforeEach(() => {
+    cleanDir();
+    feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: true });
+    handle = createEventsApi(feeds);
+    feeds.addEvent({ uid: 'a', title: 'Launch', start: new Date('2025-03-03T09:00:00Z'), category: 'launch', agent: 'marketing-agent', project: 'myapp' });
+    feeds.addEvent({ uid: 'b', title: 'Fix build', start: new Date('2025-03-01T09:00:00Z'), category: 'task', agent: 'dev-agent' });
+    feeds.addEvent({ uid: 'c', title: 'Post', start: new Date('2025-03-02T09:00:00Z'), category: 'post', agent: 'marketing-agent', project: 'myapp' });
+  });
+
+  afterEach(cleanDir);
+
+  it('lists events by start with filters and pagination', async () => {
+    const all = (await call('GET', '/clawcal/api/events')).json();
+    expect(all.events.map((e: any) => e.uid)).toEqual(['b', 'c', 'a']);
+    expect(all.total).toBe(3);
+
+    const filtered = (await call('GET', '/clawcal/api/events?project=myapp&limit=1&offset=1')).json();
+    expect(filtered).toMatchObject({ total: 2, limit: 1, offset: 1 });
+    expect(filtered.events.map((e: any) => e.uid)).toEqual(['a']);
+    expect(filtered.events[0].start).toBe('2025-03-03T09:00:00.000Z');
+  });
+
+  it('rejects bad list parameters', async () => {
+    expect((await call('GET', '/clawcal/api/events?limit=0'))._status).toBe(400);
+    expect((await call('GET', '/clawcal/api/events?status=done'))._status).toBe(400);
+  });
+
+  it('gets one event or 404s', async () => {
+    expect((await call('GET', '/clawcal/api/events/a')).json().event.title).toBe('Launch');
+    expect((await call('GET', '/clawcal/api/events/missing'))._status).toBe(404);
+  });
+
+  it('answers 400 for a malformed event ID instead of throwing', async () => {
+    const res = await call('GET', '/clawcal/api/events/%E0');
+    expect(res._status).toBe(400);
+    expect(res.json().error).toMatch(/malformed/i);
+  });
+
+  it('creates events from schedule parameters', async () => {
+    const res = await call('POST', '/clawcal/api/events', {
+      title: 'Standup',
+      date: '2025-03-04T16:00:00Z',
+      agent: 'dev-agent',
+      category: 'review',
+    });
+
+    expect(res._status).toBe(201);
+    const { event } = res.json();
+    expect(event.status).toBe('PLANNED');
+    expect(feeds.getAgentFeed('dev-agent')?.getEvent(event.uid)).toBeDefined();
+
+    expect((await call('POST', '/clawcal/api/events', { title: 'No date' }))._status).toBe(400);
+  });
+
+  it('rejects mistyped fields on create before anything is journaled', async () => {
+    const journal = new EventJournal(join(TEST_DIR, 'journal.jsonl'));
+    feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: true }, undefined, {}, undefined, journal);
+    handle = createEventsApi(feeds);
+    const base = { title: 'Standup', date: '2025-03-04T16:00:00Z' };
+
+    for (const [field, value] of [['duration', 'abc'], ['alertMinutes', 'z'], ['agent', 5], ['allDay', 'yes'], ['recurrence', 'weekly']] as const) {
+      const res = await call('POST', '/clawcal/api/events', { ...base, [field]: value });
+      expect(res._status).toBe(400);
+      expect(res.json().error).toContain(field);
+    }
+
+    const before = journal.size;
+    expect(feeds.replayJournal()).toBe(before);
+    expect(feeds.getAllEvents()).toHaveLength(3);
+  });
+
+  it('patches fields and bumps the sequence', async () => {
+    const res = await call('PATCH', '/clawcal/api/events/a', { title: 'Launch day', start: '2025-03-04T09:00:00Z', url: null });
+
+    expect(res._status).toBe(200);
+    expect(res.json().event).toMatchObject({ title: 'Launch day', start: '2025-03-04T09:00:00.000Z', sequence: 1 });
+    expect(feeds.getAgentFeed('marketing-agent')?.getEvent('a')?.title).toBe('Launch day');
+
+    const invalid = await call('PATCH', '/clawcal/api/events/a', { status: 'DONE' });
+    expect(invalid._status).toBe(400);
+    expect(invalid.json().error).toContain('status must be one of');
+  });
+
+  it('moves the end with the start and refuses an end before the start', async () => {
+    feeds.addEvent({ uid: 'm', title: 'Review', start: new Date('2025-03-05T10:00:00Z'), end: new Date('2025-03-05T11:30:00Z') });
+
+    const moved = await call('PATCH', '/clawcal/api/events/m', { start: '2025-03-06T14:00:00Z' });
+    expect(moved.json().event).toMatchObject({ start: '2025-03-06T14:00:00.000Z', end: '2025-03-06T15:30:00.000Z' });
+
+    const backwards = await call('PATCH', '/clawcal/api/events/m', { end: '2025-03-06T13:00:00Z' });
+    expect(backwards._status).toBe(400);
+    expect(backwards.json().error).toBe('end must not be before start');
+    expect(feeds.getEvent('m')?.end?.toISOString()).toBe('2025-03-06T15:30:00.000Z');
+  });
+
+  it('cancels and deletes events', async () => {
+    expect((await call('POST', '/clawcal/api/events/a/cancel')).json().event.status).toBe('CANCELLED');
+
+    expect((await call('DELETE', '/clawcal/api/events/b'))._status).toBe(204);
+    expect(feeds.getEvent('b')).toBeUndefined();
+  });
+
+  it('rejects unsupported methods and non-JSON bodies', async () => {
+    const res = await call('PUT', '/clawcal/api/events/a');
+    expect(res._status).toBe(405);
+    expect(res._headers['allow']).toBe('GET, PATCH, DELETE');
+
+    const bad = await call('PATCH', '/clawcal/api/events/a', 'not json');
+    expect(bad._status).toBe(400);
+    expect(bad.json().error).toBe('Body must be JSON');
+  });
+});
+
+describe('toEventUpdates', () => {
+  it('converts dates and clears nulls', () => {
+    const updates = toEventUpdates({ end: null, start: '2025-03-04T09:00:00Z', duration: null });
+    expect(updates.start).toEqual(new Date('2025-03-04T09:00:00Z'));
+    expect('end' in updates && updates.end === undefined).toBe(true);
+    expect('duration' in updates && updates.duration === undefined).toBe(true);
+  });
+
+  it('accepts transparency for free/busy', () => {
+    expect(toEventUpdates({ transparency: 'TRANSPARENT' }).transparency).toBe('TRANSPARENT');
+    expect(() => toEventUpdates({ transparency: 'FREE' })).toThrow('transparency must be');
+  });
+
+  it('refuses fields that would move an event between feeds', () => {
+    expect(() => toEventUpdates({ agent: 'dev-agent' })).toThrow("agent can't be changed");
+    expect(() => toEventUpdates({ color: 'red' })).toThrow('Unknown field "color"');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { toAtom } from '../src/atom';
+import { CalendarEvent } from '../src/types';
+
+const options = { title: 'OpenClaw — All Agents', id: 'urn:clawcal:feed:/clawcal/feed.atom', selfUrl: '/clawcal/feed.atom' };
+
+function event(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    uid: 'evt-1',
+    title: 'Shipped 12 tasks',
+    start: new Date('2025-03-03T09:00:00Z'),
+    lastModified: new Date('2025-03-03T09:05:00Z'),
+    ...overrides,
+  };
+}
+
+function entries(xml: string): string[] {
+  return xml.split('<entry>').slice(1);
+}
+
+describe('toAtom', () => {
+  it('renders a feed with one entry per event', () => {
+    const xml = toAtom([event({ agent: 'dev-agent', project: 'myapp', category: 'task', url: 'https://example.com/pr/1' })], options);
+
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(xml).toContain('<id>urn:clawcal:feed:/clawcal/feed.atom</id>');
+    expect(xml).toContain('<title>OpenClaw — All Agents</title>');
+    expect(xml).toContain('<link rel="self" type="application/atom+xml" href="/clawcal/feed.atom"/>');
+    expect(xml).toContain('<updated>2025-03-03T09:05:00.000Z</updated>');
+
+    const [entry] = entries(xml);
+    expect(entry).toContain('<id>urn:clawcal:event:evt-1:0</id>');
+    expect(entry).toContain('<title>Shipped 12 tasks</title>');
+    expect(entry).toContain('<author><name>dev-agent</name></author>');
+    expect(entry).toContain('<category term="task"/>');
+    expect(entry).toContain('<link rel="alternate" href="https://example.com/pr/1"/>');
+    expect(entry).toContain('When: 2025-03-03 09:00 (UTC)');
+    expect(entry).toContain('Project: myapp');
+  });
+
+  it('orders entries by last modification, newest first', () => {
+    const xml = toAtom([
+      event({ uid: 'old', lastModified: new Date('2025-03-01T00:00:00Z') }),
+      event({ uid: 'new', lastModified: new Date('2025-03-05T00:00:00Z') }),
+      event({ uid: 'legacy', lastModified: undefined, start: new Date('2025-03-03T00:00:00Z') }),
+    ], options);
+
+    const ids = entries(xml).map(e => e.match(/urn:clawcal:event:([^:]+):/)![1]);
+    expect(ids).toEqual(['new', 'legacy', 'old']);
+    expect(xml).toContain('<updated>2025-03-05T00:00:00.000Z</updated>');
+  });
+
+  it('gives each revision its own entry id and marks updates and cancellations', () => {
+    const updated = entries(toAtom([event({ sequence: 2 })], options))[0];
+    expect(updated).toContain('<id>urn:clawcal:event:evt-1:2</id>');
+    expect(updated).toContain('<title>Updated: Shipped 12 tasks</title>');
+
+    const cancelled = entries(toAtom([event({ sequence: 3, status: 'CANCELLED' })], options))[0];
+    expect(cancelled).toContain('<title>Cancelled: Shipped 12 tasks</title>');
+    expect(cancelled).toContain('Status: Cancelled');
+  });
+
+  it('escapes markup and renders times in the event zone', () => {
+    const xml = toAtom([event({
+      title: 'Launch <v2> & "beta"',
+      description: 'Check <b>notes</b>',
+      timezone: 'Europe/Berlin',
+      rrule: 'FREQ=WEEKLY;BYDAY=MO',
+    })], { ...options, timeZone: 'America/New_York' });
+
+    expect(xml).toContain('<title>Launch &lt;v2&gt; &amp; &quot;beta&quot;</title>');
+    expect(xml).toContain('Check &lt;b&gt;notes&lt;/b&gt;');
+    expect(xml).toContain('When: 2025-03-03 10:00 (Europe/Berlin)');
+    expect(xml).toContain('Repeats: FREQ=WEEKLY;BYDAY=MO');
+  });
+
+  it('keeps only the most recently modified entries', () => {
+    const events = Array.from({ length: 5 }, (_, i) => event({
+      uid: `evt-${i}`,
+      lastModified: new Date(Date.UTC(2025, 2, 1 + i)),
+    }));
+
+    const xml = toAtom(events, { ...options, maxEntries: 2 });
+    expect(entries(xml)).toHaveLength(2);
+    expect(xml).toContain('urn:clawcal:event:evt-4:0');
+    expect(xml).not.toContain('urn:clawcal:event:evt-2:0');
+  });
+
+  it('falls back to the given updated time for an empty feed', () => {
+    const xml = toAtom([], { ...options, updated: new Date('2025-01-01T00:00:00Z') });
+    expect(xml).toContain('<updated>2025-01-01T00:00:00.000Z</updated>');
+    expect(entries(xml)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,313 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Readable } from 'stream';
+import { existsSync, rmSync } from 'fs';
+import { FeedManager } from '../src/feed-manager';
+import { createCalDavHandler } from '../src/caldav';
+import { parseXml, findChild, findChildren, XmlElement } from '../src/xml';
+import { ClawCalEventChange } from '../src/types';
+
+const TEST_DIR = '/tmp/clawcal-caldav-test';
+const DAV = 'DAV:';
+const CALDAV = 'urn:ietf:params:xml:ns:caldav';
+
+function cleanDir() {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true });
+  }
+}
+
+/**
+ * Create a mock request that streams an optional XML body.
+ */
+function mockReq(method: string, url: string, body?: string, headers: Record<string, string> = {}): IncomingMessage {
+  const req: any = Readable.from(body === undefined ? [] : [Buffer.from(body)]);
+  req.method = method;
+  req.url = url;
+  req.headers = headers;
+  return req;
+}
+
+/**
+ * Create a minimal mock response that captures status, headers and output.
+ */
+function mockRes(): ServerResponse & { _status: number; _headers: Record<string, string>; _body: string } {
+  const res: any = {
+    _status: 200,
+    _headers: {},
+    _body: '',
+    set statusCode(code: number) { res._status = code; },
+    get statusCode() { return res._status; },
+    setHeader(key: string, value: string) { res._headers[key.toLowerCase()] = value; },
+    end(body?: string | Buffer) { res._body = body ? body.toString() : ''; },
+  };
+  return res;
+}
+
+/** `<D:response>` elements by href. */
+function responses(body: string): Map<string, XmlElement> {
+  const root = parseXml(body);
+  return new Map(findChildren(root, DAV, 'response').map(r => [findChild(r, DAV, 'href')!.text, r]));
+}
+
+/** Value of a property from the response's 200 propstat. */
+function prop(response: XmlElement, ns: string, name: string): XmlElement | undefined {
+  const ok = findChildren(response, DAV, 'propstat').find(p => findChild(p, DAV, 'status')!.text.includes('200'));
+  return ok && findChild(findChild(ok, DAV, 'prop')!, ns, name);
+}
+
+const PROPS = `<?xml version="1.0"?>
+<D:propfind xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav" xmlns:CS="http://calendarserver.org/ns/">
+  <D:prop><D:resourcetype/><D:displayname/><D:getetag/><D:sync-token/><CS:getctag/><C:calendar-home-set/><D:unknown-prop/></D:prop>
+</D:propfind>`;
+
+describe('CalDAV', () => {
+  let feeds: FeedManager;
+  let handle: ReturnType<typeof createCalDavHandler>;
+
+  async function call(method: string, url: string, body?: string, headers?: Record<string, string>) {
+    const res = mockRes();
+    await handle(mockReq(method, url, body, headers), res);
+    return res;
+  }
+
+  beforeEach(() => {
+    cleanDir();
+    feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: true, per_project: true });
+    handle = createCalDavHandler(feeds);
+    feeds.addEvent({ uid: 'launch', title: 'Launch', start: new Date('2025-03-03T09:00:00Z'), agent: 'marketing-agent', project: 'my app' });
+    feeds.addEvent({ uid: 'build', title: 'Fix build', start: new Date('2025-03-10T09:00:00Z'), agent: 'dev-agent' });
+  });
+
+  afterEach(cleanDir);
+
+  it('lists a collection per feed under the calendar home', async () => {
+    const res = await call('PROPFIND', '/clawcal/dav/', PROPS, { depth: '1' });
+    expect(res._status).toBe(207);
+
+    const byHref = responses(res._body);
+    expect(Array.from(byHref.keys())).toEqual([
+      '/clawcal/dav/',
+      '/clawcal/dav/all/',
+      '/clawcal/dav/agent-marketing-agent/',
+      '/clawcal/dav/agent-dev-agent/',
+      '/clawcal/dav/project-my%20app/',
+    ]);
+
+    const home = byHref.get('/clawcal/dav/')!;
+    expect(findChild(prop(home, CALDAV, 'calendar-home-set')!, DAV, 'href')!.text).toBe('/clawcal/dav/');
+
+    const all = byHref.get('/clawcal/dav/all/')!;
+    expect(findChild(prop(all, DAV, 'resourcetype')!, CALDAV, 'calendar')).toBeDefined();
+    expect(prop(all, DAV, 'sync-token')!.text).toMatch(/^urn:clawcal:sync:all:/);
+
+    // Unknown properties come back in a 404 propstat
+    const notFound = findChildren(all, DAV, 'propstat').find(p => findChild(p, DAV, 'status')!.text.includes('404'))!;
+    expect(findChild(findChild(notFound, DAV, 'prop')!, DAV, 'unknown-prop')).toBeDefined();
+  });
+
+  it('lists event resources in a collection and serves them with matching ETags', async () => {
+    const res = await call('PROPFIND', '/clawcal/dav/agent-marketing-agent/', PROPS, { depth: '1' });
+    const byHref = responses(res._body);
+    expect(byHref.has('/clawcal/dav/agent-marketing-agent/launch.ics')).toBe(true);
+    expect(byHref.has('/clawcal/dav/agent-marketing-agent/build.ics')).toBe(false);
+
+    const etag = prop(byHref.get('/clawcal/dav/agent-marketing-agent/launch.ics')!, DAV, 'getetag')!.text;
+    const get = await call('GET', '/clawcal/dav/agent-marketing-agent/launch.ics');
+    expect(get._status).toBe(200);
+    expect(get._headers['etag']).toBe(etag);
+    expect(get._body).toContain('UID:launch');
+    expect(get._body).not.toContain('UID:build');
+
+    const depthZero = await call('PROPFIND', '/clawcal/dav/all/', PROPS, { depth: '0' });
+    expect(responses(depthZero._body).size).toBe(1);
+
+    expect((await call('GET', '/clawcal/dav/all/missing.ics'))._status).toBe(404);
+    expect((await call('PROPFIND', '/clawcal/dav/agent-nobody/', PROPS))._status).toBe(404);
+  });
+
+  it('answers calendar-query with a time-range', async () => {
+    const res = await call('REPORT', '/clawcal/dav/all/', `<?xml version="1.0"?>
+      <C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+        <D:prop><D:getetag/><C:calendar-data/></D:prop>
+        <C:filter><C:comp-filter name="VCALENDAR"><C:comp-filter name="VEVENT">
+          <C:time-range start="20250301T000000Z" end="20250305T000000Z"/>
+        </C:comp-filter></C:comp-filter></C:filter>
+      </C:calendar-query>`, { depth: '1' });
+
+    expect(res._status).toBe(207);
+    const byHref = responses(res._body);
+    expect(Array.from(byHref.keys())).toEqual(['/clawcal/dav/all/launch.ics']);
+    expect(prop(byHref.get('/clawcal/dav/all/launch.ics')!, CALDAV, 'calendar-data')!.text).toContain('SUMMARY:Launch');
+
+    const todos = await call('REPORT', '/clawcal/dav/all/', `<C:calendar-query xmlns:C="urn:ietf:params:xml:ns:caldav">
+      <C:filter><C:comp-filter name="VCALENDAR"><C:comp-filter name="VTODO"/></C:comp-filter></C:filter>
+    </C:calendar-query>`);
+    expect(responses(todos._body).size).toBe(0);
+  });
+
+  it('answers calendar-multiget, with 404s for unknown hrefs', async () => {
+    const res = await call('REPORT', '/clawcal/dav/all/', `<C:calendar-multiget xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+      <D:prop><C:calendar-data/></D:prop>
+      <D:href>/clawcal/dav/all/build.ics</D:href>
+      <D:href>https://gateway.example/clawcal/dav/all/launch.ics</D:href>
+      <D:href>/clawcal/dav/all/gone.ics</D:href>
+    </C:calendar-multiget>`);
+
+    const byHref = responses(res._body);
+    expect(prop(byHref.get('/clawcal/dav/all/build.ics')!, CALDAV, 'calendar-data')!.text).toContain('UID:build');
+    expect(prop(byHref.get('/clawcal/dav/all/launch.ics')!, CALDAV, 'calendar-data')!.text).toContain('UID:launch');
+    expect(findChild(byHref.get('/clawcal/dav/all/gone.ics')!, DAV, 'status')!.text).toContain('404');
+  });
+
+  it('reports changes and removals since a sync token', async () => {
+    const sync = (token: string) => call('REPORT', '/clawcal/dav/all/', `<D:sync-collection xmlns:D="DAV:">
+      <D:sync-token>${token}</D:sync-token><D:sync-level>1</D:sync-level><D:prop><D:getetag/></D:prop>
+    </D:sync-collection>`);
+
+    const initial = await sync('');
+    expect(responses(initial._body).size).toBe(2);
+    const token = findChild(parseXml(initial._body), DAV, 'sync-token')!.text;
+
+    expect(responses((await sync(token))._body).size).toBe(0);
+
+    feeds.updateEvent('launch', { title: 'Launch v2' });
+    feeds.removeEvent('build');
+    feeds.addEvent({ uid: 'post', title: 'Post', start: new Date('2025-03-04T09:00:00Z'), agent: 'marketing-agent' });
+
+    const delta = await sync(token);
+    const byHref = responses(delta._body);
+    expect(Array.from(byHref.keys()).sort()).toEqual([
+      '/clawcal/dav/all/build.ics',
+      '/clawcal/dav/all/launch.ics',
+      '/clawcal/dav/all/post.ics',
+    ]);
+    expect(findChild(byHref.get('/clawcal/dav/all/build.ics')!, DAV, 'status')!.text).toContain('404');
+    expect(findChild(parseXml(delta._body), DAV, 'sync-token')!.text).not.toBe(token);
+
+    const invalid = await sync('urn:clawcal:sync:all:zzz-1');
+    expect(invalid._status).toBe(403);
+    expect(invalid._body).toContain('valid-sync-token');
+  });
+
+  it('advertises CalDAV on OPTIONS and rejects what it cannot do', async () => {
+    const options = await call('OPTIONS', '/clawcal/dav/');
+    expect(options._headers['dav']).toContain('calendar-access');
+    expect(options._headers['allow']).toContain('PUT');
+
+    // Events are only created by agents
+    expect((await call('PUT', '/clawcal/dav/all/new.ics', 'BEGIN:VCALENDAR'))._status).toBe(403);
+    expect((await call('MKCALENDAR', '/clawcal/dav/new/'))._status).toBe(404);
+    expect((await call('MKCALENDAR', '/clawcal/dav/all/'))._status).toBe(405);
+    expect((await call('PROPFIND', '/clawcal/dav/', '<not-xml'))._status).toBe(400);
+  });
+});
+
+describe('CalDAV edits', () => {
+  let feeds: FeedManager;
+  let handle: ReturnType<typeof createCalDavHandler>;
+  let emitted: Array<{ event: string; change: ClawCalEventChange }>;
+
+  async function call(method: string, url: string, body?: string, headers?: Record<string, string>) {
+    const res = mockRes();
+    await handle(mockReq(method, url, body, headers), res);
+    return res;
+  }
+
+  beforeEach(() => {
+    cleanDir();
+    feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: true });
+    emitted = [];
+    handle = createCalDavHandler(feeds, { emit: (event, change) => emitted.push({ event, change }) });
+    feeds.addEvent({ uid: 'tweet', title: 'Tweet', start: new Date('2025-03-03T09:00:00Z'), duration: 30, agent: 'marketing-agent', project: 'myapp' });
+    feeds.addEvent({ uid: 'standup', title: 'Standup', start: new Date('2025-03-03T10:00:00Z'), end: new Date('2025-03-03T10:15:00Z'), rrule: 'FREQ=DAILY', agent: 'dev-agent' });
+  });
+
+  afterEach(cleanDir);
+
+  it('moves an event dragged in a calendar app, bumping SEQUENCE', async () => {
+    const get = await call('GET', '/clawcal/dav/agent-marketing-agent/tweet.ics');
+    const moved = get._body
+      .replace('DTSTART:20250303T090000Z', 'DTSTART:20250304T140000Z')
+      .replace('DURATION:PT30M', 'DTEND:20250304T143000Z');
+
+    const put = await call('PUT', '/clawcal/dav/agent-marketing-agent/tweet.ics', moved, { 'if-match': get._headers['etag'] });
+    expect(put._status).toBe(204);
+
+    const event = feeds.getEvent('tweet')!;
+    expect(event.start.toISOString()).toBe('2025-03-04T14:00:00.000Z');
+    expect(event.end!.toISOString()).toBe('2025-03-04T14:30:00.000Z');
+    expect(event.sequence).toBe(1);
+    expect(feeds.getAgentFeed('marketing-agent')!.toICS()).toContain('SEQUENCE:1');
+
+    expect(emitted).toHaveLength(1);
+    expect(emitted[0].event).toBe('clawcal:event:moved');
+    expect(emitted[0].change).toMatchObject({
+      uid: 'tweet',
+      agent: 'marketing-agent',
+      project: 'myapp',
+      start: new Date('2025-03-04T14:00:00Z'),
+      previousStart: new Date('2025-03-03T09:00:00Z'),
+      previousEnd: new Date('2025-03-03T09:30:00Z'),
+      sequence: 1,
+      changes: ['start', 'end'],
+      source: 'caldav',
+    });
+
+    // The old ETag no longer matches
+    const stale = await call('PUT', '/clawcal/dav/agent-marketing-agent/tweet.ics', moved, { 'if-match': get._headers['etag'] });
+    expect(stale._status).toBe(412);
+  });
+
+  it('ignores a PUT that changes nothing and reports other edits as updates', async () => {
+    const get = await call('GET', '/clawcal/dav/all/tweet.ics');
+    expect((await call('PUT', '/clawcal/dav/all/tweet.ics', get._body))._status).toBe(204);
+    expect(emitted).toHaveLength(0);
+    expect(feeds.getEvent('tweet')!.sequence ?? 0).toBe(0);
+
+    await call('PUT', '/clawcal/dav/all/tweet.ics', get._body.replace('SUMMARY:Tweet', 'SUMMARY:Tweet the launch'));
+    expect(feeds.getEvent('tweet')!.title).toBe('Tweet the launch');
+    expect(emitted.map(e => [e.event, e.change.changes])).toEqual([['clawcal:event:updated', ['title']]]);
+
+    const wrongUid = await call('PUT', '/clawcal/dav/all/tweet.ics', get._body.replace('UID:tweet@clawcal', 'UID:other@clawcal'));
+    expect(wrongUid._status).toBe(400);
+  });
+
+  it('applies moved and deleted occurrences of a recurring event', async () => {
+    const get = await call('GET', '/clawcal/dav/all/standup.ics');
+    const edited = get._body.replace('END:VEVENT', [
+      'EXDATE:20250305T100000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:standup@clawcal',
+      'RECURRENCE-ID:20250304T100000Z',
+      'DTSTART:20250304T113000Z',
+      'DTEND:20250304T114500Z',
+      'SUMMARY:Standup',
+      'END:VEVENT',
+    ].join('\r\n'));
+
+    expect((await call('PUT', '/clawcal/dav/all/standup.ics', edited))._status).toBe(204);
+
+    const event = feeds.getEvent('standup')!;
+    expect(event.exdate!.map(d => d.toISOString())).toEqual(['2025-03-05T10:00:00.000Z']);
+    expect(event.overrides![0]).toMatchObject({ recurrenceId: new Date('2025-03-04T10:00:00Z'), start: new Date('2025-03-04T11:30:00Z') });
+
+    expect(emitted.map(e => e.event)).toEqual(['clawcal:event:cancelled', 'clawcal:event:moved']);
+    expect(emitted[1].change).toMatchObject({
+      occurrence: new Date('2025-03-04T10:00:00Z'),
+      start: new Date('2025-03-04T11:30:00Z'),
+      previousStart: new Date('2025-03-04T10:00:00Z'),
+    });
+  });
+
+  it('deletes an event and tells the agent', async () => {
+    const etag = (await call('GET', '/clawcal/dav/all/tweet.ics'))._headers['etag'];
+    expect((await call('DELETE', '/clawcal/dav/all/tweet.ics', undefined, { 'if-match': '"stale"' }))._status).toBe(412);
+    expect((await call('DELETE', '/clawcal/dav/all/tweet.ics', undefined, { 'if-match': etag }))._status).toBe(204);
+
+    expect(feeds.getEvent('tweet')).toBeUndefined();
+    expect((await call('GET', '/clawcal/dav/agent-marketing-agent/tweet.ics'))._status).toBe(404);
+    expect(emitted.map(e => [e.event, e.change.uid, e.change.agent])).toEqual([['clawcal:event:deleted', 'tweet', 'marketing-agent']]);
+  });
+});
@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { existsSync, unlinkSync, readFileSync } from 'fs';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, unlinkSync, readFileSync, writeFileSync, readdirSync, statSync } from 'fs';
 import { CalendarManager, formatICSDate, formatICSDateOnly, escapeICS, unescapeICS, foldLine, parseICSDate, stripControl, sanitizeContent } from '../src/calendar';
 
 const TEST_FILE = '/tmp/clawcal-test.ics';
@@ -37,6 +37,62 @@ describe('CalendarManager', () => {
     expect(content).toContain('STATUS:TENTATIVE');
   });
 
+  it('renders only the events passing an include predicate', () => {
+    calendar.addEvent({ uid: 'keep', title: 'Keep', start: new Date('2025-02-25T09:00:00Z') });
+    calendar.addEvent({ uid: 'drop', title: 'Drop', start: new Date('2025-02-25T10:00:00Z'), timezone: 'Europe/Berlin' });
+
+    const filtered = calendar.toICS(event => event.uid === 'keep');
+    expect(filtered).toContain('UID:keep@clawcal');
+    expect(filtered).not.toContain('UID:drop@clawcal');
+    // No VTIMEZONE for zones only the dropped events use
+    expect(filtered).not.toContain('BEGIN:VTIMEZONE');
+    expect(calendar.toICS()).toContain('UID:drop@clawcal');
+  });
+
+  it('changes its version tag and modification time with the content', () => {
+    const tag = calendar.getVersionTag();
+    calendar.addEvent({ uid: 'v-1', title: 'Versioned', start: new Date('2025-02-25T09:00:00Z') });
+    expect(calendar.getVersionTag()).not.toBe(tag);
+
+    const changedTag = calendar.getVersionTag();
+    calendar.toICS();
+    expect(calendar.getVersionTag()).toBe(changedTag);
+
+    // Loaded from disk, the file's mtime is the modification time
+    const reloaded = new CalendarManager(TEST_FILE, 'Test Calendar');
+    expect(reloaded.getLastModified().getTime()).toBe(statSync(TEST_FILE).mtime.getTime());
+
+    // Instances never share a tag, even when created in the same millisecond
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const first = new CalendarManager(TEST_FILE, 'Test Calendar');
+      const second = new CalendarManager(TEST_FILE, 'Test Calendar');
+      expect(first.getVersionTag()).not.toBe(second.getVersionTag());
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('lists UIDs changed and removed since a version tag', () => {
+    calendar.addEvent({ uid: 'keep', title: 'Keep', start: new Date('2025-02-25T09:00:00Z') });
+    calendar.addEvent({ uid: 'edit', title: 'Edit', start: new Date('2025-02-26T09:00:00Z') });
+    calendar.addEvent({ uid: 'drop', title: 'Drop', start: new Date('2025-02-27T09:00:00Z') });
+    const tag = calendar.getVersionTag();
+
+    calendar.updateEvent('edit', { title: 'Edited' });
+    calendar.removeEvent('drop');
+    expect(calendar.getChangesSince(tag)).toEqual({ changed: ['edit'], removed: ['drop'] });
+    expect(calendar.getChangesSince(calendar.getVersionTag())).toEqual({ changed: [], removed: [] });
+
+    // Tags from another instance (e.g. before a restart) can't be answered
+    expect(calendar.getChangesSince('abc-1')).toBeNull();
+    expect(new CalendarManager(TEST_FILE, 'Test Calendar').getChangesSince(tag)).toBeNull();
+
+    expect(calendar.getEventICS('edit')).toContain('SUMMARY:Edited');
+    expect(calendar.getEventICS('edit')).not.toContain('UID:keep');
+    expect(calendar.getEventICS('drop')).toBeUndefined();
+  });
+
   it('uses CRLF line endings', () => {
     calendar.addEvent({
       uid: 'test-crlf',
@@ -87,6 +143,26 @@ describe('CalendarManager', () => {
     expect(content).toContain('DTSTART:20250226T100000Z');
   });
 
+  it('stamps LAST-MODIFIED on every change and restores it', () => {
+    calendar.addEvent({
+      uid: 'test-modified',
+      title: 'Tracked',
+      start: new Date('2025-02-25T09:00:00Z'),
+      lastModified: new Date('2025-02-20T08:00:00Z'),
+    });
+    expect(readFileSync(TEST_FILE, 'utf-8')).toContain('LAST-MODIFIED:20250220T080000Z');
+
+    calendar.cancelOccurrence('test-modified', new Date('2025-02-25T09:00:00Z'), new Date('2025-02-21T08:00:00Z'));
+    expect(calendar.getEvent('test-modified')?.lastModified?.toISOString()).toBe('2025-02-21T08:00:00.000Z');
+
+    calendar.updateEvent('test-modified', { title: 'Tracked again' });
+    const stamped = calendar.getEvent('test-modified')?.lastModified;
+    expect(stamped!.getTime()).toBeGreaterThan(new Date('2025-02-21T08:00:00Z').getTime());
+
+    const restored = new CalendarManager(TEST_FILE, 'Test Calendar');
+    expect(restored.getEvent('test-modified')?.lastModified?.getTime()).toBe(Math.floor(stamped!.getTime() / 1000) * 1000);
+  });
+
   it('cancels events with STATUS:CANCELLED', () => {
     calendar.addEvent({
       uid: 'test-cancel',
@@ -202,6 +278,24 @@ describe('CalendarManager', () => {
     expect(content).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO');
   });
 
+  it('writes and restores RDATE lists', () => {
+    calendar.addEvent({
+      uid: 'test-rdate',
+      title: 'Billing Run',
+      start: new Date('2025-03-01T08:00:00Z'),
+      rdate: [new Date('2025-03-03T08:00:00Z'), new Date('2025-03-10T08:00:00Z')],
+    });
+
+    const content = readFileSync(TEST_FILE, 'utf-8');
+    expect(content).toContain('RDATE:20250303T080000Z,20250310T080000Z');
+
+    const restored = new CalendarManager(TEST_FILE);
+    expect(restored.getEvent('test-rdate')?.rdate?.map(d => d.toISOString())).toEqual([
+      '2025-03-03T08:00:00.000Z',
+      '2025-03-10T08:00:00.000Z',
+    ]);
+  });
+
   it('generates VALARM blocks for alerts', () => {
     calendar.addEvent({
       uid: 'test-alarm',
@@ -313,6 +407,126 @@ describe('CalendarManager', () => {
   });
 });
 
+describe('CalendarManager time zones', () => {
+  let calendar: CalendarManager;
+
+  beforeEach(() => {
+    if (existsSync(TEST_FILE)) unlinkSync(TEST_FILE);
+    calendar = new CalendarManager(TEST_FILE, 'Test Calendar', { timezone: 'America/Los_Angeles' });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_FILE)) unlinkSync(TEST_FILE);
+  });
+
+  it('writes TZID-qualified local times and the default zone header', () => {
+    calendar.addEvent({
+      uid: 'tz-1',
+      title: 'Standup',
+      start: new Date('2025-07-01T16:00:00Z'),
+      duration: 15,
+    });
+
+    const content = readFileSync(TEST_FILE, 'utf-8');
+    expect(content).toContain('X-WR-TIMEZONE:America/Los_Angeles');
+    expect(content).toContain('DTSTART;TZID=America/Los_Angeles:20250701T090000');
+  });
+
+  it('generates a VTIMEZONE with yearly DST rules', () => {
+    calendar.addEvent({
+      uid: 'tz-2',
+      title: 'Weekly Digest',
+      start: new Date('2025-02-24T16:00:00Z'),
+      rrule: 'FREQ=WEEKLY;BYDAY=MO',
+    });
+
+    const content = readFileSync(TEST_FILE, 'utf-8');
+    expect(content).toContain('BEGIN:VTIMEZONE');
+    expect(content).toContain('TZID:America/Los_Angeles');
+    expect(content).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU');
+    expect(content).toContain('RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU');
+    expect(content).toContain('TZOFFSETFROM:-0800');
+    expect(content).toContain('TZOFFSETTO:-0700');
+    // VTIMEZONE comes before the events that reference it
+    expect(content.indexOf('BEGIN:VTIMEZONE')).toBeLessThan(content.indexOf('BEGIN:VEVENT'));
+  });
+
+  it('honors a per-event zone over the calendar default', () => {
+    calendar.addEvent({
+      uid: 'tz-3',
+      title: 'Berlin Launch',
+      start: new Date('2025-03-10T08:00:00Z'),
+      timezone: 'Europe/Berlin',
+    });
+
+    const content = readFileSync(TEST_FILE, 'utf-8');
+    expect(content).toContain('DTSTART;TZID=Europe/Berlin:20250310T090000');
+    expect(content).toContain('TZID:Europe/Berlin');
+    expect(content).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU');
+  });
+
+  it('keeps UTC events in Z form without a VTIMEZONE', () => {
+    const utc = new CalendarManager(TEST_FILE, 'UTC Calendar');
+    utc.addEvent({ uid: 'tz-utc', title: 'UTC', start: new Date('2025-02-25T09:00:00Z') });
+
+    const content = readFileSync(TEST_FILE, 'utf-8');
+    expect(content).toContain('X-WR-TIMEZONE:UTC');
+    expect(content).toContain('DTSTART:20250225T090000Z');
+    expect(content).not.toContain('BEGIN:VTIMEZONE');
+  });
+
+  it('puts all-day events on the local calendar day', () => {
+    calendar.addEvent({
+      uid: 'tz-allday',
+      title: 'Shipped',
+      start: new Date('2025-02-26T03:00:00Z'), // 7pm on the 25th in Pacific time
+      allDay: true,
+    });
+
+    const content = readFileSync(TEST_FILE, 'utf-8');
+    expect(content).toContain('DTSTART;VALUE=DATE:20250225');
+  });
+
+  it('round-trips TZID parameters and all-day dates across instances', () => {
+    calendar.addEvent({
+      uid: 'tz-persist',
+      title: 'Berlin Sync',
+      start: new Date('2025-03-10T08:00:00Z'),
+      end: new Date('2025-03-10T09:00:00Z'),
+      timezone: 'Europe/Berlin',
+    });
+    calendar.addEvent({
+      uid: 'tz-persist-allday',
+      title: 'Shipped',
+      start: new Date('2025-02-26T03:00:00Z'),
+      allDay: true,
+    });
+
+    const restored = new CalendarManager(TEST_FILE, 'Test Calendar', { timezone: 'America/Los_Angeles' });
+    const event = restored.getEvent('tz-persist');
+    expect(event?.start.toISOString()).toBe('2025-03-10T08:00:00.000Z');
+    expect(event?.end?.toISOString()).toBe('2025-03-10T09:00:00.000Z');
+    expect(event?.timezone).toBe('Europe/Berlin');
+
+    restored.updateEvent('tz-persist-allday', { title: 'Shipped 2' });
+    const content = readFileSync(TEST_FILE, 'utf-8');
+    expect(content).toContain('DTSTART;VALUE=DATE:20250225');
+  });
+
+  it('drops unknown zones instead of writing an unresolvable TZID', () => {
+    calendar.addEvent({
+      uid: 'tz-bad',
+      title: 'Typo',
+      start: new Date('2025-07-01T16:00:00Z'),
+      timezone: 'America/Los_Angels',
+    });
+
+    expect(calendar.getEvent('tz-bad')?.timezone).toBeUndefined();
+    const content = readFileSync(TEST_FILE, 'utf-8');
+    expect(content).not.toContain('Los_Angels');
+  });
+});
+
 describe('iCal formatting utilities', () => {
   it('formats dates to iCal format', () => {
     const date = new Date('2025-02-25T09:30:00Z');
@@ -458,3 +672,337 @@ describe('input sanitization', () => {
     });
   });
 });
+
+describe('CalendarManager occurrence overrides', () => {
+  let calendar: CalendarManager;
+
+  beforeEach(() => {
+    if (existsSync(TEST_FILE)) unlinkSync(TEST_FILE);
+    calendar = new CalendarManager(TEST_FILE, 'Test Calendar');
+    calendar.addEvent({
+      uid: 'cron-digest',
+      title: 'Weekly digest',
+      start: new Date('2025-03-03T08:00:00Z'),
+      rrule: 'FREQ=WEEKLY;BYDAY=MO',
+      duration: 15,
+    });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_FILE)) unlinkSync(TEST_FILE);
+  });
+
+  it('writes an override as a RECURRENCE-ID VEVENT with the series UID', () => {
+    calendar.updateOccurrence('cron-digest', new Date('2025-03-10T08:00:00Z'), {
+      title: '✅ Weekly digest',
+      status: 'COMPLETED',
+      duration: 3,
+    });
+
+    const content = readFileSync(TEST_FILE, 'utf-8');
+    expect(content.match(/UID:cron-digest@clawcal/g)).toHaveLength(2);
+    expect(content).toContain('RECURRENCE-ID:20250310T080000Z');
+    expect(content).toContain('SUMMARY:✅ Weekly digest');
+    expect(content).toContain('DURATION:PT3M');
+    expect(calendar.getEvent('cron-digest')?.sequence).toBeUndefined();
+  });
+
+  it('bumps the override sequence on repeated updates', () => {
+    const recurrenceId = new Date('2025-03-10T08:00:00Z');
+    calendar.updateOccurrence('cron-digest', recurrenceId, { status: 'IN_PROGRESS' });
+    calendar.updateOccurrence('cron-digest', recurrenceId, { status: 'COMPLETED' });
+
+    const overrides = calendar.getEvent('cron-digest')?.overrides;
+    expect(overrides).toHaveLength(1);
+    expect(overrides?.[0].status).toBe('COMPLETED');
+    expect(overrides?.[0].sequence).toBe(1);
+  });
+
+  it('keeps the occurrence length when only the start moves', () => {
+    calendar.addEvent({
+      uid: 'review',
+      title: 'Design review',
+      start: new Date('2025-03-04T14:00:00Z'),
+      end: new Date('2025-03-04T15:30:00Z'),
+      rrule: 'FREQ=WEEKLY;BYDAY=TU',
+    });
+    const recurrenceId = new Date('2025-03-11T14:00:00Z');
+
+    calendar.updateOccurrence('review', recurrenceId, { start: new Date('2025-03-11T16:00:00Z') });
+    expect(calendar.getEvent('review')?.overrides?.[0].end?.toISOString()).toBe('2025-03-11T17:30:00.000Z');
+    expect(readFileSync(TEST_FILE, 'utf-8')).toContain('DTEND:20250311T173000Z');
+
+    // Moving it again shifts the end along with it
+    calendar.updateOccurrence('review', recurrenceId, { start: new Date('2025-03-11T09:00:00Z') });
+    expect(calendar.getEvent('review')?.overrides?.[0].end?.toISOString()).toBe('2025-03-11T10:30:00.000Z');
+  });
+
+  it('restores overrides onto their master when reloading', () => {
+    calendar.updateOccurrence('cron-digest', new Date('2025-03-17T08:00:00Z'), { title: '❌ Weekly digest' });
+    calendar.updateOccurrence('cron-digest', new Date('2025-03-10T08:00:00Z'), {
+      title: '✅ Weekly digest',
+      description: 'Completed in 42s',
+    });
+
+    const restored = new CalendarManager(TEST_FILE, 'Test Calendar');
+    const event = restored.getEvent('cron-digest');
+    expect(event?.title).toBe('Weekly digest');
+    expect(event?.overrides?.map(o => o.recurrenceId.toISOString())).toEqual([
+      '2025-03-10T08:00:00.000Z',
+      '2025-03-17T08:00:00.000Z',
+    ]);
+    expect(event?.overrides?.[0].description).toBe('Completed in 42s');
+  });
+
+  it('cancels one occurrence with EXDATE and drops its override', () => {
+    const recurrenceId = new Date('2025-03-10T08:00:00Z');
+    calendar.updateOccurrence('cron-digest', recurrenceId, { title: 'Moved digest' });
+    calendar.cancelOccurrence('cron-digest', recurrenceId);
+
+    const event = calendar.getEvent('cron-digest');
+    expect(event?.exdate).toEqual([recurrenceId]);
+    expect(event?.overrides).toEqual([]);
+    expect(event?.sequence).toBe(1);
+
+    const content = readFileSync(TEST_FILE, 'utf-8');
+    expect(content).toContain('EXDATE:20250310T080000Z');
+    expect(content).not.toContain('RECURRENCE-ID');
+  });
+
+  it('round-trips EXDATE in the event zone', () => {
+    const zoned = new CalendarManager(TEST_FILE, 'Test Calendar', { timezone: 'America/Los_Angeles' });
+    zoned.cancelOccurrence('cron-digest', new Date('2025-03-17T08:00:00Z'));
+    zoned.cancelOccurrence('cron-digest', new Date('2025-03-10T08:00:00Z'));
+
+    const content = readFileSync(TEST_FILE, 'utf-8');
+    expect(content).toContain('EXDATE;TZID=America/Los_Angeles:20250310T010000,20250317T010000');
+
+    const restored = new CalendarManager(TEST_FILE, 'Test Calendar', { timezone: 'America/Los_Angeles' });
+    expect(restored.getEvent('cron-digest')?.exdate?.map(d => d.toISOString())).toEqual([
+      '2025-03-10T08:00:00.000Z',
+      '2025-03-17T08:00:00.000Z',
+    ]);
+  });
+
+  it('lists concrete occurrences in a range', () => {
+    calendar.addEvent({ uid: 'one-off', title: 'Launch', start: new Date('2025-03-12T15:00:00Z') });
+    calendar.cancelOccurrence('cron-digest', new Date('2025-03-17T08:00:00Z'));
+
+    const occurrences = calendar.getOccurrences(new Date('2025-03-09T00:00:00Z'), new Date('2025-03-25T00:00:00Z'));
+    expect(occurrences.map(o => [o.uid, o.start.toISOString()])).toEqual([
+      ['cron-digest', '2025-03-10T08:00:00.000Z'],
+      ['one-off', '2025-03-12T15:00:00.000Z'],
+      ['cron-digest', '2025-03-24T08:00:00.000Z'],
+    ]);
+  });
+
+  it('prunes overrides older than the retention window', () => {
+    const old = new Date(Date.now() - 100 * 86400000);
+    const recent = new Date(Date.now() - 86400000);
+    calendar.updateOccurrence('cron-digest', old, { status: 'COMPLETED' });
+    calendar.updateOccurrence('cron-digest', recent, { status: 'COMPLETED' });
+
+    calendar.cleanup(90, 100);
+
+    const overrides = calendar.getEvent('cron-digest')?.overrides;
+    expect(overrides).toHaveLength(1);
+    expect(overrides?.[0].recurrenceId.getTime()).toBe(recent.getTime());
+  });
+});
+
+describe('CalendarManager crash safety', () => {
+  const BACKUP = `${TEST_FILE}.bak`;
+
+  function cleanFiles() {
+    for (const name of readdirSync('/tmp')) {
+      if (name.startsWith('clawcal-test.ics')) unlinkSync(`/tmp/${name}`);
+    }
+  }
+
+  beforeEach(cleanFiles);
+  afterEach(cleanFiles);
+
+  function addSample(calendar: CalendarManager, uid: string) {
+    calendar.addEvent({ uid, title: `Event ${uid}`, start: new Date('2025-02-25T09:00:00Z') });
+  }
+
+  it('replaces the file without leaving a temp file behind', () => {
+    const calendar = new CalendarManager(TEST_FILE, 'Test Calendar');
+    addSample(calendar, 'a');
+
+    expect(readFileSync(TEST_FILE, 'utf-8')).toContain('UID:a@clawcal');
+    expect(existsSync(`${TEST_FILE}.tmp`)).toBe(false);
+  });
+
+  it('keeps the previous version as a backup', () => {
+    const calendar = new CalendarManager(TEST_FILE, 'Test Calendar');
+    addSample(calendar, 'a');
+    addSample(calendar, 'b');
+
+    const backup = readFileSync(BACKUP, 'utf-8');
+    expect(backup).toContain('UID:a@clawcal');
+    expect(backup).not.toContain('UID:b@clawcal');
+  });
+
+  it('recovers from the backup when the file is truncated', () => {
+    const calendar = new CalendarManager(TEST_FILE, 'Test Calendar');
+    addSample(calendar, 'a');
+    addSample(calendar, 'b');
+
+    const content = readFileSync(TEST_FILE, 'utf-8');
+    writeFileSync(TEST_FILE, content.slice(0, content.indexOf('UID:b@clawcal')));
+
+    const restored = new CalendarManager(TEST_FILE, 'Test Calendar');
+    expect(restored.getEvent('a')).toBeDefined();
+    expect(readFileSync(TEST_FILE, 'utf-8')).toContain('END:VCALENDAR');
+  });
+
+  it('moves an unreadable file aside when there is no backup', () => {
+    writeFileSync(TEST_FILE, 'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nUID:x@clawcal\r\n');
+
+    const restored = new CalendarManager(TEST_FILE, 'Test Calendar');
+    expect(restored.getAllEvents()).toEqual([]);
+    expect(existsSync(TEST_FILE)).toBe(false);
+    expect(readdirSync('/tmp').some(name => name.startsWith('clawcal-test.ics.corrupt-'))).toBe(true);
+  });
+});
+
+describe('CalendarManager batched writes', () => {
+  beforeEach(() => {
+    if (existsSync(TEST_FILE)) unlinkSync(TEST_FILE);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    if (existsSync(TEST_FILE)) unlinkSync(TEST_FILE);
+  });
+
+  it('coalesces changes into one write per flush interval', () => {
+    const calendar = new CalendarManager(TEST_FILE, 'Test Calendar', { flushIntervalMs: 500 });
+
+    for (let i = 0; i < 50; i++) {
+      calendar.addEvent({ uid: `burst-${i}`, title: `Post ${i}`, start: new Date('2025-02-25T09:00:00Z') });
+    }
+    expect(existsSync(TEST_FILE)).toBe(false);
+
+    vi.advanceTimersByTime(500);
+    const content = readFileSync(TEST_FILE, 'utf-8');
+    expect(content.match(/BEGIN:VEVENT/g)).toHaveLength(50);
+  });
+
+  it('writes pending changes on flush()', () => {
+    const calendar = new CalendarManager(TEST_FILE, 'Test Calendar', { flushIntervalMs: 60000 });
+    calendar.addEvent({ uid: 'pending', title: 'Pending', start: new Date('2025-02-25T09:00:00Z') });
+
+    calendar.flush();
+
+    expect(readFileSync(TEST_FILE, 'utf-8')).toContain('UID:pending@clawcal');
+  });
+
+  it('re-renders only the events that changed', () => {
+    const calendar = new CalendarManager(TEST_FILE, 'Test Calendar');
+    calendar.addEvent({ uid: 'same', title: 'Same', start: new Date('2025-02-25T09:00:00Z') });
+    calendar.addEvent({ uid: 'edited', title: 'Edited', start: new Date('2025-02-25T10:00:00Z') });
+    const renderer = calendar as unknown as { eventToVEvent(event: { uid: string }): string[] };
+    const eventToVEvent = vi.spyOn(renderer, 'eventToVEvent');
+
+    calendar.updateEvent('edited', { title: 'Edited again' });
+    calendar.toICS();
+
+    expect(eventToVEvent.mock.calls.map(([event]) => event.uid)).toEqual(['edited']);
+  });
+
+  it('stamps every event with the time the feed last changed', () => {
+    vi.setSystemTime(new Date('2025-02-20T10:00:00Z'));
+    const calendar = new CalendarManager(TEST_FILE, 'Test Calendar');
+    calendar.addEvent({ uid: 'same', title: 'Same', start: new Date('2025-02-25T09:00:00Z') });
+    calendar.addEvent({ uid: 'edited', title: 'Edited', start: new Date('2025-02-25T10:00:00Z') });
+    calendar.toICS();
+
+    vi.setSystemTime(new Date('2025-02-21T10:00:00Z'));
+    calendar.updateEvent('edited', { title: 'Edited again' });
+    vi.setSystemTime(new Date('2025-02-22T10:00:00Z'));
+
+    const stamps = calendar.toICS().match(/DTSTAMP:\S+/g);
+    expect(stamps).toEqual(['DTSTAMP:20250221T100000Z', 'DTSTAMP:20250221T100000Z']);
+  });
+});
+
+describe('CalendarManager free/busy', () => {
+  let calendar: CalendarManager;
+  const from = new Date('2025-03-03T00:00:00Z');
+  const to = new Date('2025-03-10T00:00:00Z');
+
+  beforeEach(() => {
+    if (existsSync(TEST_FILE)) unlinkSync(TEST_FILE);
+    calendar = new CalendarManager(TEST_FILE, 'Test Calendar');
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_FILE)) unlinkSync(TEST_FILE);
+  });
+
+  const period = (start: string, end: string, type = 'BUSY') => ({ start: new Date(start), end: new Date(end), type });
+
+  it('merges overlapping events into busy periods', () => {
+    calendar.addEvent({ uid: 'a', title: 'A', start: new Date('2025-03-03T09:00:00Z'), duration: 60, status: 'IN_PROGRESS' });
+    calendar.addEvent({ uid: 'b', title: 'B', start: new Date('2025-03-03T09:30:00Z'), duration: 60, status: 'COMPLETED' });
+    calendar.addEvent({ uid: 'c', title: 'C', start: new Date('2025-03-03T10:30:00Z'), duration: 30, status: 'IN_PROGRESS' });
+    calendar.addEvent({ uid: 'd', title: 'D', start: new Date('2025-03-04T09:00:00Z'), duration: 30, status: 'IN_PROGRESS' });
+
+    expect(calendar.getFreeBusy(from, to)).toEqual([
+      period('2025-03-03T09:00:00Z', '2025-03-03T11:00:00Z'),
+      period('2025-03-04T09:00:00Z', '2025-03-04T09:30:00Z'),
+    ]);
+  });
+
+  it('skips cancelled and transparent events and marks planned ones tentative', () => {
+    calendar.addEvent({ uid: 'busy', title: 'Busy', start: new Date('2025-03-03T10:00:00Z'), duration: 60, status: 'IN_PROGRESS' });
+    calendar.addEvent({ uid: 'planned', title: 'Planned', start: new Date('2025-03-03T09:30:00Z'), duration: 120, status: 'PLANNED' });
+    calendar.addEvent({ uid: 'cancelled', title: 'Cancelled', start: new Date('2025-03-04T09:00:00Z'), duration: 60, status: 'CANCELLED' });
+    calendar.addEvent({ uid: 'fyi', title: 'FYI', start: new Date('2025-03-05T09:00:00Z'), duration: 60, status: 'IN_PROGRESS', transparency: 'TRANSPARENT' });
+
+    expect(calendar.getFreeBusy(from, to)).toEqual([
+      period('2025-03-03T09:30:00Z', '2025-03-03T10:00:00Z', 'BUSY-TENTATIVE'),
+      period('2025-03-03T10:00:00Z', '2025-03-03T11:00:00Z'),
+      period('2025-03-03T11:00:00Z', '2025-03-03T11:30:00Z', 'BUSY-TENTATIVE'),
+    ]);
+  });
+
+  it('expands recurrences, honoring cancelled occurrences and clipping to the range', () => {
+    calendar.addEvent({
+      uid: 'daily',
+      title: 'Daily sync',
+      start: new Date('2025-03-01T23:30:00Z'),
+      duration: 60,
+      rrule: 'FREQ=DAILY',
+      status: 'IN_PROGRESS',
+    });
+    calendar.updateOccurrence('daily', new Date('2025-03-05T23:30:00Z'), { status: 'CANCELLED' });
+    calendar.cancelOccurrence('daily', new Date('2025-03-06T23:30:00Z'));
+
+    const busy = calendar.getFreeBusy(from, to);
+    expect(busy[0]).toEqual(period('2025-03-03T00:00:00Z', '2025-03-03T00:30:00Z'));
+    expect(busy.map(p => p.start.toISOString().slice(0, 10))).toEqual([
+      '2025-03-03', '2025-03-03', '2025-03-04', '2025-03-07', '2025-03-08', '2025-03-09',
+    ]);
+    expect(busy.at(-1)).toEqual(period('2025-03-09T23:30:00Z', '2025-03-10T00:00:00Z'));
+  });
+
+  it('renders a VFREEBUSY component and round-trips TRANSP', () => {
+    calendar.addEvent({ uid: 'a', title: 'A', start: new Date('2025-03-03T09:00:00Z'), duration: 60, status: 'IN_PROGRESS' });
+    calendar.addEvent({ uid: 'b', title: 'B', start: new Date('2025-03-04T09:00:00Z'), duration: 30 });
+    calendar.addEvent({ uid: 'fyi', title: 'FYI', start: new Date('2025-03-05T09:00:00Z'), transparency: 'TRANSPARENT' });
+
+    const ifb = calendar.toFreeBusy(from, to);
+    expect(ifb).toContain('BEGIN:VFREEBUSY\r\n');
+    expect(ifb).toContain('DTSTART:20250303T000000Z\r\nDTEND:20250310T000000Z\r\n');
+    expect(ifb).toContain('FREEBUSY;FBTYPE=BUSY:20250303T090000Z/20250303T100000Z\r\n');
+    expect(ifb).toContain('FREEBUSY;FBTYPE=BUSY-TENTATIVE:20250304T090000Z/20250304T093000Z\r\n');
+    expect(ifb.match(/FREEBUSY;/g)).toHaveLength(2);
+
+    expect(readFileSync(TEST_FILE, 'utf-8')).toContain('TRANSP:TRANSPARENT');
+    expect(new CalendarManager(TEST_FILE, 'Test Calendar').getEvent('fyi')?.transparency).toBe('TRANSPARENT');
+  });
+});
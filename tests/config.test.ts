@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { deepMerge, mergeConfig } from '../src/config';
+import { deepMerge, mergeConfig, resolveCronAutomations } from '../src/config';
 import { CalendarConfig } from '../src/types';
 
 const DEFAULT_CONFIG: CalendarConfig = {
@@ -99,3 +99,28 @@ describe('deepMerge', () => {
     expect(DEFAULT_CONFIG).toEqual(baseCopy);
   });
 });
+
+describe('resolveCronAutomations', () => {
+  it('expands the boolean form', () => {
+    expect(resolveCronAutomations(true)).toEqual({
+      enabled: true,
+      high_frequency: 'all_day',
+      working_hours: { start: 9, end: 17 },
+    });
+    expect(resolveCronAutomations(false).enabled).toBe(false);
+  });
+
+  it('fills in missing keys of the object form', () => {
+    const result = resolveCronAutomations({ high_frequency: 'working_hours' });
+    expect(result.enabled).toBe(true);
+    expect(result.high_frequency).toBe('working_hours');
+    expect(result.working_hours).toEqual({ start: 9, end: 17 });
+  });
+
+  it('accepts an object override on top of the boolean default', () => {
+    const result = mergeConfig(DEFAULT_CONFIG, {
+      events: { cron_automations: { high_frequency: 'off' } },
+    } as any);
+    expect(resolveCronAutomations(result.events.cron_automations).high_frequency).toBe('off');
+  });
+});
@@ -0,0 +1,498 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { registerListeners, EventSink } from '../src/listener';
+import { CalendarConfig, CalendarEvent, OccurrenceOverride } from '../src/types';
+
+/**
+ * Mock HookSource that captures registered handlers so we can fire events manually.
+ */
+class MockHookSource {
+  private handlers: Map<string, ((data: any) => void)[]> = new Map();
+
+  registerHook(events: string | string[], handler: (data: any) => void): void {
+    const eventList = Array.isArray(events) ? events : [events];
+    for (const event of eventList) {
+      const existing = this.handlers.get(event) || [];
+      existing.push(handler);
+      this.handlers.set(event, existing);
+    }
+  }
+
+  fire(event: string, data: any): void {
+    const handlers = this.handlers.get(event) || [];
+    for (const handler of handlers) {
+      handler(data);
+    }
+  }
+}
+
+/**
+ * Mock EventSink backed by a simple Map, matching FeedManager/CalendarManager semantics.
+ */
+class MockEventSink implements EventSink {
+  events: Map<string, CalendarEvent> = new Map();
+
+  addEvent(event: CalendarEvent): void {
+    this.events.set(event.uid, event);
+  }
+
+  updateEvent(uid: string, updates: Partial<CalendarEvent>): void {
+    const existing = this.events.get(uid);
+    if (!existing) return;
+    this.events.set(uid, {
+      ...existing,
+      ...updates,
+      sequence: (existing.sequence || 0) + 1,
+    });
+  }
+
+  cancelEvent(uid: string): void {
+    this.updateEvent(uid, { status: 'CANCELLED' });
+  }
+
+  updateOccurrence(uid: string, recurrenceId: Date, updates: Partial<Omit<OccurrenceOverride, 'recurrenceId'>>): void {
+    const existing = this.events.get(uid);
+    if (!existing) return;
+    const overrides = (existing.overrides || []).filter(o => o.recurrenceId.getTime() !== recurrenceId.getTime());
+    const previous = existing.overrides?.find(o => o.recurrenceId.getTime() === recurrenceId.getTime());
+    overrides.push({ ...previous, ...updates, recurrenceId });
+    this.events.set(uid, { ...existing, overrides });
+  }
+
+  cancelOccurrence(uid: string, recurrenceId: Date): void {
+    const existing = this.events.get(uid);
+    if (!existing) return;
+    this.updateEvent(uid, {
+      exdate: [...(existing.exdate || []), recurrenceId],
+      overrides: existing.overrides?.filter(o => o.recurrenceId.getTime() !== recurrenceId.getTime()),
+    });
+  }
+
+  getEvent(uid: string): CalendarEvent | undefined {
+    return this.events.get(uid);
+  }
+}
+
+function makeConfig(cronAutomations: CalendarConfig['events']['cron_automations'] = true): CalendarConfig {
+  return {
+    file: '/tmp/test.ics',
+    file_directory: '/tmp/',
+    timezone: 'UTC',
+    feeds: { combined: true, per_agent: false },
+    localPush: { enabled: false, calendarSource: 'iCloud' },
+    events: {
+      scheduled_posts: false,
+      launch_sequences: false,
+      task_completions: false,
+      analytics_checkins: false,
+      cron_automations: cronAutomations,
+      content_drafts: false,
+      reminders: false,
+    },
+    taskCompletions: { mode: 'all_day', aggregate: 'none' },
+    defaults: {
+      analytics_checkin_offsets: ['24h'],
+      event_duration_minutes: 15,
+      alerts: {
+        scheduled_posts: [],
+        launch_sequences: [],
+        analytics_checkins: [],
+        cron_automations: [0],
+        content_drafts: [],
+        reminders: [],
+        task_completions: [],
+      },
+    },
+    cleanup: { max_past_events: 100, retention_days: 90 },
+    storage: { backend: 'ics', flush_interval_ms: 0, journal: false, journal_max_entries: 10000 },
+    feed_tokens: { enabled: false },
+    sharing: { enabled: false, max_days: 90 },
+  };
+}
+
+describe('cron registration', () => {
+  let hooks: MockHookSource;
+  let sink: MockEventSink;
+
+  beforeEach(() => {
+    hooks = new MockHookSource();
+    sink = new MockEventSink();
+  });
+
+  it('adds a recurring event for regular crons', () => {
+    registerListeners(hooks, sink, makeConfig());
+
+    hooks.fire('cron:register', { id: 'digest', name: 'Weekly digest', schedule: '0 8 * * 1' });
+
+    const event = sink.getEvent('digest');
+    expect(event?.rrule).toBe('FREQ=WEEKLY;BYDAY=MO');
+    expect(event?.allDay).toBeUndefined();
+  });
+
+  it('summarizes sub-hourly crons as one all-day block per day by default', () => {
+    registerListeners(hooks, sink, makeConfig());
+
+    hooks.fire('cron:register', { id: 'poll', name: 'Inbox poll', schedule: '*/5 * * * *' });
+
+    const event = sink.getEvent('poll');
+    expect(event?.allDay).toBe(true);
+    expect(event?.rrule).toBe('FREQ=DAILY');
+    expect(event?.title).toBe('🔄 Inbox poll (every 5 min)');
+    expect(event?.description).toContain('Runs every 5 min');
+    expect(event?.description).toContain('Schedule: */5 * * * *');
+    expect(event?.alerts).toBeUndefined();
+  });
+
+  it('keeps the day restrictions of a summarized cron', () => {
+    registerListeners(hooks, sink, makeConfig());
+
+    hooks.fire('cron:register', { id: 'poll', name: 'Inbox poll', schedule: '*/10 * * * 1-5' });
+
+    expect(sink.getEvent('poll')?.rrule).toBe('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+  });
+
+  it('lists the days of a summarized cron RRULE can\'t express as RDATEs', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-05T12:00:00Z'));
+    try {
+      registerListeners(hooks, sink, makeConfig({ high_frequency: 'working_hours' }));
+
+      // The 1st of the month or any Monday
+      hooks.fire('cron:register', { id: 'poll', name: 'Inbox poll', schedule: '*/5 9-11 1 * MON' });
+
+      const event = sink.getEvent('poll');
+      expect(event?.rrule).toBeUndefined();
+      expect(event?.start.toISOString()).toBe('2025-03-10T09:00:00.000Z');
+      expect(event?.duration).toBe(180);
+      expect(event?.rdate?.slice(0, 4).map(d => d.toISOString())).toEqual([
+        '2025-03-17T09:00:00.000Z',
+        '2025-03-24T09:00:00.000Z',
+        '2025-03-31T09:00:00.000Z',
+        '2025-04-01T09:00:00.000Z',
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('renders a working-hours block from configured hours', () => {
+    registerListeners(hooks, sink, makeConfig({ high_frequency: 'working_hours', working_hours: { start: 8, end: 18 } }));
+
+    hooks.fire('cron:register', { id: 'poll', name: 'Inbox poll', schedule: '*/5 * * * *' });
+
+    const event = sink.getEvent('poll');
+    expect(event?.allDay).toBeFalsy();
+    expect(event?.start.getUTCHours()).toBe(8);
+    expect(event?.duration).toBe(600);
+  });
+
+  it('spans the hours the cron actually runs in', () => {
+    registerListeners(hooks, sink, makeConfig({ high_frequency: 'working_hours' }));
+
+    hooks.fire('cron:register', { id: 'poll', name: 'Inbox poll', schedule: '*/15 10-13 * * *' });
+
+    const event = sink.getEvent('poll');
+    expect(event?.start.getUTCHours()).toBe(10);
+    expect(event?.duration).toBe(240);
+  });
+
+  it('skips sub-hourly crons when high_frequency is off', () => {
+    registerListeners(hooks, sink, makeConfig({ high_frequency: 'off' }));
+
+    hooks.fire('cron:register', { id: 'poll', name: 'Inbox poll', schedule: '*/5 * * * *' });
+    hooks.fire('cron:register', { id: 'digest', name: 'Weekly digest', schedule: '0 8 * * 1' });
+
+    expect(sink.getEvent('poll')).toBeUndefined();
+    expect(sink.getEvent('digest')).toBeDefined();
+  });
+
+  it('does not add an event for unparseable schedules', () => {
+    registerListeners(hooks, sink, makeConfig());
+
+    hooks.fire('cron:register', { id: 'bad', name: 'Broken', schedule: 'every tuesday' });
+
+    expect(sink.getEvent('bad')).toBeUndefined();
+  });
+
+  it('registers nothing when cron automations are disabled', () => {
+    registerListeners(hooks, sink, makeConfig({ enabled: false }));
+
+    hooks.fire('cron:register', { id: 'digest', name: 'Weekly digest', schedule: '0 8 * * 1' });
+
+    expect(sink.getEvent('digest')).toBeUndefined();
+  });
+});
+
+describe('cron run history', () => {
+  let hooks: MockHookSource;
+  let sink: MockEventSink;
+
+  beforeEach(() => {
+    hooks = new MockHookSource();
+    sink = new MockEventSink();
+    registerListeners(hooks, sink, makeConfig());
+  });
+
+  it('marks the scheduled occurrence in progress when a run starts', () => {
+    hooks.fire('cron:register', { id: 'digest', name: 'Weekly digest', schedule: '0 8 * * 1' });
+    hooks.fire('cron:run:start', {
+      id: 'digest',
+      runId: 'run-1',
+      scheduledAt: new Date('2025-03-03T08:00:00Z'),
+      startedAt: new Date('2025-03-03T08:00:02Z'),
+    });
+
+    const [override] = sink.getEvent('digest')!.overrides!;
+    expect(override.recurrenceId.toISOString()).toBe('2025-03-03T08:00:00.000Z');
+    expect(override.status).toBe('IN_PROGRESS');
+    expect(override.title).toBe('⏳ Weekly digest');
+    expect(override.description).toContain('Run: run-1');
+  });
+
+  it('records the outcome and duration on the same occurrence when a run finishes', () => {
+    hooks.fire('cron:register', { id: 'digest', name: 'Weekly digest', schedule: '0 8 * * 1' });
+    const run = {
+      id: 'digest',
+      scheduledAt: new Date('2025-03-03T08:00:00Z'),
+      startedAt: new Date('2025-03-03T08:00:02Z'),
+    };
+    hooks.fire('cron:run:start', run);
+    hooks.fire('cron:run:finish', { ...run, finishedAt: new Date('2025-03-03T08:02:15Z') });
+
+    const overrides = sink.getEvent('digest')!.overrides!;
+    expect(overrides).toHaveLength(1);
+    expect(overrides[0].title).toBe('✅ Weekly digest');
+    expect(overrides[0].status).toBe('COMPLETED');
+    expect(overrides[0].duration).toBe(2);
+    expect(overrides[0].description).toContain('Completed in 2m 13s');
+  });
+
+  it('includes the error message for failed runs', () => {
+    hooks.fire('cron:register', { id: 'digest', name: 'Weekly digest', schedule: '0 8 * * 1' });
+    hooks.fire('cron:run:fail', {
+      id: 'digest',
+      scheduledAt: new Date('2025-03-03T08:00:00Z'),
+      durationMs: 42000,
+      error: 'SMTP timeout',
+    });
+
+    const [override] = sink.getEvent('digest')!.overrides!;
+    expect(override.title).toBe('❌ Weekly digest');
+    expect(override.description).toContain('Failed after 42s');
+    expect(override.description).toContain('Error: SMTP timeout');
+  });
+
+  it('keys runs of summarized crons by day', () => {
+    hooks.fire('cron:register', { id: 'poll', name: 'Inbox poll', schedule: '*/5 * * * *' });
+    hooks.fire('cron:run:finish', { id: 'poll', startedAt: new Date('2025-03-03T14:35:00Z'), durationMs: 3000 });
+
+    const [override] = sink.getEvent('poll')!.overrides!;
+    expect(override.recurrenceId.toISOString()).toBe('2025-03-03T00:00:00.000Z');
+    expect(override.title).toBe('✅ Inbox poll (every 5 min)');
+    expect(override.start).toBeUndefined();
+  });
+
+  it('keys runs of working-hours summaries to that day\'s block', () => {
+    const workingHours = new MockHookSource();
+    registerListeners(workingHours, sink, makeConfig({ high_frequency: 'working_hours', working_hours: { start: 8, end: 18 } }));
+    workingHours.fire('cron:register', { id: 'poll', name: 'Inbox poll', schedule: '*/5 * * * *' });
+    workingHours.fire('cron:run:finish', { id: 'poll', startedAt: new Date('2025-03-03T09:05:00Z'), durationMs: 3000 });
+    workingHours.fire('cron:run:finish', { id: 'poll', startedAt: new Date('2025-03-03T14:35:00Z'), durationMs: 3000 });
+
+    const overrides = sink.getEvent('poll')!.overrides!;
+    expect(overrides).toHaveLength(1);
+    expect(overrides[0].recurrenceId.toISOString()).toBe('2025-03-03T08:00:00.000Z');
+    expect(overrides[0].start).toBeUndefined();
+    expect(overrides[0].duration).toBeUndefined();
+  });
+
+  it('matches a late run without a scheduled time to its slot', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(new Date('2025-03-03T00:00:00Z'));
+      hooks.fire('cron:register', { id: 'sync', name: 'Sync', schedule: '0 */2 * * *' });
+    } finally {
+      vi.useRealTimers();
+    }
+    hooks.fire('cron:run:start', { id: 'sync', startedAt: new Date('2025-03-03T10:07:30Z') });
+
+    const [override] = sink.getEvent('sync')!.overrides!;
+    expect(override.recurrenceId.toISOString()).toBe('2025-03-03T10:00:00.000Z');
+    expect(override.start!.toISOString()).toBe('2025-03-03T10:07:30.000Z');
+  });
+
+  it('ignores runs of unknown crons', () => {
+    hooks.fire('cron:run:finish', { id: 'missing', startedAt: new Date() });
+    expect(sink.getEvent('missing')).toBeUndefined();
+  });
+});
+
+describe('cron unregister and update', () => {
+  let hooks: MockHookSource;
+  let sink: MockEventSink;
+
+  beforeEach(() => {
+    hooks = new MockHookSource();
+    sink = new MockEventSink();
+    registerListeners(hooks, sink, makeConfig());
+  });
+
+  it('ends a started series with UNTIL instead of deleting it', () => {
+    sink.addEvent({
+      uid: 'digest',
+      title: '🔄 Weekly digest',
+      start: new Date('2025-03-03T08:00:00Z'),
+      rrule: 'FREQ=WEEKLY;BYDAY=MO',
+      status: 'PLANNED',
+    });
+
+    hooks.fire('cron:unregister', { id: 'digest', removedAt: new Date('2025-04-02T12:30:00Z') });
+
+    const event = sink.getEvent('digest');
+    expect(event?.rrule).toBe('FREQ=WEEKLY;BYDAY=MO;UNTIL=20250402T123000Z');
+    expect(event?.status).toBe('PLANNED');
+    expect(event?.sequence).toBe(1);
+  });
+
+  it('uses a DATE UNTIL for all-day summary series and drops later RDATEs', () => {
+    sink.addEvent({
+      uid: 'poll',
+      title: '🔄 Inbox poll (every 5 min)',
+      start: new Date('2025-03-03T00:00:00Z'),
+      allDay: true,
+      rrule: 'FREQ=DAILY;COUNT=100',
+    });
+    sink.addEvent({
+      uid: 'report',
+      title: '🔄 Report',
+      start: new Date('2025-03-01T09:00:00Z'),
+      rdate: [new Date('2025-03-03T09:00:00Z'), new Date('2025-04-05T09:00:00Z')],
+    });
+
+    const removedAt = new Date('2025-04-02T12:30:00Z');
+    hooks.fire('cron:unregister', { id: 'poll', removedAt });
+    hooks.fire('cron:unregister', { id: 'report', removedAt });
+
+    expect(sink.getEvent('poll')?.rrule).toBe('FREQ=DAILY;UNTIL=20250402');
+    expect(sink.getEvent('report')?.rdate).toEqual([new Date('2025-03-03T09:00:00Z')]);
+  });
+
+  it('cancels a series that never ran', () => {
+    hooks.fire('cron:register', { id: 'digest', name: 'Weekly digest', schedule: '0 8 * * 1' });
+    hooks.fire('cron:unregister', { id: 'digest' });
+
+    expect(sink.getEvent('digest')?.status).toBe('CANCELLED');
+  });
+
+  it('re-derives the recurrence and bumps SEQUENCE when the schedule changes', () => {
+    hooks.fire('cron:register', { id: 'digest', name: 'Weekly digest', schedule: '0 8 * * 1' });
+    hooks.fire('cron:update', { id: 'digest', name: 'Daily digest', schedule: '30 7 * * *' });
+
+    const event = sink.getEvent('digest');
+    expect(event?.rrule).toBe('FREQ=DAILY');
+    expect(event?.title).toBe('🔄 Daily digest');
+    expect(event?.start.getUTCHours()).toBe(7);
+    expect(event?.start.getUTCMinutes()).toBe(30);
+    expect(event?.sequence).toBe(1);
+  });
+
+  it('clears summary fields when a high-frequency cron becomes a regular one', () => {
+    hooks.fire('cron:register', { id: 'poll', name: 'Inbox poll', schedule: '*/5 * * * *' });
+    hooks.fire('cron:update', { id: 'poll', name: 'Inbox poll', schedule: '0 9 * * *' });
+
+    const event = sink.getEvent('poll');
+    expect(event?.allDay).toBeUndefined();
+    expect(event?.duration).toBe(15);
+    expect(event?.title).toBe('🔄 Inbox poll');
+  });
+
+  it('archives the series that ran, with its history, and restarts on the new schedule', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(new Date('2025-03-01T00:00:00Z'));
+      hooks.fire('cron:register', { id: 'digest', name: 'Weekly digest', schedule: '0 8 * * 1', agentId: 'dev-agent' });
+      sink.updateOccurrence('digest', new Date('2025-03-03T08:00:00Z'), { status: 'COMPLETED' });
+      sink.updateOccurrence('digest', new Date('2025-03-17T08:00:00Z'), { status: 'CANCELLED' });
+
+      vi.setSystemTime(new Date('2025-03-12T12:00:00Z'));
+      hooks.fire('cron:update', { id: 'digest', name: 'Weekly digest', schedule: '0 9 * * 1', agentId: 'ops-agent' });
+    } finally {
+      vi.useRealTimers();
+    }
+
+    const archived = sink.getEvent('digest-until-20250312T120000')!;
+    expect(archived.start.toISOString()).toBe('2025-03-03T08:00:00.000Z');
+    expect(archived.rrule).toBe('FREQ=WEEKLY;BYDAY=MO;UNTIL=20250312T120000Z');
+    expect(archived.overrides?.map(o => o.recurrenceId.toISOString())).toEqual(['2025-03-03T08:00:00.000Z']);
+
+    const live = sink.getEvent('digest')!;
+    expect(live.start.toISOString()).toBe('2025-03-17T09:00:00.000Z');
+    expect(live.overrides).toBeUndefined();
+    // The agent decides the feeds an event lives in, so it isn't changed in place
+    expect(live.agent).toBe('dev-agent');
+  });
+
+  it('reschedules a series that never ran in place', () => {
+    hooks.fire('cron:register', { id: 'digest', name: 'Weekly digest', schedule: '0 8 * * 1' });
+    hooks.fire('cron:update', { id: 'digest', name: 'Weekly digest', schedule: '0 9 * * 1' });
+
+    expect(sink.getEvent('digest')?.start.getUTCHours()).toBe(9);
+    expect(Array.from(sink.events.keys())).toEqual(['digest']);
+  });
+
+  it('keeps the previous schedule when the new one is unsupported', () => {
+    hooks.fire('cron:register', { id: 'digest', name: 'Weekly digest', schedule: '0 8 * * 1' });
+    hooks.fire('cron:update', { id: 'digest', name: 'Weekly digest', schedule: 'every tuesday' });
+
+    const event = sink.getEvent('digest');
+    expect(event?.rrule).toBe('FREQ=WEEKLY;BYDAY=MO');
+    expect(event?.sequence).toBeUndefined();
+  });
+
+  it('adds the event when updating a cron it has not seen', () => {
+    hooks.fire('cron:update', { id: 'late', name: 'Late joiner', schedule: '0 8 * * *' });
+    expect(sink.getEvent('late')?.rrule).toBe('FREQ=DAILY');
+  });
+});
+
+describe('single-occurrence schedule edits', () => {
+  let hooks: MockHookSource;
+  let sink: MockEventSink;
+  const occurrence = new Date('2025-03-10T08:00:00Z');
+
+  beforeEach(() => {
+    hooks = new MockHookSource();
+    sink = new MockEventSink();
+    registerListeners(hooks, sink, makeConfig());
+    sink.addEvent({
+      uid: 'digest',
+      title: '🔄 Weekly digest',
+      start: new Date('2025-03-03T08:00:00Z'),
+      rrule: 'FREQ=WEEKLY;BYDAY=MO',
+      status: 'PLANNED',
+    });
+  });
+
+  it('moves one occurrence without touching the series', () => {
+    hooks.fire('agent:schedule:update', { id: 'digest', occurrence, newTime: new Date('2025-03-11T08:00:00Z') });
+
+    const event = sink.getEvent('digest');
+    expect(event?.start.toISOString()).toBe('2025-03-03T08:00:00.000Z');
+    expect(event?.sequence).toBeUndefined();
+    expect(event?.overrides?.[0].recurrenceId).toEqual(occurrence);
+    expect(event?.overrides?.[0].start?.toISOString()).toBe('2025-03-11T08:00:00.000Z');
+  });
+
+  it('excludes a cancelled occurrence with EXDATE', () => {
+    hooks.fire('agent:schedule:update', { id: 'digest', occurrence, status: 'CANCELLED' });
+    hooks.fire('agent:schedule:cancel', { id: 'digest', occurrence: new Date('2025-03-17T08:00:00Z') });
+
+    const event = sink.getEvent('digest');
+    expect(event?.status).toBe('PLANNED');
+    expect(event?.exdate).toEqual([occurrence, new Date('2025-03-17T08:00:00Z')]);
+  });
+
+  it('still updates the whole event without an occurrence', () => {
+    hooks.fire('agent:schedule:cancel', { id: 'digest' });
+    expect(sink.getEvent('digest')?.status).toBe('CANCELLED');
+  });
+});
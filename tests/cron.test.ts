@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { parseCron, nextCronRun, cronRuns, translateCron, isHighFrequency } from '../src/cron';
+
+describe('parseCron', () => {
+  it('expands ranges, steps and lists', () => {
+    const fields = parseCron('*/15 9-17/4 1,15 * MON-FRI')!;
+    expect(fields.minutes).toEqual([0, 15, 30, 45]);
+    expect(fields.hours).toEqual([9, 13, 17]);
+    expect(fields.daysOfMonth).toEqual([1, 15]);
+    expect(fields.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+    expect(fields.matchAnyDay).toBe(true);
+  });
+
+  it('treats an offset step as "from N, every M"', () => {
+    expect(parseCron('5/20 * * * *')!.minutes).toEqual([5, 25, 45]);
+  });
+
+  it('rejects out-of-range and malformed fields', () => {
+    expect(parseCron('0 24 * * *')).toBeNull();
+    expect(parseCron('0 8 * * 1-')).toBeNull();
+    expect(parseCron('0 8 * *')).toBeNull();
+    expect(parseCron('*/0 * * * *')).toBeNull();
+  });
+
+  it('flags schedules that run more than hourly', () => {
+    expect(isHighFrequency(parseCron('*/5 * * * *')!)).toBe(true);
+    expect(isHighFrequency(parseCron('0,30 * * * *')!)).toBe(true);
+    expect(isHighFrequency(parseCron('0 * * * *')!)).toBe(false);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('finds the next run after the given time', () => {
+    const fields = parseCron('0 8 * * 1')!;
+    // Wednesday 2025-02-26 → next Monday 2025-03-03 08:00 UTC
+    expect(nextCronRun(fields, new Date('2025-02-26T12:00:00Z'))!.toISOString()).toBe('2025-03-03T08:00:00.000Z');
+  });
+
+  it('includes a run exactly at the start time', () => {
+    const fields = parseCron('0 8 * * *')!;
+    expect(nextCronRun(fields, new Date('2025-02-26T08:00:00Z'))!.toISOString()).toBe('2025-02-26T08:00:00.000Z');
+  });
+
+  it('evaluates wall-clock times in the given zone across DST', () => {
+    const fields = parseCron('0 9 * * *')!;
+    expect(nextCronRun(fields, new Date('2025-03-08T00:00:00Z'), 'America/Los_Angeles')!.toISOString()).toBe('2025-03-08T17:00:00.000Z');
+    expect(nextCronRun(fields, new Date('2025-03-10T00:00:00Z'), 'America/Los_Angeles')!.toISOString()).toBe('2025-03-10T16:00:00.000Z');
+  });
+
+  it('matches either day field when both are given', () => {
+    const fields = parseCron('0 8 1 * 1')!;
+    const runs = cronRuns(fields, new Date('2025-02-26T00:00:00Z'), 'UTC', 3);
+    expect(runs.map(r => r.toISOString())).toEqual([
+      '2025-03-01T08:00:00.000Z', // 1st of the month (Saturday)
+      '2025-03-03T08:00:00.000Z', // Monday
+      '2025-03-10T08:00:00.000Z', // Monday
+    ]);
+  });
+
+  it('returns null for schedules that never fire', () => {
+    expect(nextCronRun(parseCron('0 8 30 2 *')!, new Date('2025-01-01T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('translateCron', () => {
+  it('returns the first run and an RRULE', () => {
+    const schedule = translateCron('0 9,17 * * 1-5', { from: new Date('2025-02-26T10:00:00Z') })!;
+    expect(schedule.start.toISOString()).toBe('2025-02-26T17:00:00.000Z');
+    expect(schedule.rrule).toBe('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=9,17');
+    expect(schedule.rdate).toBeUndefined();
+  });
+
+  it('falls back to an RDATE list', () => {
+    const schedule = translateCron('0 8 1 * 1', { from: new Date('2025-02-26T00:00:00Z'), rdateCount: 5 })!;
+    expect(schedule.start.toISOString()).toBe('2025-03-01T08:00:00.000Z');
+    expect(schedule.rrule).toBeUndefined();
+    expect(schedule.rdate).toHaveLength(4);
+    expect(schedule.rdate![0].toISOString()).toBe('2025-03-03T08:00:00.000Z');
+  });
+
+  it('returns null for unparseable expressions', () => {
+    expect(translateCron('every tuesday')).toBeNull();
+  });
+});
@@ -80,6 +80,42 @@ describe('fromCronEvent', () => {
     expect(event.rrule).toBe('FREQ=WEEKLY;BYDAY=MO');
     expect(event.category).toBe('automation');
   });
+
+  it('starts the series at the first cron run', () => {
+    const event = fromCronEvent({
+      id: 'cron-start',
+      name: 'Weekly digest',
+      schedule: '30 8 * * 1',
+    });
+
+    expect(event.start.getTime()).toBeGreaterThanOrEqual(Date.now() - 60000);
+    expect(event.start.getUTCDay()).toBe(1);
+    expect(event.start.getUTCHours()).toBe(8);
+    expect(event.start.getUTCMinutes()).toBe(30);
+  });
+
+  it('evaluates the schedule in the event zone', () => {
+    const event = fromCronEvent({
+      id: 'cron-tz',
+      name: 'Morning report',
+      schedule: '0 9 * * *',
+      timezone: 'America/Los_Angeles',
+    });
+
+    expect(event.timezone).toBe('America/Los_Angeles');
+    expect([16, 17]).toContain(event.start.getUTCHours());
+  });
+
+  it('falls back to RDATE for schedules RRULE cannot express', () => {
+    const event = fromCronEvent({
+      id: 'cron-rdate',
+      name: 'Billing run',
+      schedule: '0 8 1 * 1',
+    });
+
+    expect(event.rrule).toBeUndefined();
+    expect(event.rdate!.length).toBeGreaterThan(10);
+  });
 });
 
 describe('fromToolCall', () => {
@@ -258,6 +294,43 @@ describe('cronToRRule', () => {
   it('returns empty string for unsupported patterns', () => {
     expect(cronToRRule('*/5 * * * *')).toBe('');
   });
+
+  it('converts hourly schedules', () => {
+    expect(cronToRRule('0 * * * *')).toBe('FREQ=HOURLY');
+    expect(cronToRRule('@hourly')).toBe('FREQ=HOURLY');
+    expect(cronToRRule('15 * * * 1-5')).toBe('FREQ=HOURLY;BYDAY=MO,TU,WE,TH,FR');
+  });
+
+  it('emits BYHOUR and BYMINUTE for multiple run times', () => {
+    expect(cronToRRule('0 9,17 * * *')).toBe('FREQ=DAILY;BYHOUR=9,17');
+    expect(cronToRRule('0,30 9 * * *')).toBe('FREQ=DAILY;BYMINUTE=0,30');
+    expect(cronToRRule('0 */6 * * *')).toBe('FREQ=DAILY;BYHOUR=0,6,12,18');
+  });
+
+  it('converts day-of-month and month schedules', () => {
+    expect(cronToRRule('0 8 1 * *')).toBe('FREQ=MONTHLY;BYMONTHDAY=1');
+    expect(cronToRRule('0 8 1,15 * *')).toBe('FREQ=MONTHLY;BYMONTHDAY=1,15');
+    expect(cronToRRule('0 8 1 1,7 *')).toBe('FREQ=YEARLY;BYMONTH=1,7;BYMONTHDAY=1');
+    expect(cronToRRule('0 8 * JUN-AUG *')).toBe('FREQ=DAILY;BYMONTH=6,7,8');
+  });
+
+  it('handles named days, Sunday aliases and macros', () => {
+    expect(cronToRRule('0 8 * * MON-FRI')).toBe('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+    expect(cronToRRule('0 8 * * 6,7')).toBe('FREQ=WEEKLY;BYDAY=SA,SU');
+    expect(cronToRRule('@weekly')).toBe('FREQ=WEEKLY;BYDAY=SU');
+    expect(cronToRRule('@daily')).toBe('FREQ=DAILY');
+    expect(cronToRRule('@monthly')).toBe('FREQ=MONTHLY;BYMONTHDAY=1');
+  });
+
+  it('returns empty string when day-of-month and day-of-week are both set', () => {
+    expect(cronToRRule('0 8 1 * 1')).toBe('');
+  });
+
+  it('returns empty string for malformed expressions', () => {
+    expect(cronToRRule('not a cron')).toBe('');
+    expect(cronToRRule('61 8 * * *')).toBe('');
+    expect(cronToRRule('@reboot')).toBe('');
+  });
 });
 
 describe('parseOffset', () => {
@@ -1,7 +1,9 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { existsSync, unlinkSync, readFileSync, readdirSync, rmSync } from 'fs';
 import { join } from 'path';
 import { FeedManager } from '../src/feed-manager';
+import { JsonLinesEventStore, MemoryEventStore } from '../src/store';
+import { EventJournal } from '../src/journal';
 
 const TEST_DIR = '/tmp/clawcal-feed-test';
 
@@ -139,6 +141,41 @@ describe('FeedManager', () => {
     expect(agentEvent?.status).toBe('CANCELLED');
   });
 
+  it('edits single occurrences across all feeds', () => {
+    const feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: true });
+    const moved = new Date('2025-03-10T09:00:00Z');
+    const skipped = new Date('2025-03-17T09:00:00Z');
+
+    feeds.addEvent({
+      uid: 'weekly',
+      title: 'Weekly sync',
+      start: new Date('2025-03-03T09:00:00Z'),
+      rrule: 'FREQ=WEEKLY',
+      agent: 'dev-agent',
+    });
+
+    feeds.updateOccurrence('weekly', moved, { start: new Date('2025-03-11T09:00:00Z') });
+    feeds.cancelOccurrence('weekly', skipped);
+
+    for (const feed of [feeds.getCombinedFeed(), feeds.getAgentFeed('dev-agent')]) {
+      const event = feed?.getEvent('weekly');
+      expect(event?.overrides?.[0].recurrenceId).toEqual(moved);
+      expect(event?.exdate).toEqual([skipped]);
+    }
+  });
+
+  it('merges occurrences from agent feeds when no combined feed', () => {
+    const feeds = new FeedManager(TEST_DIR, { combined: false, per_agent: true });
+
+    feeds.addEvent({ uid: 'a', title: 'Daily', start: new Date('2025-03-01T09:00:00Z'), rrule: 'FREQ=DAILY', agent: 'dev-agent' });
+    feeds.addEvent({ uid: 'b', title: 'Post', start: new Date('2025-03-02T12:00:00Z'), agent: 'marketing-agent' });
+
+    const from = new Date('2025-03-02T00:00:00Z');
+    const to = new Date('2025-03-04T00:00:00Z');
+    expect(feeds.getOccurrences(from, to).map(o => o.uid)).toEqual(['a', 'b', 'a']);
+    expect(feeds.getAgentOccurrences('marketing-agent', from, to)).toHaveLength(1);
+  });
+
   it('returns agent IDs', () => {
     const feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: true });
 
@@ -193,3 +230,344 @@ describe('FeedManager', () => {
     expect(combinedContent).toContain('X-WR-CALNAME:OpenClaw — All Agents');
   });
 });
+
+describe('FeedManager per-project feeds', () => {
+  beforeEach(cleanDir);
+  afterEach(cleanDir);
+
+  const config = { combined: true, per_agent: true, per_project: true };
+
+  it('writes events to a feed per project alongside the agent feed', () => {
+    const feeds = new FeedManager(TEST_DIR, config);
+    feeds.addEvent({ uid: 'a', title: 'Launch post', start: new Date('2025-02-25T09:00:00Z'), agent: 'marketing-agent', project: 'MyApp' });
+    feeds.addEvent({ uid: 'b', title: 'Fix build', start: new Date('2025-02-25T10:00:00Z'), agent: 'dev-agent', project: 'MyApp' });
+    feeds.addEvent({ uid: 'c', title: 'Other', start: new Date('2025-02-25T11:00:00Z'), agent: 'dev-agent', project: 'Side/Project' });
+
+    expect(feeds.getProjectNames()).toEqual(['MyApp', 'Side/Project']);
+    const myApp = readFileSync(join(TEST_DIR, 'projects', 'MyApp.ics'), 'utf-8');
+    expect(myApp).toContain('X-WR-CALNAME:OpenClaw — Project: MyApp');
+    expect(myApp).toContain('Launch post');
+    expect(myApp).toContain('Fix build');
+    expect(myApp).not.toContain('Other');
+
+    // Unsafe names are sanitized for the file name
+    expect(existsSync(join(TEST_DIR, 'projects', 'Side-Project.ics'))).toBe(true);
+    expect(feeds.getAgentFeed('dev-agent')?.getAllEvents()).toHaveLength(2);
+  });
+
+  it('updates and removes events in project feeds', () => {
+    const feeds = new FeedManager(TEST_DIR, config);
+    feeds.addEvent({ uid: 'a', title: 'A', start: new Date('2025-02-25T09:00:00Z'), project: 'MyApp' });
+    feeds.updateEvent('a', { title: 'A2' });
+    expect(feeds.getProjectFeed('MyApp')?.getEvent('a')?.title).toBe('A2');
+
+    feeds.removeEvent('a');
+    expect(feeds.getProjectFeed('MyApp')?.getEvent('a')).toBeUndefined();
+  });
+
+  it('is off unless enabled', () => {
+    const feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: true });
+    feeds.addEvent({ uid: 'a', title: 'A', start: new Date('2025-02-25T09:00:00Z'), project: 'MyApp' });
+
+    expect(feeds.getProjectNames()).toEqual([]);
+    expect(existsSync(join(TEST_DIR, 'projects'))).toBe(false);
+  });
+
+  it('loads existing project feeds from disk without loading them as agents', () => {
+    const first = new FeedManager(TEST_DIR, config);
+    first.addEvent({ uid: 'a', title: 'A', start: new Date('2025-02-25T09:00:00Z'), agent: 'dev-agent', project: 'MyApp' });
+
+    const second = new FeedManager(TEST_DIR, config);
+    expect(second.getProjectFeed('MyApp')?.getEvent('a')?.title).toBe('A');
+    expect(second.getAgentIds()).toEqual(['dev-agent']);
+  });
+
+  it('reloads feeds with unsafe names under their real names', () => {
+    const first = new FeedManager(TEST_DIR, config);
+    first.addEvent({ uid: 'a', title: 'A', start: new Date('2025-02-25T09:00:00Z'), agent: 'ops.agent', project: 'Side/Project' });
+
+    const second = new FeedManager(TEST_DIR, config);
+    expect(second.getProjectNames()).toEqual(['Side/Project']);
+    expect(second.getAgentIds()).toEqual(['ops.agent']);
+    expect(second.getProjectFeed('Side/Project')?.getName()).toBe('OpenClaw — Project: Side/Project');
+
+    // New events join the reloaded feed rather than a second one on the same file
+    second.addEvent({ uid: 'b', title: 'B', start: new Date('2025-02-26T09:00:00Z'), agent: 'ops.agent', project: 'Side/Project' });
+    second.flush();
+    const content = readFileSync(join(TEST_DIR, 'projects', 'Side-Project.ics'), 'utf-8');
+    expect(content).toContain('UID:a');
+    expect(content).toContain('UID:b');
+  });
+
+  it('renders project feeds from the store', () => {
+    const store = new MemoryEventStore();
+    store.put({ uid: 'a', title: 'A', start: new Date('2025-02-25T09:00:00Z'), project: 'MyApp' });
+
+    const feeds = new FeedManager(TEST_DIR, config, undefined, {}, store);
+    expect(feeds.getProjectFeed('MyApp')?.getEvent('a')?.title).toBe('A');
+    expect(existsSync(join(TEST_DIR, 'projects', 'MyApp.ics'))).toBe(true);
+  });
+});
+
+describe('FeedManager custom feeds', () => {
+  beforeEach(cleanDir);
+  afterEach(cleanDir);
+
+  const config = {
+    combined: true,
+    per_agent: true,
+    custom: [{
+      slug: 'myapp-launches',
+      name: 'MyApp launches',
+      filter: { projects: ['MyApp'], categories: ['launch', 'post'], statuses: ['PLANNED' as const, 'IN_PROGRESS' as const] },
+    }],
+  };
+
+  it('holds only the events that pass the filter', () => {
+    const feeds = new FeedManager(TEST_DIR, config);
+    feeds.addEvent({ uid: 'a', title: 'Launch', start: new Date('2025-02-25T09:00:00Z'), category: 'launch', project: 'MyApp' });
+    feeds.addEvent({ uid: 'b', title: 'Review', start: new Date('2025-02-25T10:00:00Z'), category: 'review', project: 'MyApp' });
+    feeds.addEvent({ uid: 'c', title: 'Other post', start: new Date('2025-02-25T11:00:00Z'), category: 'post', project: 'Other' });
+
+    expect(feeds.getCustomFeed('myapp-launches')?.getAllEvents().map(e => e.uid)).toEqual(['a']);
+    const content = readFileSync(join(TEST_DIR, 'custom', 'myapp-launches.ics'), 'utf-8');
+    expect(content).toContain('X-WR-CALNAME:MyApp launches');
+    expect(content).toContain('UID:a@clawcal');
+  });
+
+  it('follows updates in and out of the filter', () => {
+    const feeds = new FeedManager(TEST_DIR, config);
+    feeds.addEvent({ uid: 'a', title: 'Launch', start: new Date('2025-02-25T09:00:00Z'), category: 'launch', project: 'MyApp' });
+    feeds.updateEvent('a', { title: 'Launch v2' });
+    expect(feeds.getCustomFeed('myapp-launches')?.getEvent('a')).toMatchObject({ title: 'Launch v2', sequence: 1 });
+
+    feeds.cancelEvent('a');
+    expect(feeds.getCustomFeed('myapp-launches')?.getEvent('a')).toBeUndefined();
+
+    feeds.addEvent({ uid: 'b', title: 'Draft', start: new Date('2025-02-25T09:00:00Z'), category: 'draft', project: 'MyApp' });
+    feeds.updateEvent('b', { category: 'post' });
+    expect(feeds.getCustomFeed('myapp-launches')?.getEvent('b')).toBeDefined();
+  });
+
+  it('rebuilds custom feeds from the other feeds on startup', () => {
+    const first = new FeedManager(TEST_DIR, config);
+    first.addEvent({ uid: 'a', title: 'Launch', start: new Date('2025-02-25T09:00:00Z'), category: 'launch', project: 'MyApp', agent: 'marketing-agent' });
+
+    const second = new FeedManager(TEST_DIR, config);
+    expect(second.getCustomFeed('myapp-launches')?.getEvent('a')?.title).toBe('Launch');
+    expect(second.getAgentIds()).toEqual(['marketing-agent']);
+    expect(second.getCustomFeeds().map(f => f.slug)).toEqual(['myapp-launches']);
+  });
+
+  it('re-evaluates relative date windows on refresh', () => {
+    const feeds = new FeedManager(TEST_DIR, {
+      combined: true,
+      per_agent: false,
+      custom: [{ slug: 'upcoming', name: 'Upcoming', filter: { from: '-1h', to: '+1d' } }],
+    });
+    const soon = new Date(Date.now() + 3600000);
+    feeds.addEvent({ uid: 'soon', title: 'Soon', start: soon });
+    expect(feeds.getCustomFeed('upcoming')?.getEvent('soon')).toBeDefined();
+
+    // Stand-in for time passing: the event falls out of the window
+    feeds.getCombinedFeed()?.updateEvent('soon', { start: new Date(Date.now() - 86400000) });
+    feeds.refreshCustomFeeds();
+    expect(feeds.getCustomFeed('upcoming')?.getEvent('soon')).toBeUndefined();
+  });
+});
+
+describe('FeedManager with an event store', () => {
+  beforeEach(cleanDir);
+  afterEach(cleanDir);
+
+  const storePath = () => join(TEST_DIR, 'events.jsonl');
+
+  it('writes every change to the store', () => {
+    const store = new MemoryEventStore();
+    const feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: true }, undefined, {}, store);
+
+    feeds.addEvent({ uid: 'a', title: 'A', start: new Date('2025-02-25T09:00:00Z'), agent: 'dev-agent' });
+    feeds.updateEvent('a', { title: 'A2' });
+    feeds.addEvent({ uid: 'b', title: 'B', start: new Date('2025-02-25T10:00:00Z') });
+    feeds.removeEvent('b');
+
+    expect(store.load().map(e => [e.uid, e.title, e.sequence])).toEqual([['a', 'A2', 1]]);
+  });
+
+  it('renders feeds from the store instead of parsing .ics files', () => {
+    const first = new FeedManager(TEST_DIR, { combined: true, per_agent: true }, undefined, {}, new JsonLinesEventStore(storePath()));
+    first.addEvent({
+      uid: 'launch',
+      title: 'Launch',
+      start: new Date('2025-02-25T00:00:00Z'),
+      end: new Date('2025-02-27T00:00:00Z'),
+      allDay: true,
+      agent: 'marketing-agent',
+      alerts: [{ minutes: 60, description: 'Heads up' }],
+    });
+
+    // A wiped feed file is re-rendered from the store
+    rmSync(join(TEST_DIR, 'marketing-agent.ics'));
+
+    const second = new FeedManager(TEST_DIR, { combined: true, per_agent: true }, undefined, {}, new JsonLinesEventStore(storePath()));
+    const event = second.getAgentFeed('marketing-agent')?.getEvent('launch');
+    expect(event?.end?.toISOString()).toBe('2025-02-27T00:00:00.000Z');
+    expect(event?.alerts?.[0].description).toBe('Heads up');
+    expect(readFileSync(join(TEST_DIR, 'marketing-agent.ics'), 'utf-8')).toContain('UID:launch@clawcal');
+  });
+
+  it('imports existing .ics feeds into an empty store', () => {
+    const legacy = new FeedManager(TEST_DIR, { combined: true, per_agent: true });
+    legacy.addEvent({ uid: 'old', title: 'Old', start: new Date('2025-02-25T09:00:00Z'), agent: 'dev-agent' });
+
+    const store = new JsonLinesEventStore(storePath());
+    new FeedManager(TEST_DIR, { combined: true, per_agent: true }, undefined, {}, store);
+
+    expect(store.load().map(e => e.uid)).toEqual(['old']);
+  });
+
+  it('rebuilds feeds from the store', () => {
+    const store = new MemoryEventStore();
+    const feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: false }, undefined, {}, store);
+    feeds.addEvent({ uid: 'a', title: 'A', start: new Date('2025-02-25T09:00:00Z') });
+
+    store.put({ uid: 'b', title: 'B', start: new Date('2025-02-26T09:00:00Z') });
+    feeds.rebuild();
+
+    expect(feeds.getAllEvents().map(e => e.uid)).toEqual(['a', 'b']);
+    expect(readFileSync(join(TEST_DIR, 'all-agents.ics'), 'utf-8')).toContain('UID:b@clawcal');
+  });
+
+  it('drops cleaned-up events from the store', () => {
+    const store = new MemoryEventStore();
+    const feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: false }, undefined, {}, store);
+    feeds.addEvent({ uid: 'old', title: 'Old', start: new Date('2020-01-01T09:00:00Z'), status: 'COMPLETED' });
+    feeds.addEvent({ uid: 'new', title: 'New', start: new Date() });
+
+    feeds.cleanup(90, 100);
+
+    expect(store.load().map(e => e.uid)).toEqual(['new']);
+  });
+});
+
+describe('FeedManager with a journal', () => {
+  beforeEach(cleanDir);
+  afterEach(cleanDir);
+
+  const journalPath = () => join(TEST_DIR, 'journal.jsonl');
+
+  it('journals every mutation with its source before applying it', () => {
+    const journal = new EventJournal(journalPath());
+    const feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: true }, undefined, {}, undefined, journal);
+
+    feeds.addEvent({ uid: 'a', title: 'A', start: new Date('2025-02-25T09:00:00Z'), agent: 'dev-agent' }, 'clawcal:agent-schedule');
+    feeds.updateEvent('a', { title: 'A2' }, 'clawcal:agent-schedule-update');
+    feeds.cancelEvent('a', 'clawcal:agent-schedule-cancel');
+    feeds.removeEvent('a');
+
+    expect(journal.read().map(e => [e.op, e.uid, e.source])).toEqual([
+      ['add', 'a', 'clawcal:agent-schedule'],
+      ['update', 'a', 'clawcal:agent-schedule-update'],
+      ['cancel', 'a', 'clawcal:agent-schedule-cancel'],
+      ['remove', 'a', undefined],
+    ]);
+  });
+
+  it('replays the journal to rebuild every feed from scratch', () => {
+    const journal = new EventJournal(journalPath());
+    const store = new MemoryEventStore();
+    const feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: true }, undefined, {}, store, journal);
+
+    feeds.addEvent({ uid: 'digest', title: 'Digest', start: new Date('2025-03-03T08:00:00Z'), rrule: 'FREQ=WEEKLY', agent: 'dev-agent' });
+    feeds.updateOccurrence('digest', new Date('2025-03-10T08:00:00Z'), { title: 'Moved digest' });
+    feeds.cancelOccurrence('digest', new Date('2025-03-17T08:00:00Z'));
+    feeds.addEvent({ uid: 'post', title: 'Post', start: new Date('2025-03-04T09:00:00Z'), agent: 'marketing-agent' });
+    feeds.cancelEvent('post');
+    const expected = readFileSync(join(TEST_DIR, 'dev-agent.ics'), 'utf-8');
+
+    // Lose every feed file and the store, then replay
+    for (const file of readdirSync(TEST_DIR)) {
+      if (file.endsWith('.ics')) rmSync(join(TEST_DIR, file));
+    }
+    store.replaceAll([]);
+
+    expect(feeds.replayJournal()).toBe(5);
+    expect(feeds.getEvent('post')?.status).toBe('CANCELLED');
+    expect(feeds.getAgentFeed('marketing-agent')?.getEvent('post')?.status).toBe('CANCELLED');
+    expect(store.load().map(e => e.uid).sort()).toEqual(['digest', 'post']);
+    expect(readFileSync(join(TEST_DIR, 'dev-agent.ics'), 'utf-8').replace(/DTSTAMP:.*\r\n/g, ''))
+      .toBe(expected.replace(/DTSTAMP:.*\r\n/g, ''));
+    // Replaying doesn't journal again
+    expect(journal.size).toBe(5);
+  });
+
+  it('snapshots existing events into a new journal so replay keeps them', () => {
+    const store = new MemoryEventStore();
+    const before = new FeedManager(TEST_DIR, { combined: true, per_agent: true }, undefined, {}, store);
+    before.addEvent({ uid: 'old', title: 'Old', start: new Date('2025-03-03T09:00:00Z'), agent: 'dev-agent' });
+
+    // The journal is switched on after events already exist
+    const journal = new EventJournal(journalPath());
+    const feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: true }, undefined, {}, store, journal);
+    expect(journal.read().map(e => [e.op, e.uid])).toEqual([['add', 'old']]);
+
+    feeds.updateEvent('old', { title: 'Old, updated' });
+    feeds.replayJournal();
+
+    expect(feeds.getEvent('old')?.title).toBe('Old, updated');
+    expect(feeds.getAgentFeed('dev-agent')?.getEvent('old')).toBeDefined();
+    expect(store.load().map(e => e.uid)).toEqual(['old']);
+  });
+
+  it('replays modification times as they were journaled', () => {
+    const journal = new EventJournal(journalPath());
+    const feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: false }, undefined, {}, undefined, journal);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(new Date('2025-03-01T10:00:00Z'));
+      feeds.addEvent({ uid: 'a', title: 'A', start: new Date('2025-03-03T09:00:00Z'), rrule: 'FREQ=WEEKLY' });
+      vi.setSystemTime(new Date('2025-03-02T10:00:00Z'));
+      feeds.updateOccurrence('a', new Date('2025-03-10T09:00:00Z'), { title: 'Moved' });
+      feeds.addEvent({ uid: 'b', title: 'B', start: new Date('2025-03-04T09:00:00Z') });
+      vi.setSystemTime(new Date('2025-03-05T10:00:00Z'));
+      feeds.cancelEvent('b');
+
+      vi.setSystemTime(new Date('2025-04-01T00:00:00Z'));
+      feeds.replayJournal();
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(feeds.getEvent('a')?.lastModified?.toISOString()).toBe('2025-03-02T10:00:00.000Z');
+    expect(feeds.getEvent('b')?.lastModified?.toISOString()).toBe('2025-03-05T10:00:00.000Z');
+  });
+
+  it('journals what cleanup removes', () => {
+    const journal = new EventJournal(journalPath());
+    const feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: false }, undefined, {}, undefined, journal);
+    feeds.addEvent({ uid: 'old', title: 'Old', start: new Date('2020-01-01T09:00:00Z'), status: 'COMPLETED' });
+    feeds.addEvent({ uid: 'new', title: 'New', start: new Date() });
+
+    feeds.cleanup(90, 100);
+    feeds.replayJournal();
+
+    expect(journal.read().at(-1)).toMatchObject({ op: 'remove', uid: 'old', source: 'clawcal:cleanup' });
+    expect(feeds.getAllEvents().map(e => e.uid)).toEqual(['new']);
+  });
+
+  it('compacts the journal past the entry limit', () => {
+    const journal = new EventJournal(journalPath());
+    const feeds = new FeedManager(TEST_DIR, { combined: true, per_agent: false }, undefined, {}, undefined, journal);
+    feeds.addEvent({ uid: 'a', title: 'A', start: new Date('2025-02-25T09:00:00Z') });
+    feeds.updateEvent('a', { title: 'A2' });
+    feeds.updateEvent('a', { title: 'A3' });
+
+    expect(feeds.compactJournal(3)).toBe(false);
+    expect(feeds.compactJournal(2)).toBe(true);
+    expect(journal.size).toBe(1);
+
+    feeds.replayJournal();
+    expect(feeds.getEvent('a')).toMatchObject({ title: 'A3', sequence: 2 });
+  });
+});
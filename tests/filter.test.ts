@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { resolveDate, matchesFilter, parseFilterQuery, hasFilterParams } from '../src/filter';
+import { CalendarEvent } from '../src/types';
+
+const now = new Date('2025-03-10T12:00:00Z');
+
+const post: CalendarEvent = {
+  uid: 'post',
+  title: 'Launch post',
+  start: new Date('2025-03-12T09:00:00Z'),
+  category: 'post',
+  agent: 'marketing-agent',
+  project: 'MyApp',
+  status: 'PLANNED',
+};
+
+describe('resolveDate', () => {
+  it('resolves offsets from now', () => {
+    expect(resolveDate('-7d', now)?.toISOString()).toBe('2025-03-03T12:00:00.000Z');
+    expect(resolveDate('+30d', now)?.toISOString()).toBe('2025-04-09T12:00:00.000Z');
+    expect(resolveDate('12h', now)?.toISOString()).toBe('2025-03-11T00:00:00.000Z');
+    expect(resolveDate('-2w', now)?.toISOString()).toBe('2025-02-24T12:00:00.000Z');
+  });
+
+  it('accepts ISO dates and rejects anything else', () => {
+    expect(resolveDate('2025-04-01', now)?.toISOString()).toBe('2025-04-01T00:00:00.000Z');
+    expect(resolveDate('next week', now)).toBeNull();
+  });
+});
+
+describe('matchesFilter', () => {
+  it('matches everything with an empty filter', () => {
+    expect(matchesFilter(post, {})).toBe(true);
+  });
+
+  it('requires every set criterion to match', () => {
+    expect(matchesFilter(post, { projects: ['MyApp'], categories: ['post', 'launch'] })).toBe(true);
+    expect(matchesFilter(post, { projects: ['MyApp'], categories: ['launch'] })).toBe(false);
+    expect(matchesFilter(post, { agents: ['dev-agent'] })).toBe(false);
+    expect(matchesFilter({ ...post, project: undefined }, { projects: ['MyApp'] })).toBe(false);
+  });
+
+  it('can exclude cancelled events', () => {
+    expect(matchesFilter({ ...post, status: 'CANCELLED' }, { cancelled: false })).toBe(false);
+    expect(matchesFilter({ ...post, status: 'CANCELLED' }, { cancelled: true })).toBe(true);
+    expect(matchesFilter(post, { cancelled: false })).toBe(true);
+  });
+
+  it('treats events without a status as planned', () => {
+    expect(matchesFilter({ ...post, status: undefined }, { statuses: ['PLANNED'] })).toBe(true);
+    expect(matchesFilter({ ...post, status: 'CANCELLED' }, { statuses: ['PLANNED', 'COMPLETED'] })).toBe(false);
+  });
+
+  it('applies a relative date window', () => {
+    expect(matchesFilter(post, { from: '-1d', to: '+7d' }, { now })).toBe(true);
+    expect(matchesFilter(post, { to: '+1d' }, { now })).toBe(false);
+    expect(matchesFilter(post, { from: '+3d' }, { now })).toBe(false);
+    expect(matchesFilter({ ...post, start: new Date('2030-01-01T00:00:00Z') }, { from: '-1d' }, { now })).toBe(true);
+  });
+
+  it('matches recurring events with an occurrence in the window', () => {
+    const digest: CalendarEvent = {
+      uid: 'digest',
+      title: 'Weekly digest',
+      start: new Date('2024-01-01T08:00:00Z'),
+      rrule: 'FREQ=WEEKLY',
+    };
+    expect(matchesFilter(digest, { from: '-1d', to: '+7d' }, { now })).toBe(true);
+    expect(matchesFilter({ ...digest, rrule: 'FREQ=WEEKLY;COUNT=4' }, { from: '-1d' }, { now })).toBe(false);
+  });
+});
+
+describe('parseFilterQuery', () => {
+  const parse = (query: string) => parseFilterQuery(new URLSearchParams(query));
+
+  it('parses comma-separated and repeated lists', () => {
+    expect(parse('category=launch,post&agent=dev-agent&agent=marketing-agent&project=myapp')).toEqual({
+      filter: {
+        categories: ['launch', 'post'],
+        agents: ['dev-agent', 'marketing-agent'],
+        projects: ['myapp'],
+      },
+    });
+  });
+
+  it('normalizes statuses and rejects unknown ones', () => {
+    expect(parse('status=planned,in-progress')).toMatchObject({ filter: { statuses: ['PLANNED', 'IN_PROGRESS'] } });
+    expect(parse('status=done')).toEqual({ error: 'Unknown status "DONE"' });
+  });
+
+  it('keeps a "+" offset that arrives unencoded as a space', () => {
+    expect(parse('from=-7d&to=+30d')).toMatchObject({ filter: { from: '-7d', to: '+30d' } });
+    expect(parse('to=%2B30d')).toMatchObject({ filter: { to: '+30d' } });
+    expect(parse('from=yesterday')).toEqual({ error: 'Invalid from date "yesterday"' });
+  });
+
+  it('parses include/exclude cancelled', () => {
+    expect(parse('cancelled=exclude')).toMatchObject({ filter: { cancelled: false } });
+    expect(parse('cancelled=include')).toMatchObject({ filter: { cancelled: true } });
+    expect('error' in parse('cancelled=maybe')).toBe(true);
+  });
+
+  it('detects whether any filter parameter is present', () => {
+    expect(hasFilterParams(new URLSearchParams('project=myapp'))).toBe(true);
+    expect(hasFilterParams(new URLSearchParams('token=abc'))).toBe(false);
+  });
+});
@@ -97,7 +97,7 @@ feeds.addEvent(fromCronEvent({
   description: 'Send a summary of all agent activity this week',
   schedule: '0 8 * * 1',
   agentId: 'marketing-agent',
-}));
+})!);
 
 const allEvents = feeds.getAllEvents();
 const agentIds = feeds.getAgentIds();
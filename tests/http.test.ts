@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { IncomingMessage, ServerResponse } from 'http';
+import { gunzipSync, brotliDecompressSync } from 'zlib';
+import { serveCacheable, negotiateEncoding, prefersJCal, CacheableResponse } from '../src/http';
+
+/**
+ * Create a minimal mock request with a method and optional headers.
+ */
+function mockReq(method = 'GET', headers: Record<string, string> = {}): IncomingMessage {
+  return { method, headers } as any;
+}
+
+/**
+ * Create a minimal mock response that captures status, headers and output.
+ */
+function mockRes(): ServerResponse & { _status: number; _headers: Record<string, string | number>; _body: string | Buffer } {
+  const res: any = {
+    _status: 200,
+    _headers: {},
+    _body: '',
+    set statusCode(code: number) { res._status = code; },
+    get statusCode() { return res._status; },
+    setHeader(key: string, value: string | number) { res._headers[key.toLowerCase()] = value; },
+    end(body?: string | Buffer) { res._body = body || ''; },
+  };
+  return res;
+}
+
+const lastModified = new Date('2025-03-01T12:00:00.500Z');
+
+function feed(overrides: Partial<CacheableResponse> = {}): CacheableResponse {
+  return {
+    contentType: 'text/calendar; charset=utf-8',
+    etag: '"abc-3"',
+    lastModified,
+    filename: 'dev-agent.ics',
+    body: () => 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n',
+    ...overrides,
+  };
+}
+
+describe('serveCacheable', () => {
+  it('sends the body with validators and caching headers', () => {
+    const res = mockRes();
+    serveCacheable(mockReq(), res, feed());
+
+    expect(res._status).toBe(200);
+    expect(res._body).toBe('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n');
+    expect(res._headers['etag']).toBe('"abc-3"');
+    expect(res._headers['last-modified']).toBe('Sat, 01 Mar 2025 12:00:00 GMT');
+    expect(res._headers['cache-control']).toBe('private, max-age=0, must-revalidate');
+    expect(res._headers['content-type']).toBe('text/calendar; charset=utf-8');
+    expect(res._headers['content-disposition']).toBe('inline; filename="dev-agent.ics"');
+    expect(res._headers['content-length']).toBe(32);
+  });
+
+  it('answers a matching If-None-Match with 304 without rendering', () => {
+    const res = mockRes();
+    let rendered = false;
+    serveCacheable(mockReq('GET', { 'if-none-match': '"old", W/"abc-3"' }), res, feed({ body: () => { rendered = true; return ''; } }));
+
+    expect(res._status).toBe(304);
+    expect(res._body).toBe('');
+    expect(res._headers['etag']).toBe('"abc-3"');
+    expect(rendered).toBe(false);
+  });
+
+  it('sends the full body when the ETag changed', () => {
+    const res = mockRes();
+    serveCacheable(mockReq('GET', { 'if-none-match': '"abc-2"' }), res, feed());
+    expect(res._status).toBe(200);
+  });
+
+  it('uses If-Modified-Since at one-second resolution', () => {
+    const unchanged = mockRes();
+    serveCacheable(mockReq('GET', { 'if-modified-since': 'Sat, 01 Mar 2025 12:00:00 GMT' }), unchanged, feed());
+    expect(unchanged._status).toBe(304);
+
+    const changed = mockRes();
+    serveCacheable(mockReq('GET', { 'if-modified-since': 'Sat, 01 Mar 2025 11:59:59 GMT' }), changed, feed());
+    expect(changed._status).toBe(200);
+  });
+
+  it('lets If-None-Match take precedence over If-Modified-Since', () => {
+    const res = mockRes();
+    serveCacheable(mockReq('GET', {
+      'if-none-match': '"abc-2"',
+      'if-modified-since': 'Sat, 01 Mar 2025 12:00:00 GMT',
+    }), res, feed());
+    expect(res._status).toBe(200);
+  });
+
+  it('answers HEAD with headers only', () => {
+    const res = mockRes();
+    serveCacheable(mockReq('HEAD'), res, feed());
+
+    expect(res._status).toBe(200);
+    expect(res._body).toBe('');
+    expect(res._headers['content-length']).toBe(32);
+  });
+
+  it('lists extra Vary headers before Accept-Encoding', () => {
+    const res = mockRes();
+    serveCacheable(mockReq(), res, feed({ vary: ['Accept'] }));
+    expect(res._headers['vary']).toBe('Accept, Accept-Encoding');
+  });
+});
+
+describe('negotiateEncoding', () => {
+  it('prefers brotli, then gzip', () => {
+    expect(negotiateEncoding('gzip, deflate, br')).toBe('br');
+    expect(negotiateEncoding('gzip, deflate')).toBe('gzip');
+    expect(negotiateEncoding('deflate')).toBeNull();
+    expect(negotiateEncoding(undefined)).toBeNull();
+  });
+
+  it('honors q-values and wildcards', () => {
+    expect(negotiateEncoding('br;q=0.5, gzip;q=0.8')).toBe('gzip');
+    expect(negotiateEncoding('br;q=0, gzip;q=0')).toBeNull();
+    expect(negotiateEncoding('*')).toBe('br');
+    expect(negotiateEncoding('*;q=0.1, br;q=0')).toBe('gzip');
+  });
+});
+
+describe('prefersJCal', () => {
+  it('picks jCal only when asked for explicitly and not outweighed', () => {
+    expect(prefersJCal('application/calendar+json')).toBe(true);
+    expect(prefersJCal('text/calendar;q=0.5, application/calendar+json')).toBe(true);
+    expect(prefersJCal('text/calendar, application/calendar+json;q=0.5')).toBe(false);
+    expect(prefersJCal('*/*')).toBe(false);
+    expect(prefersJCal(undefined)).toBe(false);
+  });
+});
+
+describe('serveCacheable compression', () => {
+  const large = 'BEGIN:VCALENDAR\r\n' + 'SUMMARY:Weekly digest\r\n'.repeat(200) + 'END:VCALENDAR\r\n';
+
+  it('compresses large bodies for clients that accept it', () => {
+    const gzip = mockRes();
+    serveCacheable(mockReq('GET', { 'accept-encoding': 'gzip' }), gzip, feed({ body: () => large }));
+    expect(gzip._headers['content-encoding']).toBe('gzip');
+    expect(gzip._headers['etag']).toBe('"abc-3-gzip"');
+    expect(gzip._headers['vary']).toBe('Accept-Encoding');
+    expect(gunzipSync(gzip._body as Buffer).toString()).toBe(large);
+    expect(gzip._headers['content-length']).toBe((gzip._body as Buffer).length);
+
+    const br = mockRes();
+    serveCacheable(mockReq('GET', { 'accept-encoding': 'gzip, br' }), br, feed({ body: () => large }));
+    expect(br._headers['content-encoding']).toBe('br');
+    expect(br._headers['etag']).toBe('"abc-3-br"');
+    expect(brotliDecompressSync(br._body as Buffer).toString()).toBe(large);
+  });
+
+  it('leaves small bodies and clients without Accept-Encoding uncompressed', () => {
+    const small = mockRes();
+    serveCacheable(mockReq('GET', { 'accept-encoding': 'gzip' }), small, feed());
+    expect(small._headers['content-encoding']).toBeUndefined();
+    expect(small._headers['etag']).toBe('"abc-3"');
+
+    const identity = mockRes();
+    serveCacheable(mockReq(), identity, feed({ body: () => large }));
+    expect(identity._headers['content-encoding']).toBeUndefined();
+    expect(identity._body).toBe(large);
+  });
+
+  it('revalidates the tag of whichever encoding the client holds', () => {
+    const gzip = mockRes();
+    serveCacheable(mockReq('GET', { 'accept-encoding': 'gzip', 'if-none-match': '"abc-3-gzip"' }), gzip, feed({ body: () => large }));
+    expect(gzip._status).toBe(304);
+    expect(gzip._headers['etag']).toBe('"abc-3-gzip"');
+
+    const stale = mockRes();
+    serveCacheable(mockReq('GET', { 'accept-encoding': 'br', 'if-none-match': '"abc-2-br"' }), stale, feed({ body: () => large }));
+    expect(stale._status).toBe(200);
+    expect(stale._headers['etag']).toBe('"abc-3-br"');
+  });
+
+  it('reuses the compressed body until the version changes', () => {
+    let renders = 0;
+    const render = (text: string) => () => { renders++; return text; };
+    const req = () => mockReq('GET', { 'accept-encoding': 'gzip' });
+
+    serveCacheable(req(), mockRes(), feed({ cacheKey: '/clawcal/feed.ics', body: render(large) }));
+    const again = mockRes();
+    serveCacheable(req(), again, feed({ cacheKey: '/clawcal/feed.ics', body: render(large) }));
+    expect(renders).toBe(1);
+    expect(gunzipSync(again._body as Buffer).toString()).toBe(large);
+
+    const updated = mockRes();
+    serveCacheable(req(), updated, feed({ cacheKey: '/clawcal/feed.ics', etag: '"abc-4"', body: render(large + 'X') }));
+    expect(renders).toBe(2);
+    expect(gunzipSync(updated._body as Buffer).toString()).toBe(large + 'X');
+  });
+});
@@ -0,0 +1,353 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Readable } from 'stream';
+import { existsSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { register, FeedManager, CalendarConfig } from '../src/index';
+import { ShareLinkSigner } from '../src/sharing';
+
+const TEST_DIR = '/tmp/clawcal-index-test';
+const AUTH = { authorization: 'Bearer secret' };
+
+function cleanDir() {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true });
+  }
+}
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void | Promise<void>;
+
+/**
+ * Create a mock request that streams an optional body.
+ */
+function mockReq(method: string, url: string, headers: Record<string, string> = {}): IncomingMessage {
+  const req: any = Readable.from([]);
+  req.method = method;
+  req.url = url;
+  req.headers = headers;
+  return req;
+}
+
+/**
+ * Create a minimal mock response that captures status, headers and output.
+ * `_ended` stays false when no route answered.
+ */
+function mockRes(): ServerResponse & { _status: number; _headers: Record<string, any>; _body: string; _ended: boolean } {
+  const res: any = {
+    _status: 200,
+    _headers: {},
+    _body: '',
+    _ended: false,
+    set statusCode(code: number) { res._status = code; },
+    get statusCode() { return res._status; },
+    setHeader(key: string, value: any) { res._headers[key.toLowerCase()] = value; },
+    end(body?: string | Buffer) { res._body = body === undefined ? '' : String(body); res._ended = true; },
+  };
+  return res;
+}
+
+/**
+ * Register the plugin against a mock gateway that routes like the real one:
+ * exact paths first, then the longest matching prefix route.
+ */
+function mount(pluginConfig: Record<string, unknown> = {}) {
+  const routes: Array<{ path: string; match?: string; handler: Handler }> = [];
+  const feeds: FeedManager = register({
+    config: { gateway: { auth: { mode: 'token', token: 'secret' } } },
+    pluginConfig: {
+      file_directory: TEST_DIR,
+      localPush: { enabled: false },
+      storage: { flush_interval_ms: 0 },
+      ...pluginConfig,
+    } as Partial<CalendarConfig>,
+    registerHttpRoute: route => routes.push(route),
+    registerTool: () => {},
+    registerHook: () => {},
+    resolvePath: input => input,
+  });
+
+  async function call(method: string, url: string, headers: Record<string, string> = AUTH) {
+    const path = url.split('?')[0];
+    const route = routes.find(r => r.path === path)
+      ?? routes
+        .filter(r => r.match === 'prefix' && path.startsWith(r.path))
+        .sort((a, b) => b.path.length - a.path.length)[0];
+    const res = mockRes();
+    if (route) await route.handler(mockReq(method, url, headers), res);
+    return res;
+  }
+
+  return { feeds, call };
+}
+
+beforeEach(() => {
+  cleanDir();
+  // register() schedules hourly cleanup; keep it from outliving the test
+  vi.useFakeTimers({ toFake: ['setInterval'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  cleanDir();
+});
+
+describe('malformed escapes in route paths', () => {
+  it('answers 400 instead of throwing', async () => {
+    const { feeds, call } = mount({
+      feeds: { combined: true, per_agent: true, per_project: true, custom: [{ slug: 'launches', name: 'Launches', filter: {} }] },
+    });
+    feeds.addEvent({ uid: 'a', title: 'Launch', start: new Date('2025-03-03T09:00:00Z'), agent: 'dev-agent', project: 'myapp' });
+
+    for (const url of [
+      '/clawcal/project/%E0%A4%A.ics',
+      '/clawcal/feed/%E0%A4%A.ics',
+      '/clawcal/feed/custom/%E0.atom',
+      '/clawcal/freebusy/%E0.ifb',
+      '/clawcal/agenda/%E0',
+    ]) {
+      const res = await call('GET', url);
+      expect(res._status, url).toBe(400);
+      expect(res._body, url).toBe('Malformed escape in path');
+    }
+
+    expect((await call('DELETE', '/clawcal/tokens/%E0'))._status).toBe(400);
+    expect((await call('GET', '/clawcal/dav/%E0/'))._status).toBe(404);
+  });
+});
+
+describe('feed tokens on feed routes', () => {
+  const config = { feeds: { combined: true, per_agent: true, per_project: true } };
+
+  async function issue(call: ReturnType<typeof mount>['call'], feed: string): Promise<{ id: string; token: string; url: string }> {
+    const res = await call('POST', `/clawcal/tokens?feed=${encodeURIComponent(feed)}`);
+    expect(res._status).toBe(201);
+    return JSON.parse(res._body);
+  }
+
+  it('unlocks only the feed the token is scoped to', async () => {
+    const { feeds, call } = mount(config);
+    feeds.addEvent({ uid: 'a', title: 'Fix build', start: new Date('2025-03-03T09:00:00Z'), agent: 'dev-agent' });
+    feeds.addEvent({ uid: 'b', title: 'Post', start: new Date('2025-03-03T10:00:00Z'), agent: 'marketing-agent' });
+    const { token } = await issue(call, '/clawcal/feed/dev-agent.ics');
+
+    expect((await call('GET', `/clawcal/feed/dev-agent.ics?token=${token}`, {}))._status).toBe(200);
+    expect((await call('GET', `/clawcal/feed/marketing-agent.ics?token=${token}`, {}))._status).toBe(401);
+    expect((await call('GET', `/clawcal/feed.ics?token=${token}`, {}))._status).toBe(401);
+    expect((await call('GET', `/clawcal/feed/dev-agent.ics?token=guess`, {}))._status).toBe(401);
+  });
+
+  it('matches a scope however the path is escaped', async () => {
+    const { feeds, call } = mount(config);
+    feeds.addEvent({ uid: 'a', title: 'Launch', start: new Date('2025-03-03T09:00:00Z'), project: 'My App' });
+
+    const spaced = await issue(call, '/clawcal/project/My App.ics');
+    const escaped = await issue(call, '/clawcal/project/My%20App.ics');
+    expect(spaced.url).toBe(`/clawcal/project/My%20App.ics?token=${spaced.token}`);
+
+    for (const { token } of [spaced, escaped]) {
+      expect((await call('GET', `/clawcal/project/My%20App.ics?token=${token}`, {}))._status).toBe(200);
+      expect((await call('GET', `/clawcal/project/My App.ics?token=${token}`, {}))._status).toBe(200);
+    }
+  });
+
+  it('stops accepting a revoked token', async () => {
+    const { feeds, call } = mount(config);
+    feeds.addEvent({ uid: 'a', title: 'Fix build', start: new Date('2025-03-03T09:00:00Z'), agent: 'dev-agent' });
+    const { id, token } = await issue(call, '/clawcal/feed/dev-agent.ics');
+
+    expect((await call('DELETE', `/clawcal/tokens/${id}`))._status).toBe(200);
+    expect((await call('GET', `/clawcal/feed/dev-agent.ics?token=${token}`, {}))._status).toBe(401);
+  });
+
+  it('does not let a malformed escape stand in for another scope', async () => {
+    const { feeds, call } = mount(config);
+    feeds.addEvent({ uid: 'a', title: 'Launch', start: new Date('2025-03-03T09:00:00Z'), project: '%E0' });
+    const { token, url } = await issue(call, '/clawcal/project/%25E0.ics');
+
+    expect((await call('GET', url, {}))._status).toBe(200);
+    // `%E0` alone is malformed, not the project literally named "%E0"
+    expect((await call('GET', `/clawcal/project/%E0.ics?token=${token}`, {}))._status).toBe(401);
+  });
+});
+
+describe('share links on feed routes', () => {
+  const config = { feeds: { combined: true, per_agent: true } };
+
+  async function share(call: ReturnType<typeof mount>['call'], feed: string): Promise<string> {
+    const res = await call('POST', `/clawcal/share?feed=${encodeURIComponent(feed)}&days=7`);
+    expect(res._status).toBe(201);
+    return JSON.parse(res._body).url;
+  }
+
+  it('unlocks only the feed path it was signed for', async () => {
+    const { feeds, call } = mount(config);
+    feeds.addEvent({ uid: 'a', title: 'Fix build', start: new Date('2025-03-03T09:00:00Z'), agent: 'dev-agent' });
+    feeds.addEvent({ uid: 'b', title: 'Post', start: new Date('2025-03-03T10:00:00Z'), agent: 'marketing-agent' });
+    const url = await share(call, '/clawcal/feed/dev-agent.ics');
+
+    expect((await call('GET', url, {}))._status).toBe(200);
+    const query = url.split('?')[1];
+    expect((await call('GET', `/clawcal/feed/marketing-agent.ics?${query}`, {}))._status).toBe(401);
+    expect((await call('GET', `/clawcal/feed/dev-agent.atom?${query}`, {}))._status).toBe(401);
+  });
+
+  it('falls through to gateway auth when the link is expired or tampered with', async () => {
+    const { feeds, call } = mount(config);
+    feeds.addEvent({ uid: 'a', title: 'Fix build', start: new Date('2025-03-03T09:00:00Z'), agent: 'dev-agent' });
+    const feed = '/clawcal/feed/dev-agent.ics';
+
+    const expired = `${feed}?${new ShareLinkSigner(join(TEST_DIR, 'share.key')).sign(feed, new Date(Date.now() - 1000))}`;
+    const url = await share(call, feed);
+    const tampered = url.replace(/expires=(\d+)/, (_, expires) => `expires=${Number(expires) + 86400}`);
+
+    for (const link of [expired, tampered]) {
+      const anonymous = await call('GET', link, {});
+      expect(anonymous._status).toBe(401);
+      expect(anonymous._headers['www-authenticate']).toBe('Basic realm="ClawCal"');
+      // Gateway auth still works alongside a bad link
+      expect((await call('GET', link))._status).toBe(200);
+    }
+  });
+});
+
+describe('feed listing and Atom routes', () => {
+  const config = {
+    feeds: {
+      combined: true,
+      per_agent: true,
+      per_project: true,
+      custom: [{ slug: 'launches', name: 'Launches', filter: { categories: ['launch'] } }],
+    },
+  };
+
+  it('lists escaped .ics and .atom URLs for every feed', async () => {
+    const { feeds, call } = mount(config);
+    feeds.addEvent({ uid: 'a', title: 'Launch', start: new Date('2025-03-03T09:00:00Z'), category: 'launch', agent: 'ops agent', project: 'My App' });
+
+    const listing = JSON.parse((await call('GET', '/clawcal/feeds'))._body);
+    expect(listing.agents).toEqual([expect.objectContaining({
+      id: 'ops agent',
+      url: '/clawcal/feed/ops%20agent.ics',
+      atom: '/clawcal/feed/ops%20agent.atom',
+      freebusy: '/clawcal/freebusy/ops%20agent.ifb',
+    })]);
+    expect(listing.projects[0].atom).toBe('/clawcal/project/My%20App.atom');
+    expect(listing.custom).toEqual([{
+      slug: 'launches',
+      name: 'Launches',
+      url: '/clawcal/feed/custom/launches.ics',
+      atom: '/clawcal/feed/custom/launches.atom',
+    }]);
+
+    // Every listed Atom URL is served
+    for (const url of [listing.agents[0].atom, listing.projects[0].atom, listing.custom[0].atom]) {
+      expect((await call('GET', url))._status, url).toBe(200);
+    }
+  });
+
+  it('serves a feed as an Atom stream', async () => {
+    const { feeds, call } = mount(config);
+    feeds.addEvent({ uid: 'a', title: 'Launch', start: new Date('2025-03-03T09:00:00Z'), category: 'launch', agent: 'dev-agent' });
+
+    const res = await call('GET', '/clawcal/feed/dev-agent.atom');
+    expect(res._status).toBe(200);
+    expect(res._headers['content-type']).toBe('application/atom+xml; charset=utf-8');
+    expect(res._headers['content-disposition']).toBe('inline; filename="dev-agent.atom"');
+    expect(res._body).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(res._body).toContain('<id>urn:clawcal:feed:/clawcal/feed/dev-agent.atom</id>');
+    expect(res._body).toContain('Launch');
+
+    expect((await call('GET', '/clawcal/feed/missing.atom'))._status).toBe(404);
+    expect((await call('GET', '/clawcal/feed/dev-agent.atom', {}))._status).toBe(401);
+  });
+});
+
+describe('free/busy route', () => {
+  const config = { feeds: { combined: true, per_agent: true } };
+
+  it('defaults to the next week', async () => {
+    vi.useRealTimers();
+    vi.useFakeTimers({ toFake: ['Date', 'setInterval'] });
+    vi.setSystemTime(new Date('2025-03-03T08:00:00Z'));
+    const { feeds, call } = mount(config);
+    feeds.addEvent({ uid: 'a', title: 'Fix build', start: new Date('2025-03-04T09:00:00Z'), duration: 30, agent: 'ops agent' });
+
+    const listing = JSON.parse((await call('GET', '/clawcal/feeds'))._body);
+    const res = await call('GET', listing.agents[0].freebusy.replace(/\.ifb$/, '.json'));
+    expect(res._status).toBe(200);
+    expect(JSON.parse(res._body)).toMatchObject({
+      agent: 'ops agent',
+      from: '2025-03-03T08:00:00.000Z',
+      to: '2025-03-10T08:00:00.000Z',
+      busy: [{ start: '2025-03-04T09:00:00.000Z', end: '2025-03-04T09:30:00.000Z' }],
+    });
+
+    const ifb = await call('GET', listing.agents[0].freebusy);
+    expect(ifb._headers['content-disposition']).toBe('inline; filename="ops agent.ifb"');
+    expect(ifb._body).toContain('FREEBUSY');
+  });
+
+  it('caps the range at a year and rejects bad bounds', async () => {
+    const { feeds, call } = mount(config);
+    feeds.addEvent({ uid: 'a', title: 'Fix build', start: new Date('2025-03-04T09:00:00Z'), agent: 'dev-agent' });
+    const path = '/clawcal/freebusy/dev-agent.json';
+
+    expect((await call('GET', `${path}?from=2025-01-01&to=2026-01-02`))._status).toBe(200);
+
+    const tooLong = await call('GET', `${path}?from=2025-01-01&to=2026-01-03`);
+    expect(tooLong._status).toBe(400);
+    expect(tooLong._body).toBe("Range can't exceed 366 days");
+
+    expect((await call('GET', `${path}?from=soon`))._body).toBe('Invalid from "soon"');
+    expect((await call('GET', `${path}?to=later`))._body).toBe('Invalid to "later"');
+    const backwards = await call('GET', `${path}?from=2025-03-10&to=2025-03-01`);
+    expect(backwards._status).toBe(400);
+    expect(backwards._body).toBe('to must be after from');
+  });
+});
+
+describe('conditional GET on feed routes', () => {
+  it('answers a matching If-None-Match with 304 until the feed changes', async () => {
+    const { feeds, call } = mount({ feeds: { combined: true, per_agent: true } });
+    feeds.addEvent({ uid: 'a', title: 'Fix build', start: new Date('2025-03-03T09:00:00Z'), agent: 'dev-agent' });
+
+    const first = await call('GET', '/clawcal/feed/dev-agent.ics');
+    const etag = first._headers['etag'];
+    expect(first._status).toBe(200);
+    expect(etag).toMatch(/^"[0-9a-f]+-\d+"$/);
+
+    const unchanged = await call('GET', '/clawcal/feed/dev-agent.ics', { ...AUTH, 'if-none-match': etag });
+    expect(unchanged._status).toBe(304);
+    expect(unchanged._body).toBe('');
+
+    // Another feed never answers to this feed's tag
+    expect((await call('GET', '/clawcal/feed.ics', { ...AUTH, 'if-none-match': etag }))._status).toBe(200);
+
+    feeds.updateEvent('a', { title: 'Fixed build' });
+    const changed = await call('GET', '/clawcal/feed/dev-agent.ics', { ...AUTH, 'if-none-match': etag });
+    expect(changed._status).toBe(200);
+    expect(changed._body).toContain('SUMMARY:Fixed build');
+    expect(changed._headers['etag']).not.toBe(etag);
+  });
+});
+
+describe('shutdown', () => {
+  it('flushes debounced writes when the process is told to stop', () => {
+    const { feeds } = mount({ feeds: { combined: true }, storage: { flush_interval_ms: 60_000 } });
+    feeds.addEvent({ uid: 'pending', title: 'Pending', start: new Date('2025-03-03T09:00:00Z') });
+    const file = join(TEST_DIR, 'all-agents.ics');
+    const before = existsSync(file) ? readFileSync(file, 'utf-8') : '';
+    expect(before).not.toContain('UID:pending@clawcal');
+
+    // Another listener stands in for the gateway, so the handler doesn't re-raise the signal
+    const gateway = () => {};
+    process.on('SIGTERM', gateway);
+    try {
+      process.emit('SIGTERM');
+    } finally {
+      process.off('SIGTERM', gateway);
+    }
+
+    expect(readFileSync(file, 'utf-8')).toContain('UID:pending@clawcal');
+  });
+});
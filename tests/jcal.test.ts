@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, unlinkSync } from 'fs';
+import { CalendarManager } from '../src/calendar';
+import { icsToJCal, JCalComponent, JCalProperty } from '../src/jcal';
+
+const TEST_FILE = '/tmp/clawcal-jcal-test.ics';
+
+function props(component: JCalComponent, name: string): JCalProperty[] {
+  return component[1].filter(p => p[0] === name);
+}
+
+function prop(component: JCalComponent, name: string): JCalProperty | undefined {
+  return props(component, name)[0];
+}
+
+function children(component: JCalComponent, name: string): JCalComponent[] {
+  return component[2].filter(c => c[0] === name);
+}
+
+describe('CalendarManager.toJCal', () => {
+  let calendar: CalendarManager;
+
+  beforeEach(() => {
+    if (existsSync(TEST_FILE)) unlinkSync(TEST_FILE);
+    calendar = new CalendarManager(TEST_FILE, 'Test Calendar');
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_FILE)) unlinkSync(TEST_FILE);
+  });
+
+  it('renders the calendar properties and a typed VEVENT', () => {
+    calendar.addEvent({
+      uid: 'jcal-1',
+      title: 'Deploy, then verify',
+      description: 'Line one\nLine two',
+      start: new Date('2025-02-25T09:00:00Z'),
+      duration: 30,
+      status: 'PLANNED',
+      sequence: 2,
+      category: 'deploy',
+      agent: 'dev-agent',
+      project: 'website',
+      url: 'https://example.com/runs/1',
+    });
+
+    const jcal = calendar.toJCal();
+    expect(jcal[0]).toBe('vcalendar');
+    expect(prop(jcal, 'version')).toEqual(['version', {}, 'text', '2.0']);
+    expect(prop(jcal, 'x-wr-calname')).toEqual(['x-wr-calname', {}, 'text', 'Test Calendar']);
+
+    const [vevent] = children(jcal, 'vevent');
+    expect(prop(vevent, 'uid')).toEqual(['uid', {}, 'text', 'jcal-1@clawcal']);
+    expect(prop(vevent, 'dtstart')).toEqual(['dtstart', {}, 'date-time', '2025-02-25T09:00:00Z']);
+    expect(prop(vevent, 'duration')).toEqual(['duration', {}, 'duration', 'PT30M']);
+    expect(prop(vevent, 'summary')).toEqual(['summary', {}, 'text', 'Deploy, then verify']);
+    expect(prop(vevent, 'description')).toEqual(['description', {}, 'text', 'Line one\nLine two']);
+    expect(prop(vevent, 'sequence')).toEqual(['sequence', {}, 'integer', 2]);
+    expect(prop(vevent, 'status')).toEqual(['status', {}, 'text', 'TENTATIVE']);
+    expect(prop(vevent, 'categories')).toEqual(['categories', {}, 'text', 'deploy']);
+    expect(prop(vevent, 'url')).toEqual(['url', {}, 'uri', 'https://example.com/runs/1']);
+    expect(prop(vevent, 'x-openclaw-agent')).toEqual(['x-openclaw-agent', {}, 'text', 'dev-agent']);
+    expect(prop(vevent, 'x-openclaw-project')).toEqual(['x-openclaw-project', {}, 'text', 'website']);
+  });
+
+  it('renders RRULE as a recur object and EXDATE with its TZID', () => {
+    calendar.addEvent({
+      uid: 'jcal-weekly',
+      title: 'Standup',
+      start: new Date('2025-03-03T09:00:00Z'),
+      timezone: 'Europe/Berlin',
+      rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20250601T000000Z',
+      exdate: [new Date('2025-03-05T09:00:00Z')],
+    });
+
+    const jcal = calendar.toJCal();
+    const [vevent] = children(jcal, 'vevent');
+    expect(prop(vevent, 'rrule')).toEqual(['rrule', {}, 'recur', {
+      freq: 'WEEKLY',
+      interval: 2,
+      byday: ['MO', 'WE'],
+      until: '2025-06-01T00:00:00Z',
+    }]);
+    expect(prop(vevent, 'dtstart')).toEqual(['dtstart', { tzid: 'Europe/Berlin' }, 'date-time', '2025-03-03T10:00:00']);
+    expect(prop(vevent, 'exdate')).toEqual(['exdate', { tzid: 'Europe/Berlin' }, 'date-time', '2025-03-05T10:00:00']);
+
+    const [vtimezone] = children(jcal, 'vtimezone');
+    expect(prop(vtimezone, 'tzid')).toEqual(['tzid', {}, 'text', 'Europe/Berlin']);
+    const standard = children(vtimezone, 'standard')[0];
+    expect(prop(standard, 'tzoffsetto')).toEqual(['tzoffsetto', {}, 'utc-offset', '+01:00']);
+  });
+
+  it('renders VALARMs as subcomponents and all-day dates as date values', () => {
+    calendar.addEvent({
+      uid: 'jcal-alarm',
+      title: 'Launch',
+      start: new Date('2025-04-01T00:00:00Z'),
+      allDay: true,
+      alerts: [{ minutes: 15 }, { minutes: 60, description: 'An hour to go' }],
+    });
+
+    const [vevent] = children(calendar.toJCal(), 'vevent');
+    expect(prop(vevent, 'dtstart')).toEqual(['dtstart', {}, 'date', '2025-04-01']);
+
+    const alarms = children(vevent, 'valarm');
+    expect(alarms).toHaveLength(2);
+    expect(prop(alarms[0], 'action')).toEqual(['action', {}, 'text', 'DISPLAY']);
+    expect(prop(alarms[0], 'trigger')).toEqual(['trigger', {}, 'duration', '-PT15M']);
+    expect(prop(alarms[1], 'description')).toEqual(['description', {}, 'text', 'An hour to go']);
+  });
+
+  it('applies the include predicate like toICS', () => {
+    calendar.addEvent({ uid: 'keep', title: 'Keep', start: new Date('2025-02-25T09:00:00Z') });
+    calendar.addEvent({ uid: 'drop', title: 'Drop', start: new Date('2025-02-25T10:00:00Z') });
+
+    const vevents = children(calendar.toJCal(event => event.uid === 'keep'), 'vevent');
+    expect(vevents).toHaveLength(1);
+    expect(prop(vevents[0], 'uid')?.[3]).toBe('keep@clawcal');
+  });
+});
+
+describe('icsToJCal', () => {
+  it('unfolds lines and splits multi-valued text on unescaped commas', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'SUMMARY:A very long summary that has been',
+      '  folded',
+      'CATEGORIES:ops,deploy\\, staged',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ].join('\r\n');
+
+    const [vevent] = children(icsToJCal(ics), 'vevent');
+    expect(prop(vevent, 'summary')?.[3]).toBe('A very long summary that has been folded');
+    expect(prop(vevent, 'categories')).toEqual(['categories', {}, 'text', 'ops', 'deploy, staged']);
+  });
+
+  it('rejects input without a component', () => {
+    expect(() => icsToJCal('not a calendar')).toThrow();
+  });
+});
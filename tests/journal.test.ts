@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, rmSync, readFileSync, appendFileSync } from 'fs';
+import { join } from 'path';
+import { EventJournal } from '../src/journal';
+import { CalendarEvent } from '../src/types';
+
+const TEST_DIR = '/tmp/clawcal-journal-test';
+const JOURNAL_FILE = join(TEST_DIR, 'journal.jsonl');
+
+function cleanDir() {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true });
+  }
+}
+
+const digest: CalendarEvent = {
+  uid: 'digest',
+  title: 'Weekly digest',
+  start: new Date('2025-03-03T08:00:00Z'),
+  rrule: 'FREQ=WEEKLY',
+  agent: 'dev-agent',
+};
+
+describe('EventJournal', () => {
+  beforeEach(cleanDir);
+  afterEach(cleanDir);
+
+  it('appends entries with a sequence number, timestamp and source', () => {
+    const journal = new EventJournal(JOURNAL_FILE);
+    const at = new Date('2025-03-01T12:00:00Z');
+    journal.append({ op: 'add', uid: 'digest', source: 'clawcal:cron-register', event: digest }, at);
+    journal.append({ op: 'cancel', uid: 'digest', source: 'clawcal:cron-unregister' });
+    journal.close();
+
+    const entries = new EventJournal(JOURNAL_FILE).read();
+    expect(entries.map(e => [e.seq, e.op, e.source])).toEqual([
+      [1, 'add', 'clawcal:cron-register'],
+      [2, 'cancel', 'clawcal:cron-unregister'],
+    ]);
+    expect(entries[0].at).toEqual(at);
+    expect(entries[0].event?.start).toEqual(digest.start);
+  });
+
+  it('continues the sequence after reopening', () => {
+    const first = new EventJournal(JOURNAL_FILE);
+    first.append({ op: 'remove', uid: 'a' });
+    first.close();
+
+    const second = new EventJournal(JOURNAL_FILE);
+    expect(second.size).toBe(1);
+    expect(second.append({ op: 'remove', uid: 'b' }).seq).toBe(2);
+    second.close();
+  });
+
+  it('revives dates and keeps cleared fields in updates and occurrence edits', () => {
+    const journal = new EventJournal(JOURNAL_FILE);
+    journal.append({ op: 'update', uid: 'digest', updates: { start: new Date('2025-03-04T08:00:00Z'), allDay: undefined } });
+    journal.append({
+      op: 'update-occurrence',
+      uid: 'digest',
+      recurrenceId: new Date('2025-03-10T08:00:00Z'),
+      occurrence: { start: new Date('2025-03-11T09:00:00Z'), title: 'Moved' },
+    });
+    journal.close();
+
+    const [update, edit] = journal.read();
+    expect(update.updates?.start).toEqual(new Date('2025-03-04T08:00:00Z'));
+    expect('allDay' in update.updates!).toBe(true);
+    expect(update.updates?.allDay).toBeUndefined();
+    expect(edit.recurrenceId).toEqual(new Date('2025-03-10T08:00:00Z'));
+    expect(edit.occurrence).toMatchObject({ start: new Date('2025-03-11T09:00:00Z'), title: 'Moved' });
+  });
+
+  it('skips a partial last line', () => {
+    const journal = new EventJournal(JOURNAL_FILE);
+    journal.append({ op: 'remove', uid: 'a' });
+    journal.close();
+    appendFileSync(JOURNAL_FILE, '{"seq":2,"op":"add","uid":"ha');
+
+    expect(journal.read()).toHaveLength(1);
+  });
+
+  it('skips lines that are not journal entries', () => {
+    const journal = new EventJournal(JOURNAL_FILE);
+    journal.append({ op: 'remove', uid: 'a' });
+    journal.close();
+    appendFileSync(JOURNAL_FILE, '[1,2]\n{"seq":2,"op":"explode","uid":"b"}\n{"seq":"3","op":"remove","uid":"c"}\n');
+
+    expect(journal.read().map(entry => entry.uid)).toEqual(['a']);
+  });
+
+  it('compacts to one snapshot entry per live event', () => {
+    const journal = new EventJournal(JOURNAL_FILE);
+    journal.append({ op: 'add', uid: 'digest', event: digest });
+    journal.append({ op: 'update', uid: 'digest', updates: { title: 'Renamed' } });
+    journal.append({ op: 'remove', uid: 'gone' });
+
+    journal.compact([{ ...digest, title: 'Renamed' }]);
+    journal.append({ op: 'cancel', uid: 'digest' });
+    journal.close();
+
+    const lines = readFileSync(JOURNAL_FILE, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(l => [l.seq, l.op, l.source])).toEqual([[4, 'add', 'clawcal:compaction'], [5, 'cancel', undefined]]);
+    expect(lines[0].event.title).toBe('Renamed');
+    expect(journal.size).toBe(2);
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import { parseRRule, expandRRule, expandEvent } from '../src/rrule';
+import { CalendarEvent } from '../src/types';
+
+function iso(dates: Date[]): string[] {
+  return dates.map(d => d.toISOString());
+}
+
+const from = new Date('2025-01-01T00:00:00Z');
+const to = new Date('2026-01-01T00:00:00Z');
+
+describe('parseRRule', () => {
+  it('parses frequency, interval and BY* parts', () => {
+    const rule = parseRRule('FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,MO;BYMONTH=1,7;WKST=SU');
+    expect(rule?.freq).toBe('MONTHLY');
+    expect(rule?.interval).toBe(2);
+    expect(rule?.byDay).toEqual([{ day: 5, nth: -1 }, { day: 1, nth: undefined }]);
+    expect(rule?.byMonth).toEqual([1, 7]);
+    expect(rule?.wkst).toBe(0);
+  });
+
+  it('rejects unsupported rules', () => {
+    expect(parseRRule('FREQ=MINUTELY')).toBeNull();
+    expect(parseRRule('FREQ=YEARLY;BYWEEKNO=20')).toBeNull();
+    expect(parseRRule('BYDAY=MO')).toBeNull();
+  });
+});
+
+describe('expandRRule', () => {
+  it('expands a daily rule with COUNT, counting DTSTART', () => {
+    const dates = expandRRule('FREQ=DAILY;COUNT=3', new Date('2025-03-01T09:00:00Z'), { from, to });
+    expect(iso(dates)).toEqual([
+      '2025-03-01T09:00:00.000Z',
+      '2025-03-02T09:00:00.000Z',
+      '2025-03-03T09:00:00.000Z',
+    ]);
+  });
+
+  it('expands weekly BYDAY within each week', () => {
+    const dates = expandRRule('FREQ=WEEKLY;BYDAY=MO,WE,FR', new Date('2025-03-03T08:00:00Z'), {
+      from,
+      to: new Date('2025-03-10T00:00:00Z'),
+    });
+    expect(iso(dates)).toEqual([
+      '2025-03-03T08:00:00.000Z',
+      '2025-03-05T08:00:00.000Z',
+      '2025-03-07T08:00:00.000Z',
+    ]);
+  });
+
+  it('honors INTERVAL for weekly rules', () => {
+    const dates = expandRRule('FREQ=WEEKLY;INTERVAL=2;COUNT=3', new Date('2025-03-03T08:00:00Z'), { from, to });
+    expect(iso(dates)).toEqual([
+      '2025-03-03T08:00:00.000Z',
+      '2025-03-17T08:00:00.000Z',
+      '2025-03-31T08:00:00.000Z',
+    ]);
+  });
+
+  it('picks ordinal weekdays within the month', () => {
+    const dates = expandRRule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3', new Date('2025-01-31T17:00:00Z'), { from, to });
+    expect(iso(dates)).toEqual([
+      '2025-01-31T17:00:00.000Z',
+      '2025-02-28T17:00:00.000Z',
+      '2025-03-28T17:00:00.000Z',
+    ]);
+  });
+
+  it('skips months without the requested day', () => {
+    const dates = expandRRule('FREQ=MONTHLY;BYMONTHDAY=31', new Date('2025-01-31T12:00:00Z'), {
+      from,
+      to: new Date('2025-06-01T00:00:00Z'),
+    });
+    expect(iso(dates)).toEqual([
+      '2025-01-31T12:00:00.000Z',
+      '2025-03-31T12:00:00.000Z',
+      '2025-05-31T12:00:00.000Z',
+    ]);
+  });
+
+  it('expands yearly BYMONTH with BYDAY as "nth weekday of month"', () => {
+    const dates = expandRRule('FREQ=YEARLY;BYMONTH=11;BYDAY=4TH', new Date('2024-11-28T18:00:00Z'), {
+      from,
+      to: new Date('2027-01-01T00:00:00Z'),
+    });
+    expect(iso(dates)).toEqual([
+      '2025-11-27T18:00:00.000Z',
+      '2026-11-26T18:00:00.000Z',
+    ]);
+  });
+
+  it('applies BYSETPOS to the period set', () => {
+    // Last weekday of the month
+    const dates = expandRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3', new Date('2025-05-30T16:00:00Z'), { from, to });
+    expect(iso(dates)).toEqual([
+      '2025-05-30T16:00:00.000Z',
+      '2025-06-30T16:00:00.000Z',
+      '2025-07-31T16:00:00.000Z',
+    ]);
+  });
+
+  it('expands BYHOUR and BYMINUTE within each day', () => {
+    const dates = expandRRule('FREQ=DAILY;BYHOUR=9,17;BYMINUTE=0,30', new Date('2025-03-01T09:00:00Z'), {
+      from,
+      to: new Date('2025-03-02T00:00:00Z'),
+    });
+    expect(iso(dates)).toEqual([
+      '2025-03-01T09:00:00.000Z',
+      '2025-03-01T09:30:00.000Z',
+      '2025-03-01T17:00:00.000Z',
+      '2025-03-01T17:30:00.000Z',
+    ]);
+  });
+
+  it('filters hourly rules by day', () => {
+    const dates = expandRRule('FREQ=HOURLY;BYDAY=SA', new Date('2025-03-07T22:15:00Z'), {
+      from: new Date('2025-03-08T00:00:00Z'),
+      to: new Date('2025-03-08T03:00:00Z'),
+    });
+    expect(iso(dates)).toEqual([
+      '2025-03-08T00:15:00.000Z',
+      '2025-03-08T01:15:00.000Z',
+      '2025-03-08T02:15:00.000Z',
+    ]);
+  });
+
+  it('includes UNTIL as a DATE-TIME or a whole DATE', () => {
+    const start = new Date('2025-03-01T09:00:00Z');
+    expect(expandRRule('FREQ=DAILY;UNTIL=20250303T090000Z', start, { from, to })).toHaveLength(3);
+    expect(expandRRule('FREQ=DAILY;UNTIL=20250303', start, { from, to })).toHaveLength(3);
+  });
+
+  it('keeps the wall-clock time across DST in the event zone', () => {
+    const dates = expandRRule('FREQ=WEEKLY', new Date('2025-03-03T17:00:00Z'), {
+      from,
+      to: new Date('2025-03-15T00:00:00Z'),
+      timeZone: 'America/Los_Angeles',
+    });
+    // 9:00 PST, then 9:00 PDT
+    expect(iso(dates)).toEqual([
+      '2025-03-03T17:00:00.000Z',
+      '2025-03-10T16:00:00.000Z',
+    ]);
+  });
+
+  it('only returns occurrences inside the window for long-running series', () => {
+    const dates = expandRRule('FREQ=DAILY;INTERVAL=3', new Date('2020-01-01T06:00:00Z'), {
+      from: new Date('2025-06-01T00:00:00Z'),
+      to: new Date('2025-06-08T00:00:00Z'),
+    });
+    expect(iso(dates)).toEqual([
+      '2025-06-03T06:00:00.000Z',
+      '2025-06-06T06:00:00.000Z',
+    ]);
+  });
+
+  it('returns just DTSTART for unsupported rules', () => {
+    const start = new Date('2025-03-01T09:00:00Z');
+    expect(expandRRule('FREQ=SECONDLY', start, { from, to })).toEqual([start]);
+  });
+});
+
+describe('expandEvent', () => {
+  const weekly: CalendarEvent = {
+    uid: 'digest',
+    title: 'Weekly digest',
+    start: new Date('2025-03-03T08:00:00Z'),
+    duration: 30,
+    rrule: 'FREQ=WEEKLY;COUNT=4',
+  };
+
+  it('returns a single occurrence for one-off events that overlap', () => {
+    const event: CalendarEvent = { uid: 'once', title: 'Once', start: new Date('2025-03-01T09:00:00Z') };
+    const [occurrence] = expandEvent(event, from, to);
+    expect(occurrence.end.toISOString()).toBe('2025-03-01T09:15:00.000Z');
+    expect(occurrence.recurrenceId).toBeUndefined();
+    expect(expandEvent(event, new Date('2025-03-02T00:00:00Z'), to)).toEqual([]);
+  });
+
+  it('flattens instances with their own start and end', () => {
+    const occurrences = expandEvent(weekly, from, to);
+    expect(occurrences).toHaveLength(4);
+    expect(occurrences[1].start.toISOString()).toBe('2025-03-10T08:00:00.000Z');
+    expect(occurrences[1].end.toISOString()).toBe('2025-03-10T08:30:00.000Z');
+    expect(occurrences[1].recurrenceId?.toISOString()).toBe('2025-03-10T08:00:00.000Z');
+    expect(occurrences[1].rrule).toBeUndefined();
+  });
+
+  it('drops EXDATEs and applies overrides', () => {
+    const occurrences = expandEvent({
+      ...weekly,
+      exdate: [new Date('2025-03-10T08:00:00Z')],
+      overrides: [{
+        recurrenceId: new Date('2025-03-17T08:00:00Z'),
+        start: new Date('2025-03-18T10:00:00Z'),
+        title: 'Moved digest',
+      }],
+    }, from, to);
+
+    expect(occurrences.map(o => o.title)).toEqual(['Weekly digest', 'Moved digest', 'Weekly digest']);
+    expect(occurrences[1].start.toISOString()).toBe('2025-03-18T10:00:00.000Z');
+    expect(occurrences[1].recurrenceId?.toISOString()).toBe('2025-03-17T08:00:00.000Z');
+  });
+
+  it('adds RDATEs', () => {
+    const occurrences = expandEvent({
+      uid: 'report',
+      title: 'Report',
+      start: new Date('2025-03-01T09:00:00Z'),
+      rdate: [new Date('2025-03-15T09:00:00Z')],
+    }, from, to);
+    expect(iso(occurrences.map(o => o.start))).toEqual(['2025-03-01T09:00:00.000Z', '2025-03-15T09:00:00.000Z']);
+  });
+
+  it('includes an occurrence already running at the start of the window', () => {
+    const occurrences = expandEvent(weekly, new Date('2025-03-10T08:15:00Z'), new Date('2025-03-11T00:00:00Z'));
+    expect(occurrences).toHaveLength(1);
+  });
+
+  it('spans whole local days for all-day series', () => {
+    const occurrences = expandEvent({
+      uid: 'poll',
+      title: 'Inbox poll',
+      start: new Date('2025-03-08T08:00:00Z'),
+      allDay: true,
+      rrule: 'FREQ=DAILY',
+      exdate: [new Date('2025-03-10T07:00:00Z')],
+    }, new Date('2025-03-09T12:00:00Z'), new Date('2025-03-11T12:00:00Z'), 'America/Los_Angeles');
+
+    // Mar 9 (DST starts, 23h day) and Mar 11; Mar 10 excluded by date
+    expect(occurrences.map(o => [o.start.toISOString(), o.end.toISOString()])).toEqual([
+      ['2025-03-09T08:00:00.000Z', '2025-03-10T07:00:00.000Z'],
+      ['2025-03-11T07:00:00.000Z', '2025-03-12T07:00:00.000Z'],
+    ]);
+  });
+});
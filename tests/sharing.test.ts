@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, rmSync, statSync } from 'fs';
+import { join } from 'path';
+import { ShareLinkSigner } from '../src/sharing';
+
+const TEST_DIR = '/tmp/clawcal-sharing-test';
+const KEY_FILE = join(TEST_DIR, 'share.key');
+const DEV_FEED = '/clawcal/feed/dev-agent.ics';
+
+function cleanDir() {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true });
+  }
+}
+
+const now = new Date('2025-03-01T12:00:00Z');
+const twoWeeks = new Date('2025-03-15T12:00:00Z');
+
+describe('ShareLinkSigner', () => {
+  beforeEach(cleanDir);
+  afterEach(cleanDir);
+
+  it('verifies a link for its feed until it expires', () => {
+    const signer = new ShareLinkSigner(KEY_FILE);
+    const query = new URLSearchParams(signer.sign(DEV_FEED, twoWeeks));
+
+    expect(query.get('expires')).toBe(String(twoWeeks.getTime() / 1000));
+    expect(signer.verify(DEV_FEED, query, now)).toBe(true);
+    expect(signer.verify(DEV_FEED, query, new Date('2025-03-15T12:00:01Z'))).toBe(false);
+  });
+
+  it('rejects links moved to another feed or extended', () => {
+    const signer = new ShareLinkSigner(KEY_FILE);
+    const query = new URLSearchParams(signer.sign(DEV_FEED, twoWeeks));
+    expect(signer.verify('/clawcal/feed.ics', query, now)).toBe(false);
+
+    query.set('expires', String(twoWeeks.getTime() / 1000 + 86400));
+    expect(signer.verify(DEV_FEED, query, now)).toBe(false);
+  });
+
+  it('rejects missing or malformed parameters', () => {
+    const signer = new ShareLinkSigner(KEY_FILE);
+    expect(signer.verify(DEV_FEED, new URLSearchParams(''), now)).toBe(false);
+    expect(signer.verify(DEV_FEED, new URLSearchParams('expires=soon&sig=abc'), now)).toBe(false);
+    expect(signer.verify(DEV_FEED, new URLSearchParams('expires=1900000000&sig=abc'), now)).toBe(false);
+  });
+
+  it('keeps links valid across restarts and revokes them with the key', () => {
+    const query = new URLSearchParams(new ShareLinkSigner(KEY_FILE).sign(DEV_FEED, twoWeeks));
+    expect(statSync(KEY_FILE).mode & 0o777).toBe(0o600);
+    expect(new ShareLinkSigner(KEY_FILE).verify(DEV_FEED, query, now)).toBe(true);
+
+    rmSync(KEY_FILE);
+    expect(new ShareLinkSigner(KEY_FILE).verify(DEV_FEED, query, now)).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, rmSync, readFileSync, appendFileSync } from 'fs';
+import { join } from 'path';
+import { JsonLinesEventStore, MemoryEventStore } from '../src/store';
+import { CalendarEvent } from '../src/types';
+
+const TEST_DIR = '/tmp/clawcal-store-test';
+const STORE_FILE = join(TEST_DIR, 'events.jsonl');
+
+function cleanDir() {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true });
+  }
+}
+
+const launch: CalendarEvent = {
+  uid: 'launch-1',
+  title: '📣 Launch',
+  start: new Date('2025-03-03T00:00:00Z'),
+  end: new Date('2025-03-05T00:00:00Z'),
+  allDay: true,
+  url: 'https://example.com/a,b;c',
+  alerts: [{ minutes: 60, description: 'Heads up' }, { minutes: 15 }],
+};
+
+describe('JsonLinesEventStore', () => {
+  beforeEach(cleanDir);
+  afterEach(cleanDir);
+
+  it('round-trips events without losing fields', () => {
+    const store = new JsonLinesEventStore(STORE_FILE);
+    store.put({
+      ...launch,
+      rrule: 'FREQ=WEEKLY',
+      exdate: [new Date('2025-03-10T00:00:00Z')],
+      overrides: [{ recurrenceId: new Date('2025-03-17T00:00:00Z'), title: 'Moved' }],
+    });
+
+    const [event] = new JsonLinesEventStore(STORE_FILE).load();
+    expect(event.url).toBe('https://example.com/a,b;c');
+    expect(event.alerts).toEqual(launch.alerts);
+    expect(event.end).toEqual(launch.end);
+    expect(event.exdate).toEqual([new Date('2025-03-10T00:00:00Z')]);
+    expect(event.overrides?.[0].recurrenceId).toEqual(new Date('2025-03-17T00:00:00Z'));
+  });
+
+  it('replays puts and deletes in order', () => {
+    const store = new JsonLinesEventStore(STORE_FILE);
+    store.put(launch);
+    store.put({ ...launch, title: 'Renamed' });
+    store.put({ uid: 'gone', title: 'Gone', start: new Date() });
+    store.delete('gone');
+
+    const events = store.load();
+    expect(events.map(e => e.title)).toEqual(['Renamed']);
+  });
+
+  it('skips a partial last line', () => {
+    const store = new JsonLinesEventStore(STORE_FILE);
+    store.put(launch);
+    appendFileSync(STORE_FILE, '{"op":"put","event":{"uid":"half');
+
+    expect(store.load()).toHaveLength(1);
+  });
+
+  it('compacts superseded records on load', () => {
+    const store = new JsonLinesEventStore(STORE_FILE);
+    for (let i = 0; i < 5; i++) store.put({ ...launch, title: `Version ${i}` });
+
+    store.load();
+
+    const lines = readFileSync(STORE_FILE, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]).event.title).toBe('Version 4');
+  });
+});
+
+describe('MemoryEventStore', () => {
+  it('keeps the latest version of each event', () => {
+    const store = new MemoryEventStore();
+    store.put(launch);
+    store.put({ ...launch, title: 'Renamed' });
+    store.replaceAll([...store.load(), { uid: 'b', title: 'B', start: new Date() }]);
+    store.delete('b');
+
+    expect(store.load().map(e => e.title)).toEqual(['Renamed']);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { getTimeZoneOffset, zonedTimeToUtc, zonedDateKey, formatICSLocalDate, parseICSLocalDate, findTransitions, buildVTimezone, resolveTimeZone } from '../src/timezone';
+
+describe('timezone helpers', () => {
+  it('computes offsets on both sides of DST', () => {
+    expect(getTimeZoneOffset(new Date('2025-01-15T12:00:00Z'), 'America/Los_Angeles')).toBe(-480);
+    expect(getTimeZoneOffset(new Date('2025-07-15T12:00:00Z'), 'America/Los_Angeles')).toBe(-420);
+    expect(getTimeZoneOffset(new Date('2025-07-15T12:00:00Z'), 'UTC')).toBe(0);
+  });
+
+  it('converts wall-clock time to UTC', () => {
+    expect(zonedTimeToUtc(2025, 1, 15, 9, 0, 0, 'America/Los_Angeles').toISOString()).toBe('2025-01-15T17:00:00.000Z');
+    expect(zonedTimeToUtc(2025, 7, 15, 9, 0, 0, 'America/Los_Angeles').toISOString()).toBe('2025-07-15T16:00:00.000Z');
+  });
+
+  it('resolves times inside the spring-forward gap forward', () => {
+    // 02:30 does not exist on 2025-03-09 in Los Angeles
+    expect(zonedTimeToUtc(2025, 3, 9, 2, 30, 0, 'America/Los_Angeles').toISOString()).toBe('2025-03-09T10:30:00.000Z');
+    // 02:30 does not exist on 2025-03-30 in Berlin
+    expect(zonedTimeToUtc(2025, 3, 30, 2, 30, 0, 'Europe/Berlin').toISOString()).toBe('2025-03-30T01:30:00.000Z');
+  });
+
+  it('formats and parses local date-times', () => {
+    const date = new Date('2025-02-25T17:00:00Z');
+    expect(formatICSLocalDate(date, 'America/New_York')).toBe('20250225T120000');
+    expect(parseICSLocalDate('20250225T120000', 'America/New_York').toISOString()).toBe(date.toISOString());
+  });
+
+  it('computes the local calendar day', () => {
+    const date = new Date('2025-02-26T03:00:00Z');
+    expect(zonedDateKey(date, 'America/Los_Angeles')).toBe('2025-02-25');
+    expect(zonedDateKey(date)).toBe('2025-02-26');
+  });
+
+  it('finds DST transitions to the minute', () => {
+    const transitions = findTransitions('America/Los_Angeles', 2025);
+    expect(transitions).toHaveLength(2);
+    expect(transitions[0].at.toISOString()).toBe('2025-03-09T10:00:00.000Z');
+    expect(transitions[1].at.toISOString()).toBe('2025-11-02T09:00:00.000Z');
+  });
+
+  it('builds a single STANDARD observance for zones without DST', () => {
+    const lines = buildVTimezone('Asia/Tokyo', 2025);
+    expect(lines).toContain('TZOFFSETTO:+0900');
+    expect(lines.filter(l => l === 'BEGIN:STANDARD')).toHaveLength(1);
+    expect(lines).not.toContain('BEGIN:DAYLIGHT');
+  });
+
+  it('falls back to UTC for unknown zones', () => {
+    expect(resolveTimeZone('Mars/Olympus_Mons')).toBe('UTC');
+    expect(resolveTimeZone('Europe/Paris')).toBe('Europe/Paris');
+  });
+});
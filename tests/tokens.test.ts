@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, rmSync, readFileSync, writeFileSync, mkdirSync, statSync } from 'fs';
+import { join } from 'path';
+import { FeedTokenStore } from '../src/tokens';
+
+const TEST_DIR = '/tmp/clawcal-tokens-test';
+const TOKENS_FILE = join(TEST_DIR, 'tokens.json');
+const DEV_FEED = '/clawcal/feed/dev-agent.ics';
+
+function cleanDir() {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true });
+  }
+}
+
+describe('FeedTokenStore', () => {
+  beforeEach(cleanDir);
+  afterEach(cleanDir);
+
+  it('issues tokens that only unlock their own feed', () => {
+    const tokens = new FeedTokenStore(TOKENS_FILE);
+    const { token, info } = tokens.issue(DEV_FEED, 'Google Calendar');
+
+    expect(info.feed).toBe(DEV_FEED);
+    expect(info.label).toBe('Google Calendar');
+    expect(tokens.verify(DEV_FEED, token)).toBe(true);
+    expect(tokens.verify('/clawcal/feed.ics', token)).toBe(false);
+    expect(tokens.verify(DEV_FEED, 'guess')).toBe(false);
+    expect(tokens.verify(DEV_FEED, '')).toBe(false);
+  });
+
+  it('stores only a hash of the secret', () => {
+    const tokens = new FeedTokenStore(TOKENS_FILE);
+    const { token } = tokens.issue(DEV_FEED);
+
+    const content = readFileSync(TOKENS_FILE, 'utf-8');
+    expect(content).not.toContain(token);
+    expect(statSync(TOKENS_FILE).mode & 0o777).toBe(0o600);
+    expect(tokens.list()[0]).not.toHaveProperty('hash');
+
+    // Still valid after reloading
+    expect(new FeedTokenStore(TOKENS_FILE).verify(DEV_FEED, token)).toBe(true);
+  });
+
+  it('revokes a single token', () => {
+    const tokens = new FeedTokenStore(TOKENS_FILE);
+    const first = tokens.issue(DEV_FEED);
+    const second = tokens.issue(DEV_FEED);
+
+    expect(tokens.revoke(first.info.id)).toBe(true);
+    expect(tokens.revoke(first.info.id)).toBe(false);
+    expect(tokens.verify(DEV_FEED, first.token)).toBe(false);
+    expect(tokens.verify(DEV_FEED, second.token)).toBe(true);
+  });
+
+  it('rotates every token of a feed and leaves other feeds alone', () => {
+    const tokens = new FeedTokenStore(TOKENS_FILE);
+    const old = tokens.issue(DEV_FEED);
+    const combined = tokens.issue('/clawcal/feed.ics');
+
+    const rotated = tokens.rotate(DEV_FEED);
+    expect(tokens.verify(DEV_FEED, old.token)).toBe(false);
+    expect(tokens.verify(DEV_FEED, rotated.token)).toBe(true);
+    expect(tokens.verify('/clawcal/feed.ics', combined.token)).toBe(true);
+    expect(tokens.list(DEV_FEED).map(t => t.id)).toEqual([rotated.info.id]);
+  });
+
+  it('grants nothing from an unreadable token file', () => {
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(TOKENS_FILE, '{not json');
+
+    expect(new FeedTokenStore(TOKENS_FILE).list()).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { parseXml, findChild, findChildren, escapeXml } from '../src/xml';
+
+describe('parseXml', () => {
+  it('resolves default and prefixed namespaces', () => {
+    const root = parseXml(`<?xml version="1.0" encoding="utf-8"?>
+      <!-- a PROPFIND body -->
+      <propfind xmlns="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+        <prop><displayname/><C:calendar-data/><x:color xmlns:x="urn:example"/></prop>
+      </propfind>`);
+
+    expect(root).toMatchObject({ ns: 'DAV:', name: 'propfind' });
+    const prop = findChild(root, 'DAV:', 'prop')!;
+    expect(prop.children.map(c => [c.ns, c.name])).toEqual([
+      ['DAV:', 'displayname'],
+      ['urn:ietf:params:xml:ns:caldav', 'calendar-data'],
+      ['urn:example', 'color'],
+    ]);
+  });
+
+  it('reads attributes, text, entities and CDATA', () => {
+    const root = parseXml(`<C:calendar-multiget xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+      <D:href>/a&amp;b.ics</D:href><D:href><![CDATA[/c<d>.ics]]></D:href>
+      <C:time-range start='20250301T000000Z' end="20250401T000000Z"/>
+    </C:calendar-multiget>`);
+
+    expect(findChildren(root, 'DAV:', 'href').map(h => h.text)).toEqual(['/a&b.ics', '/c<d>.ics']);
+    expect(findChild(root, 'urn:ietf:params:xml:ns:caldav', 'time-range')!.attrs)
+      .toEqual({ start: '20250301T000000Z', end: '20250401T000000Z' });
+  });
+
+  it('rejects malformed documents and DTDs', () => {
+    expect(() => parseXml('<a><b></a>')).toThrow();
+    expect(() => parseXml('<a>')).toThrow(/Unclosed/);
+    expect(() => parseXml('<x:a/>')).toThrow(/Undeclared/);
+    expect(() => parseXml('<a/><b/>')).toThrow(/More than one root/);
+    expect(() => parseXml('<!DOCTYPE a [<!ENTITY x "y">]><a>&x;</a>')).toThrow(/DTD/);
+    expect(() => parseXml('')).toThrow(/No root/);
+  });
+
+  it('escapes markup characters', () => {
+    expect(escapeXml('<a href="x">&</a>\x01')).toBe('&lt;a href=&quot;x&quot;&gt;&amp;&lt;/a&gt;');
+  });
+});